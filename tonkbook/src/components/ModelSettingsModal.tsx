@@ -0,0 +1,221 @@
+import React, { useState, useEffect } from "react";
+import { X, RotateCcw, Save } from "lucide-react";
+import { modelCatalogService } from "../services/modelCatalogService";
+import { ModelInfo, ModelSettings, ProviderInfo } from "../types/model";
+
+interface ModelSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  title: string;
+  settings: ModelSettings;
+  onSave: (settings: ModelSettings) => void;
+}
+
+/**
+ * Temperature the AI worker uses when none is saved
+ */
+const DEFAULT_TEMPERATURE = 0.7;
+
+/**
+ * Select values are `provider/model`; the empty value is the worker default
+ */
+const toOptionValue = (provider?: string, model?: string) =>
+  provider && model ? `${provider}/${model}` : "";
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1000 ? `${Math.round(tokens / 1000)}k` : String(tokens);
+
+const ModelSettingsModal: React.FC<ModelSettingsModalProps> = ({
+  isOpen,
+  onClose,
+  title,
+  settings,
+  onSave,
+}) => {
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState("");
+  const [temperature, setTemperature] = useState(DEFAULT_TEMPERATURE);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setSelected(toOptionValue(settings.provider, settings.model));
+    setTemperature(settings.temperature ?? DEFAULT_TEMPERATURE);
+
+    const loadProviders = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setProviders(await modelCatalogService.getProviders());
+      } catch (err) {
+        setError("Failed to load models from the AI worker");
+        console.error("Error loading model catalog:", err);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadProviders();
+  }, [isOpen]);
+
+  // Provider names don't contain slashes, model IDs may
+  const separator = selected.indexOf("/");
+  const selectedProvider =
+    separator === -1 ? undefined : selected.slice(0, separator);
+  const selectedModel =
+    separator === -1 ? undefined : selected.slice(separator + 1);
+  const selectedInfo: ModelInfo | undefined = providers
+    .find((provider) => provider.name === selectedProvider)
+    ?.models.find((model) => model.id === selectedModel);
+  const defaultProvider = providers.find((provider) => provider.isDefault);
+
+  // Synced documents can't hold undefined values, so unset fields are left out
+  const handleSave = () => {
+    onSave(
+      selectedProvider && selectedModel
+        ? { provider: selectedProvider, model: selectedModel, temperature }
+        : { temperature },
+    );
+  };
+
+  const handleReset = () => {
+    setSelected("");
+    setTemperature(DEFAULT_TEMPERATURE);
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg w-full max-w-lg flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900">{title}</h2>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Model
+            </label>
+            <select
+              value={selected}
+              onChange={(e) => setSelected(e.target.value)}
+              disabled={isLoading}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm"
+            >
+              <option value="">
+                Worker default
+                {defaultProvider
+                  ? ` (${defaultProvider.name}/${defaultProvider.defaultModel})`
+                  : ""}
+              </option>
+              {providers.map((provider) => (
+                <optgroup key={provider.name} label={provider.name}>
+                  {provider.models.map((model) => (
+                    <option
+                      key={model.id}
+                      value={toOptionValue(provider.name, model.id)}
+                    >
+                      {model.id}
+                    </option>
+                  ))}
+                </optgroup>
+              ))}
+              {/* Keep a saved model selectable if the worker no longer lists it */}
+              {selected && !selectedInfo && !isLoading && (
+                <option value={selected}>{selected} (unavailable)</option>
+              )}
+            </select>
+
+            {isLoading && (
+              <p className="text-xs text-gray-500 italic mt-2">
+                Loading models...
+              </p>
+            )}
+            {error && <p className="text-xs text-red-500 mt-2">{error}</p>}
+
+            {selectedInfo && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                <span className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+                  {formatTokens(selectedInfo.contextWindow)} context
+                </span>
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full ${selectedInfo.tools ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"}`}
+                >
+                  {selectedInfo.tools ? "Tools" : "No tools"}
+                </span>
+                <span
+                  className={`text-xs px-2 py-0.5 rounded-full ${selectedInfo.streaming ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"}`}
+                >
+                  {selectedInfo.streaming ? "Streaming" : "No streaming"}
+                </span>
+                <span className="text-xs px-2 py-0.5 rounded-full bg-blue-100 text-blue-700">
+                  {selectedInfo.pricing
+                    ? `$${selectedInfo.pricing.input} / $${selectedInfo.pricing.output} per 1M tokens`
+                    : "Price unknown"}
+                </span>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Temperature: {temperature.toFixed(1)}
+            </label>
+            <p className="text-sm text-gray-600 mb-3">
+              Lower values give more focused, repeatable answers; higher values
+              more varied ones.
+            </p>
+            <input
+              type="range"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              onChange={(e) => setTemperature(Number(e.target.value))}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center justify-between p-6 border-t border-gray-200 bg-gray-50">
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-2 px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded-lg transition-colors"
+          >
+            <RotateCcw size={16} />
+            Reset to Default
+          </button>
+
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-gray-600 hover:text-gray-800 hover:bg-gray-200 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Save size={16} />
+              Save
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsModal;
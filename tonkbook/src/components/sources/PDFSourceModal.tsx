@@ -59,13 +59,16 @@ const PDFSourceModal: React.FC<PDFSourceModalProps> = ({
       const loadingTask = pdfjsLib.getDocument({ data: pdfDataCopy });
       const pdf = await loadingTask.promise;
 
+      // Record where each page starts so the AI worker can chunk by page
       let extractedText = "";
+      const pageOffsets: number[] = [];
       for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
         const page = await pdf.getPage(pageNum);
         const textContent = await page.getTextContent();
         const pageText = textContent.items
           .map((item: any) => item.str)
           .join(" ");
+        pageOffsets.push(extractedText.length);
         extractedText += pageText + "\n";
       }
 
@@ -73,9 +76,10 @@ const PDFSourceModal: React.FC<PDFSourceModalProps> = ({
       // Note: We don't store the binary data in keepsync as it causes issues with large files
       const sourceContent = {
         title: trimmedTitle,
-        content: extractedText.trim(),
+        content: extractedText.trimEnd(),
         metadata: {
           type: "pdf",
+          pageOffsets,
           createdAt: new Date().toISOString(),
           mimeType: file.type,
           fileName: file.name,
@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from "react";
-import { XIcon } from "lucide-react";
+import { XIcon, AlertTriangleIcon } from "lucide-react";
 import { Source } from "../../types/source";
+import { FlaggedSource } from "../../services/indexingStatusService";
 import { readDoc } from "@tonk/keepsync";
 
 interface SourceCardProps {
   source: Source;
   onRemove: (sourceId: string) => void;
   onView: (source: Source) => void;
+  flagged?: FlaggedSource; // Set when the source looks like a prompt injection
 }
 
 interface SourceContent {
@@ -44,6 +46,7 @@ const SourceCard: React.FC<SourceCardProps> = ({
   source,
   onRemove,
   onView,
+  flagged,
 }) => {
   const [content, setContent] = useState<string>("");
   const [isLoading, setIsLoading] = useState(true);
@@ -162,6 +165,17 @@ const SourceCard: React.FC<SourceCardProps> = ({
         >
           {source.metadata?.type}
         </span>
+        {flagged && (
+          <span
+            className="flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800"
+            title={`This source contains text that looks like instructions to the AI. The AI is told not to follow it.\n\n${flagged.findings
+              .map((finding) => `"${finding.excerpt}"`)
+              .join("\n")}`}
+          >
+            <AlertTriangleIcon size={12} />
+            Possible prompt injection
+          </span>
+        )}
       </div>
 
       {isLoading ? (
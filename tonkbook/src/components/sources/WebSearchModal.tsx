@@ -1,6 +1,7 @@
 import React, { useState } from "react";
 import { SearchIcon, ExternalLinkIcon, CheckIcon } from "lucide-react";
 import { Source } from "../../types/source";
+import { workerFetch } from "../../services/workerClient";
 
 interface SearchResult {
   title: string;
@@ -150,7 +151,7 @@ const WebSearchModal: React.FC<WebSearchModalProps> = ({
           const customPath = `tonkbook/data/web-${domain}-${timestamp}`;
 
           // Call the web scraper worker with custom output path
-          const response = await fetch("http://localhost:5555/tonk", {
+          const response = await workerFetch("http://localhost:5555/tonk", {
             method: "POST",
             headers: {
               "Content-Type": "application/json",
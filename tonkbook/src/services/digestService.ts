@@ -4,7 +4,9 @@ import {
   DigestItem,
   DailyDigest,
 } from "../types/digest";
+import { ModelSettings } from "../types/model";
 import { ragService } from "./ragService";
+import { workerFetch } from "./workerClient";
 import { v4 as uuidv4 } from "uuid";
 
 export class DigestService {
@@ -15,6 +17,7 @@ export class DigestService {
     queries: DigestQuery[],
     maxTotalItems: number = 25,
     enableAISummary: boolean = true,
+    modelSettings: ModelSettings = {},
   ): Promise<DailyDigest> {
     const enabledQueries = queries.filter((q) => q.enabled);
     const today = new Date().toISOString().split("T")[0];
@@ -60,7 +63,11 @@ export class DigestService {
       // Generate AI summary if enabled
       if (enableAISummary && digest.results.length > 0) {
         try {
-          digest.summary = await this.generateAISummary(digest.results);
+          digest.summary = await this.generateAISummary(
+            digest.results,
+            digest.id,
+            modelSettings,
+          );
         } catch (error) {
           console.error("Failed to generate AI summary:", error);
         }
@@ -236,9 +243,14 @@ export class DigestService {
   }
 
   /**
-   * Generate an AI summary of the digest results
+   * Generate an AI summary of the digest results with the digest's model
+   * settings. Token usage is recorded against the digest run.
    */
-  private async generateAISummary(results: DigestResult[]): Promise<string> {
+  private async generateAISummary(
+    results: DigestResult[],
+    digestId: string,
+    modelSettings: ModelSettings,
+  ): Promise<string> {
     const totalItems = results.reduce((sum, r) => sum + r.items.length, 0);
 
     // Build context from all results
@@ -265,16 +277,20 @@ export class DigestService {
     ];
 
     try {
-      const response = await fetch("http://localhost:5556/api/chat", {
+      const response = await workerFetch("http://localhost:5556/api/chat", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
           messages,
-          model: "gpt-4o",
-          temperature: 0.7,
+          provider: modelSettings.provider,
+          model: modelSettings.model,
+          temperature: modelSettings.temperature,
           max_tokens: 500,
+          digestId,
+          // Let open chats go first
+          priority: "background",
         }),
       });
 
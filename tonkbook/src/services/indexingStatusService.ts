@@ -1,8 +1,21 @@
+import { workerFetch } from "./workerClient";
+
 // const AI_WORKER_URL = import.meta.env.VITE_AI_WORKER_URL || 'http://localhost:5556';
 
+/**
+ * A source with text that looks like instructions aimed at the AI
+ */
+export interface FlaggedSource {
+  sourceId: string;
+  title: string;
+  path: string;
+  findings: { pattern: string; excerpt: string }[];
+}
+
 export interface IndexingStats {
   vectorSources: { count: number };
   csvSources: { count: number; sources: string[] };
+  flaggedSources?: FlaggedSource[];
   progress: {
     pendingCount: number;
     indexedCount: number;
@@ -39,7 +52,7 @@ export interface IndexingStatusError {
 export class IndexingStatusService {
   async getStatus(): Promise<IndexingStatus | IndexingStatusError> {
     try {
-      const response = await fetch(`http://localhost:5556/api/indexing/status`);
+      const response = await workerFetch(`http://localhost:5556/api/indexing/status`);
 
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
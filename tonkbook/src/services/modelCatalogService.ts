@@ -0,0 +1,20 @@
+import { workerFetch } from "./workerClient";
+import { ProviderInfo } from "../types/model";
+
+export class ModelCatalogService {
+  /**
+   * Providers configured in the AI worker and the models they offer
+   */
+  async getProviders(): Promise<ProviderInfo[]> {
+    const response = await workerFetch("http://localhost:5556/api/providers");
+
+    if (!response.ok) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const result = await response.json();
+    return result.providers || [];
+  }
+}
+
+export const modelCatalogService = new ModelCatalogService();
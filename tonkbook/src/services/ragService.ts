@@ -1,9 +1,11 @@
 import { vectorService } from "./vectorService";
 import { csvQueryService } from "./csvQueryService";
 import { systemPromptService } from "./systemPromptService";
+import { workerFetch, newRequestId, REQUEST_ID_HEADER } from "./workerClient";
 import { Source } from "../types/source";
+import { ModelSettings } from "../types/model";
 
-interface RAGResult {
+export interface RAGResult {
   textSources: {
     content: string;
     metadata: {
@@ -11,8 +13,18 @@ interface RAGResult {
       sourceType: Source["metadata"]["type"];
       chunkIndex: number;
       title: string;
+      page?: number;
+      headingPath?: string;
+      lastChunkIndex?: number; // Set when the worker merged neighbouring chunks
+      lastPage?: number;
     };
     score: number;
+    scores?: {
+      vector?: number;
+      keyword?: number;
+      retrieval?: number; // Before reranking
+      rerank?: number;
+    };
   }[];
   csvSources: {
     sourceId: string;
@@ -21,6 +33,20 @@ interface RAGResult {
     matchCount: number;
   }[];
   combinedContext: string;
+  queryPlan?: {
+    query: string; // The question, rewritten to stand alone if it was a follow-up
+    subQueries: string[];
+    hypotheticalAnswer?: string;
+  };
+}
+
+/**
+ * An earlier turn of the chat, sent so the AI worker can make sense of
+ * follow-up questions
+ */
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
 }
 
 interface QueryOptions {
@@ -29,6 +55,73 @@ interface QueryOptions {
   includeText?: boolean;
   includeCsv?: boolean;
   csvQuery?: string; // Override CSV query if different from main query
+  enableTools?: boolean; // Let the model search sources or fetch pages itself
+  signal?: AbortSignal; // Aborts the request to the AI worker
+  requestId?: string; // Correlation ID sent to the AI worker; generated per turn if not set
+  modelSettings?: ModelSettings; // The note's saved model; the worker's default if not set
+  noteId?: string; // Limit vector search to this note's sources; every note's if not set
+  allNotebooks?: boolean; // Let a question about a note use every note's sources
+  searchMode?: "vector" | "keyword" | "hybrid"; // The AI worker's SEARCH_MODE if not set
+  rerank?: boolean | "cross-encoder" | "llm"; // The AI worker's RERANKER if not set
+  history?: ChatTurn[]; // Earlier turns, oldest first
+  subQueries?: number; // Extra queries the AI worker generates and searches
+  hyde?: boolean; // Also search with a hypothetical answer
+  diversity?: number; // 0 to 1, how much to favour varied passages; the AI worker's SEARCH_DIVERSITY if not set
+}
+
+/**
+ * Events produced while streaming a chat response. `sources` is sent once
+ * with the retrieved context, and again whenever the worker runs tools.
+ * `queued` reports the position while the worker is busy with other
+ * requests. The stream ends with a single `done` or `error` event.
+ */
+export type ChatStreamEvent =
+  | { type: "queued"; position: number }
+  | { type: "token"; text: string }
+  | {
+      type: "sources";
+      ragResult?: RAGResult;
+      context_budget?: ContextBudgetReport;
+      tool_invocations?: {
+        id: string;
+        name: string;
+        arguments: Record<string, any>;
+        result?: string;
+        error?: string;
+      }[];
+    }
+  | {
+      type: "usage";
+      usage: {
+        prompt_tokens: number;
+        completion_tokens: number;
+        total_tokens: number;
+      };
+      model: string;
+      provider: string;
+      cost_usd?: number;
+    }
+  | { type: "error"; error: string }
+  | { type: "done"; cached?: boolean };
+
+/**
+ * What the AI worker kept and dropped to fit the model's context window
+ */
+export interface ContextBudgetReport {
+  model: string;
+  contextLimit: number;
+  maxTokens: number;
+  promptTokens: number;
+  includedChunks: number;
+  trimmedChunks: {
+    id?: string;
+    title?: string;
+    originalTokens: number;
+    keptTokens: number;
+  }[];
+  droppedChunks: { id?: string; title?: string; score?: number; tokens: number }[];
+  droppedMessages: number;
+  flaggedChunks: { id?: string; title?: string; patterns: string[] }[];
 }
 
 export class RAGService {
@@ -45,12 +138,23 @@ export class RAGService {
       includeText = true,
       includeCsv = true,
       csvQuery = query,
+      requestId,
+      noteId,
+      searchMode,
+      rerank,
+      diversity,
     } = options;
 
     // For now, we'll query the AI worker's vector service via API
     // This will be expanded to include CSV queries as well
     const textResults = includeText
-      ? await this.queryAIWorkerVectorSearch(query, maxTextResults)
+      ? await this.queryAIWorkerVectorSearch(query, maxTextResults, {
+          requestId,
+          noteId,
+          searchMode,
+          rerank,
+          diversity,
+        })
       : [];
 
     const csvResults = includeCsv
@@ -79,21 +183,29 @@ export class RAGService {
   private async queryAIWorkerVectorSearch(
     query: string,
     maxResults: number,
+    { requestId, noteId, searchMode, rerank, diversity }: QueryOptions,
   ): Promise<any[]> {
     try {
-      const response = await fetch("http://localhost:5556/api/search", {
+      const response = await workerFetch("http://localhost:5556/api/search", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(requestId ? { [REQUEST_ID_HEADER]: requestId } : {}),
         },
         body: JSON.stringify({
           query,
           maxResults,
+          noteId,
+          mode: searchMode,
+          rerank,
+          diversity,
         }),
       });
 
       if (!response.ok) {
-        console.warn("Vector search via AI worker failed, using empty results");
+        console.warn(
+          `Vector search via AI worker failed (request ${response.headers.get(REQUEST_ID_HEADER)}), using empty results`,
+        );
         return [];
       }
 
@@ -116,9 +228,8 @@ export class RAGService {
       case "text":
       case "pdf":
       case "web":
-        console.log(`RAG Service: Adding to vector service`);
-        await vectorService.addDocument(source, content);
-        console.log(`RAG Service: Successfully added to vector service`);
+        // The AI worker chunks and indexes these as they're written
+        console.log(`RAG Service: Leaving vector indexing to the AI worker`);
         break;
       case "csv":
         console.log(`RAG Service: Adding to CSV service`);
@@ -148,177 +259,172 @@ export class RAGService {
    * Update a source in storage
    */
   async updateSource(source: Source, content: string): Promise<void> {
+    // The AI worker re-indexes text, PDF and web sources when they change
+    if (source.metadata.type !== "csv") return;
     await this.removeSource(source);
     await this.addSource(source, content);
   }
 
   /**
-   * Generate an AI response using RAG context with streaming
+   * Ask the AI worker a question about a note, streaming the answer. The
+   * worker reads the note and its sources, retrieves the context and builds
+   * the prompt; its first `sources` event carries what it retrieved.
    */
   async *generateStreamingResponse(
     query: string,
-    noteContext?: string,
-    options?: QueryOptions,
-  ): AsyncGenerator<string, RAGResult, unknown> {
-    const ragResult = await this.queryRelevantSources(query, options);
+    noteId: string,
+    options: QueryOptions = {},
+  ): AsyncGenerator<ChatStreamEvent, RAGResult | undefined, unknown> {
+    const response = await this.askAIWorker(query, noteId, true, options);
 
-    const systemPrompt = this.buildSystemPrompt(ragResult, noteContext);
-    const messages = this.buildChatMessages(query, ragResult, systemPrompt);
+    if (!response.body) {
+      throw new Error("No response body received");
+    }
 
-    try {
-      for await (const chunk of this.streamAIWorkerChat(messages)) {
-        yield chunk;
+    let ragResult: RAGResult | undefined;
+    for await (const event of this.readEventStream(response.body)) {
+      if (event.type === "sources" && event.ragResult) {
+        ragResult = event.ragResult;
       }
-    } catch (error) {
-      console.error("Failed to stream AI response:", error);
-      yield "Sorry, I encountered an error while generating the response.";
+      yield event;
     }
 
     return ragResult;
   }
 
   /**
-   * Generate an AI response using RAG context (non-streaming fallback)
+   * Ask the AI worker a question about a note (non-streaming fallback)
    */
   async generateResponse(
     query: string,
-    noteContext?: string,
-    options?: QueryOptions,
-  ): Promise<{ response: string; sources: RAGResult }> {
-    const ragResult = await this.queryRelevantSources(query, options);
-
-    const systemPrompt = this.buildSystemPrompt(ragResult, noteContext);
-    const messages = this.buildChatMessages(query, ragResult, systemPrompt);
-
-    const aiResponse = await this.callAIWorkerChat(messages);
-
-    return {
-      response: aiResponse,
-      sources: ragResult,
-    };
-  }
-
-  /**
-   * Build system prompt with RAG context
-   */
-  private buildSystemPrompt(
-    ragResult: RAGResult,
-    noteContext?: string,
-  ): string {
-    // Get the base system prompt (custom or default)
-    let prompt = systemPromptService.getSystemPrompt();
-
-    // Add available context
-    prompt += `\n\nAVAILABLE CONTEXT:
-${ragResult.combinedContext}`;
-
-    // Add note context if provided
-    if (noteContext) {
-      prompt += `\n\nCURRENT NOTE CONTEXT:
-${noteContext}`;
+    noteId: string,
+    options: QueryOptions = {},
+  ): Promise<{ response: string; sources?: RAGResult }> {
+    try {
+      const response = await this.askAIWorker(query, noteId, false, options);
+      const result = await response.json();
+      return {
+        response: result.content || "Sorry, I could not generate a response.",
+        sources: result.sources,
+      };
+    } catch (error) {
+      console.error("Failed to call AI worker:", error);
+      return {
+        response:
+          "Sorry, I encountered an error while generating the response.",
+      };
     }
-
-    return prompt;
-  }
-
-  /**
-   * Build chat messages for the conversation
-   */
-  private buildChatMessages(query: string, ragResult: RAGResult, systemPrompt: string) {
-    const sourceCount =
-      ragResult.textSources.length + ragResult.csvSources.length;
-    
-    return [
-      { role: "system" as const, content: systemPrompt },
-      { 
-        role: "user" as const, 
-        content: `${query}
-
-(I have ${sourceCount} relevant sources available to help answer this question. Please provide a comprehensive, analytical response that synthesizes the available information.)` 
-      }
-    ];
   }
 
   /**
-   * Stream AI worker chat response
+   * POST a question to the AI worker's ask endpoint for the note. A custom
+   * system prompt is sent along; otherwise the worker uses its default.
    */
-  private async *streamAIWorkerChat(
-    messages: Array<{role: string, content: string}>
-  ): AsyncGenerator<string, void, unknown> {
-    try {
-      const response = await fetch("http://localhost:5556/api/chat", {
+  private async askAIWorker(
+    query: string,
+    noteId: string,
+    stream: boolean,
+    options: QueryOptions,
+  ): Promise<Response> {
+    const requestId = options.requestId || newRequestId();
+    const response = await workerFetch(
+      `http://localhost:5556/api/notes/${encodeURIComponent(noteId)}/ask`,
+      {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          [REQUEST_ID_HEADER]: requestId,
         },
         body: JSON.stringify({
-          messages,
-          model: "gpt-4o",
-          temperature: 0.7,
-          max_tokens: 1500,
-          stream: true,
+          question: query,
+          systemPrompt: systemPromptService.isUsingCustomPrompt()
+            ? systemPromptService.getSystemPrompt()
+            : undefined,
+          maxTextResults: options.maxTextResults,
+          maxCsvResults: options.maxCsvResults,
+          includeText: options.includeText,
+          includeCsv: options.includeCsv,
+          allNotebooks: options.allNotebooks,
+          searchMode: options.searchMode,
+          rerank: options.rerank,
+          history: options.history,
+          subQueries: options.subQueries,
+          hyde: options.hyde,
+          diversity: options.diversity,
+          tools: options.enableTools ?? true,
+          provider: options.modelSettings?.provider,
+          model: options.modelSettings?.model,
+          temperature: options.modelSettings?.temperature,
+          stream,
         }),
-      });
+        signal: options.signal,
+      },
+    );
 
-      if (!response.ok) {
-        throw new Error(`AI worker request failed: ${response.statusText}`);
-      }
+    if (!response.ok) {
+      throw new Error(
+        `AI worker request failed: ${response.statusText} (request ${requestId})`,
+      );
+    }
 
-      if (!response.body) {
-        throw new Error("No response body received");
-      }
+    return response;
+  }
+
+  /**
+   * Parse the server-sent events of a streamed response
+   */
+  private async *readEventStream(
+    body: ReadableStream<Uint8Array>,
+  ): AsyncGenerator<ChatStreamEvent, void, unknown> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
+        buffer += decoder.decode(value, { stream: true });
 
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
+        // Events are separated by a blank line
+        let boundary: number;
+        while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+          const event = this.parseStreamEvent(buffer.slice(0, boundary));
+          buffer = buffer.slice(boundary + 2);
+          if (!event) continue;
 
-          const chunk = decoder.decode(value, { stream: true });
-          if (chunk.trim()) {
-            yield chunk;
-          }
+          yield event;
+          if (event.type === "done" || event.type === "error") return;
         }
-      } finally {
-        reader.releaseLock();
       }
-    } catch (error) {
-      console.error("Failed to stream AI worker chat:", error);
-      throw error;
+    } finally {
+      reader.releaseLock();
     }
+
+    yield { type: "error", error: "AI worker closed the stream unexpectedly" };
   }
 
   /**
-   * Call AI worker chat (non-streaming)
+   * Parse one server-sent event of the form `event: <type>\ndata: <json>`
    */
-  private async callAIWorkerChat(
-    messages: Array<{role: string, content: string}>
-  ): Promise<string> {
-    try {
-      const response = await fetch("http://localhost:5556/api/chat", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          messages,
-          model: "gpt-4o",
-          temperature: 0.7,
-          max_tokens: 1500,
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error(`AI worker request failed: ${response.statusText}`);
+  private parseStreamEvent(raw: string): ChatStreamEvent | null {
+    let type = "";
+    let data = "";
+    for (const line of raw.split("\n")) {
+      if (line.startsWith("event:")) {
+        type = line.slice(6).trim();
+      } else if (line.startsWith("data:")) {
+        data += line.slice(5).trim();
       }
+    }
+    if (!type) return null;
 
-      const result = await response.json();
-      return result.content || "Sorry, I could not generate a response.";
-    } catch (error) {
-      console.error("Failed to call AI worker:", error);
-      return "Sorry, I encountered an error while generating the response.";
+    try {
+      return { type, ...(data ? JSON.parse(data) : {}) } as ChatStreamEvent;
+    } catch {
+      console.warn(`Ignoring malformed ${type} event from AI worker`);
+      return null;
     }
   }
 
@@ -353,7 +459,13 @@ ${noteContext}`;
     if (textResults.length > 0) {
       context += "RELEVANT TEXT SOURCES:\n\n";
       textResults.forEach((result, index) => {
-        context += `Source ${index + 1} - ${result.metadata.title} (${result.metadata.sourceType}):\n`;
+        const { page, lastPage, headingPath } = result.metadata;
+        const location = page
+          ? lastPage
+            ? `pages ${page}-${lastPage}`
+            : `page ${page}`
+          : headingPath;
+        context += `Source ${index + 1} - ${result.metadata.title} (${result.metadata.sourceType}${location ? `, ${location}` : ""}):\n`;
         context += `${result.content}\n\n`;
       });
     }
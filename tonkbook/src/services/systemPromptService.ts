@@ -1,5 +1,7 @@
 const SYSTEM_PROMPT_KEY = 'tonkbook_system_prompt';
 
+// Shown in the editor; the AI worker has the same default and uses it when
+// no custom prompt is sent
 const DEFAULT_SYSTEM_PROMPT = `You are a knowledgeable research assistant with access to relevant information from various sources. Your role is to provide thoughtful, analytical, and comprehensive responses that synthesize information across sources.
 
 Response Guidelines:
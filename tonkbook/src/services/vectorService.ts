@@ -1,6 +1,10 @@
 import { ChromaClient } from "chromadb";
 import { Source } from "../types/source";
 
+/**
+ * A chunk as indexed by the AI worker, which splits sources with a chunking
+ * strategy chosen for their type
+ */
 interface DocumentChunk {
   id: string;
   content: string;
@@ -9,6 +13,10 @@ interface DocumentChunk {
     sourceType: Source["metadata"]["type"];
     chunkIndex: number;
     title: string;
+    startOffset?: number; // Where the chunk is in the source's content
+    endOffset?: number;
+    page?: number; // From 1, for PDFs
+    headingPath?: string; // Markdown headings, joined with " > "
   };
 }
 
@@ -48,68 +56,6 @@ export class VectorService {
     }
   }
 
-  /**
-   * Add a source document to the vector database
-   */
-  async addDocument(source: Source, content: string): Promise<void> {
-    console.log(`Vector Service: Adding document for source ${source.id}`);
-    await this.initialize();
-
-    const chunks = this.chunkDocument(content, source);
-    console.log(
-      `Vector Service: Created ${chunks.length} chunks for source ${source.id}`,
-    );
-
-    if (chunks.length === 0) return;
-
-    const ids = chunks.map((chunk) => chunk.id);
-    const documents = chunks.map((chunk) => chunk.content);
-    const metadatas = chunks.map((chunk) => chunk.metadata);
-
-    console.log(
-      `Vector Service: Adding ${chunks.length} chunks to Chroma collection`,
-    );
-
-    // Add chunks in batches to avoid overwhelming Chroma
-    const batchSize = 10; // Reduced from 50 to avoid memory issues
-    for (let i = 0; i < chunks.length; i += batchSize) {
-      const batchEnd = Math.min(i + batchSize, chunks.length);
-      const batchIds = ids.slice(i, batchEnd);
-      const batchDocuments = documents.slice(i, batchEnd);
-      const batchMetadatas = metadatas.slice(i, batchEnd);
-
-      console.log(
-        `Vector Service: Adding batch ${Math.floor(i / batchSize) + 1}/${Math.ceil(chunks.length / batchSize)} (${batchIds.length} chunks)`,
-      );
-
-      try {
-        await this.collection.add({
-          ids: batchIds,
-          documents: batchDocuments,
-          metadatas: batchMetadatas,
-        });
-        console.log(
-          `Vector Service: Successfully added batch ${Math.floor(i / batchSize) + 1}`,
-        );
-
-        // Small delay between batches to give Chroma time to process
-        if (i + batchSize < chunks.length) {
-          await new Promise((resolve) => setTimeout(resolve, 100));
-        }
-      } catch (error) {
-        console.error(
-          `Vector Service: Failed to add batch ${Math.floor(i / batchSize) + 1}:`,
-          error,
-        );
-        throw error;
-      }
-    }
-
-    console.log(
-      `Vector Service: Successfully added all ${chunks.length} chunks for source ${source.id}`,
-    );
-  }
-
   /**
    * Remove a source document from the vector database
    */
@@ -148,63 +94,6 @@ export class VectorService {
     }));
   }
 
-  /**
-   * Split document content into manageable chunks
-   */
-  private chunkDocument(content: string, source: Source): DocumentChunk[] {
-    const maxChunkSize = 500; // characters (reduced from 1000)
-    const overlap = 100; // character overlap between chunks (reduced from 200)
-
-    const chunks: DocumentChunk[] = [];
-    let startIndex = 0;
-    let chunkIndex = 0;
-
-    while (startIndex < content.length) {
-      const endIndex = Math.min(startIndex + maxChunkSize, content.length);
-      const chunkContent = content.slice(startIndex, endIndex);
-
-      // Try to break at sentence boundaries
-      let actualEndIndex = endIndex;
-      if (endIndex < content.length) {
-        const lastSentenceEnd = chunkContent.lastIndexOf(". ");
-        if (lastSentenceEnd > maxChunkSize * 0.7) {
-          // Only if we don't lose too much content
-          actualEndIndex = startIndex + lastSentenceEnd + 1;
-        }
-      }
-
-      const finalContent = content.slice(startIndex, actualEndIndex).trim();
-
-      if (finalContent.length > 0) {
-        chunks.push({
-          id: `${source.id}_chunk_${chunkIndex}`,
-          content: finalContent,
-          metadata: {
-            sourceId: source.id,
-            sourceType: source.metadata.type,
-            chunkIndex,
-            title: source.title,
-          },
-        });
-        chunkIndex++;
-      }
-
-      startIndex = Math.max(actualEndIndex - overlap, startIndex + 1);
-
-      if (startIndex >= actualEndIndex) break;
-    }
-
-    return chunks;
-  }
-
-  /**
-   * Update a document in the vector database
-   */
-  async updateDocument(source: Source, content: string): Promise<void> {
-    await this.removeDocument(source.id);
-    await this.addDocument(source, content);
-  }
-
   /**
    * Get collection statistics
    */
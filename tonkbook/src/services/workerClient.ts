@@ -0,0 +1,31 @@
+/**
+ * API token for the AI and web-scraper workers. Both workers must accept it;
+ * see their creds/worker_api_tokens.txt.
+ */
+const WORKER_API_TOKEN = import.meta.env.VITE_WORKER_API_TOKEN;
+
+/**
+ * Header that carries the correlation ID the workers tag their logs with
+ */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+/**
+ * New correlation ID, for tracing one user action across the workers
+ */
+export function newRequestId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * fetch() for the workers' APIs that sends the API token
+ */
+export function workerFetch(
+  input: string,
+  init: RequestInit = {},
+): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (WORKER_API_TOKEN) {
+    headers.set("Authorization", `Bearer ${WORKER_API_TOKEN}`);
+  }
+  return fetch(input, { ...init, headers });
+}
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { sync, DocumentId } from '@tonk/keepsync';
 import { v4 as uuidv4 } from 'uuid';
+import { ModelSettings } from '../types/model';
 
 export interface Note {
   id: string;
@@ -8,6 +9,8 @@ export interface Note {
   subheading: string;
   createdAt: string;
   updatedAt: string;
+  /** Model and temperature used to answer questions in this note */
+  modelSettings?: ModelSettings;
 }
 
 /**
@@ -28,8 +31,8 @@ interface NotesActions {
   addNote: (title: string, subheading: string) => string | null;
   /** Remove a note by ID, returns success status */
   deleteNote: (id: string) => boolean;
-  /** Update an existing note's title or subheading, returns success status */
-  updateNote: (id: string, updates: Partial<Pick<Note, 'title' | 'subheading'>>) => boolean;
+  /** Update an existing note's title, subheading or model settings, returns success status */
+  updateNote: (id: string, updates: Partial<Pick<Note, 'title' | 'subheading' | 'modelSettings'>>) => boolean;
 }
 
 type NotesStore = NotesState & NotesActions;
@@ -83,7 +86,7 @@ export const useNotesStore = create<NotesStore>(
         return true;
       },
 
-      updateNote: (id: string, updates: Partial<Pick<Note, 'title' | 'subheading'>>) => {
+      updateNote: (id: string, updates: Partial<Pick<Note, 'title' | 'subheading' | 'modelSettings'>>) => {
         // Simple validation
         if (!id || !updates || Object.keys(updates).length === 0) {
           return false;
@@ -95,13 +98,16 @@ export const useNotesStore = create<NotesStore>(
         }
 
         // Clean up updates
-        const cleanUpdates: Partial<Pick<Note, 'title' | 'subheading'>> = {};
+        const cleanUpdates: Partial<Pick<Note, 'title' | 'subheading' | 'modelSettings'>> = {};
         if (updates.title !== undefined) {
           cleanUpdates.title = updates.title.trim();
         }
         if (updates.subheading !== undefined) {
           cleanUpdates.subheading = updates.subheading.trim();
         }
+        if (updates.modelSettings !== undefined) {
+          cleanUpdates.modelSettings = updates.modelSettings;
+        }
 
         set((state) => ({
           notes: state.notes.map(note => 
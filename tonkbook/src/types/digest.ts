@@ -1,3 +1,5 @@
+import { ModelSettings } from "./model";
+
 export interface DigestQuery {
   id: string;
   title: string;
@@ -48,4 +50,5 @@ export interface DigestConfig {
   maxTotalItems: number;
   enableAISummary: boolean;
   retentionDays: number; // How many days to keep old digests
+  modelSettings?: ModelSettings; // Model and temperature for the AI summary
 }
\ No newline at end of file
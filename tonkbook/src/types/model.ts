@@ -0,0 +1,28 @@
+/**
+ * Model and temperature saved with a note or digest. Anything left unset
+ * falls back to the AI worker's defaults.
+ */
+export interface ModelSettings {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+}
+
+/**
+ * A model offered by the AI worker, with what it supports and costs
+ */
+export interface ModelInfo {
+  id: string;
+  contextWindow: number;
+  streaming: boolean;
+  tools: boolean;
+  pricing: { input: number; output: number } | null; // USD per million tokens
+}
+
+export interface ProviderInfo {
+  name: string;
+  models: ModelInfo[];
+  defaultModel: string;
+  configured: boolean;
+  isDefault: boolean;
+}
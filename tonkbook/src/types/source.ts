@@ -14,4 +14,6 @@ export interface ChatMessage {
   type: "user" | "assistant";
   content: string;
   timestamp: Date;
+  // Set when the answer failed or was stopped before it finished
+  status?: "failed" | "stopped";
 }
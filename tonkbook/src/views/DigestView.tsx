@@ -5,6 +5,7 @@ import { digestService } from '../services/digestService';
 import DigestQueryCard from '../components/digest/DigestQueryCard';
 import AddDigestQueryModal from '../components/digest/AddDigestQueryModal';
 import DigestCard from '../components/digest/DigestCard';
+import ModelSettingsModal from '../components/ModelSettingsModal';
 import { DailyDigest } from '../types/digest';
 
 const DigestView: React.FC = () => {
@@ -22,6 +23,7 @@ const DigestView: React.FC = () => {
   } = useDigestStore();
 
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isModelModalOpen, setIsModelModalOpen] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationStatus, setGenerationStatus] = useState<string | null>(null);
   const [serviceStatus, setServiceStatus] = useState<{
@@ -68,7 +70,8 @@ const DigestView: React.FC = () => {
       const newDigest = await digestService.generateDailyDigest(
         queries,
         config.maxTotalItems,
-        config.enableAISummary
+        config.enableAISummary,
+        config.modelSettings
       );
 
       addDigest(newDigest);
@@ -177,11 +180,14 @@ const DigestView: React.FC = () => {
             {isGenerating ? 'Generating...' : 'Generate Digest'}
           </button>
 
-          {/* TODO: Add settings modal */}
-          {/* <button className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors">
+          <button
+            onClick={() => setIsModelModalOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+            title="Model used for the AI summary"
+          >
             <Settings className="w-4 h-4" />
-            Settings
-          </button> */}
+            {config.modelSettings?.model || 'Default model'}
+          </button>
         </div>
 
         {/* Generation Status */}
@@ -292,6 +298,18 @@ const DigestView: React.FC = () => {
         onClose={() => setIsAddModalOpen(false)}
         onAdd={handleAddQuery}
       />
+
+      {/* Summary Model Modal */}
+      <ModelSettingsModal
+        isOpen={isModelModalOpen}
+        onClose={() => setIsModelModalOpen(false)}
+        title="Digest Summary Model"
+        settings={config.modelSettings || {}}
+        onSave={(modelSettings) => {
+          updateConfig({ modelSettings });
+          setIsModelModalOpen(false);
+        }}
+      />
     </div>
   );
 };
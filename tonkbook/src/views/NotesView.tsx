@@ -2,12 +2,13 @@ import React, { useState, useRef, useEffect } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import { useNotesStore } from "../stores/notesStore";
 import { useSourcesStore } from "../stores/sourcesStore";
-import { ragService } from "../services/ragService";
+import { ragService, ChatTurn } from "../services/ragService";
 import ReactMarkdown from "react-markdown";
 import { writeDoc } from "@tonk/keepsync";
 import {
   ArrowLeftIcon,
   SendIcon,
+  SquareIcon,
   ChevronRightIcon,
   EditIcon,
   CheckIcon,
@@ -18,9 +19,11 @@ import {
   AlertCircleIcon,
   CheckCircleIcon,
   SettingsIcon,
+  CpuIcon,
 } from "lucide-react";
 import { useIndexingStatus } from "../hooks/useIndexingStatus";
 import { Source, ChatMessage } from "../types/source";
+import { ModelSettings } from "../types/model";
 import TextSourceModal from "../components/sources/TextSourceModal";
 import PDFSourceModal from "../components/sources/PDFSourceModal";
 import CSVSourceModal from "../components/sources/CSVSourceModal";
@@ -29,8 +32,14 @@ import SourceCard from "../components/sources/SourceCard";
 import AddSourceButtons from "../components/sources/AddSourceButtons";
 import ViewSourceModal from "../components/sources/ViewSourceModal";
 import SystemPromptModal from "../components/SystemPromptModal";
+import ModelSettingsModal from "../components/ModelSettingsModal";
 import { systemPromptService } from "../services/systemPromptService";
 
+/**
+ * Earlier chat messages sent with a question
+ */
+const CHAT_HISTORY_TURNS = 10;
+
 const NotesView = () => {
   const { noteId } = useParams<{ noteId: string }>();
   const navigate = useNavigate();
@@ -39,6 +48,7 @@ const NotesView = () => {
     useSourcesStore();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Find the current note
   const currentNote = notes.find((note) => note.id === noteId);
@@ -62,6 +72,7 @@ const NotesView = () => {
   const [showViewSourceModal, setShowViewSourceModal] = useState(false);
   const [selectedSource, setSelectedSource] = useState<Source | null>(null);
   const [showSystemPromptModal, setShowSystemPromptModal] = useState(false);
+  const [showModelSettingsModal, setShowModelSettingsModal] = useState(false);
   const [currentSystemPrompt, setCurrentSystemPrompt] = useState(() => 
     systemPromptService.getSystemPrompt()
   );
@@ -79,6 +90,7 @@ const NotesView = () => {
   const [inputMessage, setInputMessage] = useState("");
   const [showJumpToBottom, setShowJumpToBottom] = useState(false);
   const [isAIResponding, setIsAIResponding] = useState(false);
+  const [searchAllNotebooks, setSearchAllNotebooks] = useState(false);
 
   // Indexing status
   const {
@@ -87,6 +99,14 @@ const NotesView = () => {
     isLoading: indexingLoading,
   } = useIndexingStatus();
 
+  // Sources the AI worker flagged for possible prompt injection, by path
+  const flaggedSources = new Map(
+    (indexingStatus?.stats.flaggedSources || []).map((flagged) => [
+      flagged.path,
+      flagged,
+    ]),
+  );
+
   // Update edited values when currentNote changes
   useEffect(() => {
     if (currentNote) {
@@ -136,6 +156,11 @@ const NotesView = () => {
     scrollToBottom(false);
   }, [messages]);
 
+  // Stop any in-flight response when leaving the note
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
   // Save title and subheading changes
   const handleSaveTitleChanges = () => {
     if (currentNote && updateNote) {
@@ -158,25 +183,49 @@ const NotesView = () => {
   const generateRAGResponse = async (
     userMessage: string,
     messageId: string,
+    history: ChatTurn[],
   ): Promise<void> => {
     setIsAIResponding(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let accumulatedResponse = "";
     try {
-      // Get note content as context (title + subheading)
-      const noteContext = currentNote
-        ? `Note: ${currentNote.title}${currentNote.subheading ? `\nFocus: ${currentNote.subheading}` : ""}`
-        : undefined;
+      if (!currentNote) throw new Error("Note not found");
 
-      // Use RAG service to generate streaming response with source context
+      // The AI worker retrieves the note's context and streams the answer
       const responseGenerator = ragService.generateStreamingResponse(
         userMessage,
-        noteContext,
+        currentNote.id,
+        {
+          signal: abortController.signal,
+          modelSettings: currentNote.modelSettings,
+          allNotebooks: searchAllNotebooks,
+          history,
+        },
       );
 
-      let accumulatedResponse = "";
+      // Stream the response events
+      for await (const event of responseGenerator) {
+        if (event.type === "error") {
+          throw new Error(event.error);
+        }
+        if (event.type === "queued") {
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === messageId
+                ? {
+                    ...msg,
+                    content: `_Waiting for the AI worker (position ${event.position} in queue)..._`,
+                  }
+                : msg,
+            ),
+          );
+          continue;
+        }
+        // sources and usage events carry metadata, not answer text
+        if (event.type !== "token") continue;
 
-      // Stream the response chunks
-      for await (const chunk of responseGenerator) {
-        accumulatedResponse += chunk;
+        accumulatedResponse += event.text;
 
         // Update the message with accumulated content in real-time
         setMessages((prev) =>
@@ -188,6 +237,22 @@ const NotesView = () => {
         );
       }
     } catch (error) {
+      // Stopped by the user: keep whatever was generated so far
+      if (abortController.signal.aborted) {
+        setMessages((prev) =>
+          prev.map((msg) =>
+            msg.id === messageId
+              ? {
+                  ...msg,
+                  content: `${accumulatedResponse}\n\n_Generation stopped._`,
+                  status: "stopped",
+                }
+              : msg,
+          ),
+        );
+        return;
+      }
+
       console.error("RAG response error:", error);
       let errorMessage =
         "Sorry, I'm having trouble responding right now. Please try again.";
@@ -204,14 +269,22 @@ const NotesView = () => {
       // Update the message with the error
       setMessages((prev) =>
         prev.map((msg) =>
-          msg.id === messageId ? { ...msg, content: errorMessage } : msg,
+          msg.id === messageId
+            ? { ...msg, content: errorMessage, status: "failed" }
+            : msg,
         ),
       );
     } finally {
+      abortControllerRef.current = null;
       setIsAIResponding(false);
     }
   };
 
+  // Stop the response currently being generated
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Handle adding text source from modal
   const handleAddTextSource = (sourceData: Omit<Source, "id" | "noteId">) => {
     if (!currentNote) return;
@@ -259,6 +332,14 @@ const NotesView = () => {
     setShowSystemPromptModal(false);
   };
 
+  // Handle saving the note's model settings
+  const handleSaveModelSettings = (modelSettings: ModelSettings) => {
+    if (currentNote) {
+      updateNote(currentNote.id, { modelSettings });
+    }
+    setShowModelSettingsModal(false);
+  };
+
   // Handle saving chat as AI source
   const handleSaveChatAsSource = async () => {
     if (messages.length <= 1) return; // Don't save if only initial message
@@ -324,6 +405,19 @@ const NotesView = () => {
   const handleSendMessage = () => {
     if (!inputMessage.trim() || isAIResponding) return;
 
+    // Earlier turns, so follow-up questions can be rewritten to stand alone.
+    // Failed and stopped answers are left out with the question they answer.
+    const history: ChatTurn[] = messages
+      .filter(
+        (msg, index) =>
+          msg.id !== "1" &&
+          msg.content &&
+          !msg.status &&
+          !messages[index + 1]?.status,
+      )
+      .slice(-CHAT_HISTORY_TURNS)
+      .map((msg) => ({ role: msg.type, content: msg.content }));
+
     // Add user message
     const userMessage: ChatMessage = {
       id: Date.now().toString(),
@@ -353,7 +447,11 @@ const NotesView = () => {
       setMessages((prev) => [...prev, assistantMessage]);
 
       // Start the RAG response
-      await generateRAGResponse(inputMessage.trim(), assistantMessageId);
+      await generateRAGResponse(
+        inputMessage.trim(),
+        assistantMessageId,
+        history,
+      );
     }, 500);
   };
 
@@ -606,6 +704,7 @@ const NotesView = () => {
                   source={source}
                   onRemove={removeSource}
                   onView={handleViewSource}
+                  flagged={flaggedSources.get(source.path.replace(/^\/+/, ""))}
                 />
               ))}
             </div>
@@ -628,6 +727,14 @@ const NotesView = () => {
                   <SettingsIcon size={16} />
                   System Prompt
                 </button>
+                <button
+                  onClick={() => setShowModelSettingsModal(true)}
+                  className="px-3 py-1 text-sm bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors flex items-center gap-2"
+                  title="Choose the model and temperature for this note"
+                >
+                  <CpuIcon size={16} />
+                  {currentNote?.modelSettings?.model || "Default model"}
+                </button>
                 <button
                   onClick={handleSaveChatAsSource}
                   disabled={messages.length <= 1}
@@ -717,18 +824,33 @@ const NotesView = () => {
                 rows={1}
                 style={{ minHeight: "40px", maxHeight: "120px" }}
               />
-              <button
-                onClick={handleSendMessage}
-                disabled={!inputMessage.trim() || isAIResponding}
-                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center h-10"
-              >
-                {isAIResponding ? (
-                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-                ) : (
+              {isAIResponding ? (
+                <button
+                  onClick={handleStopGeneration}
+                  className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors flex items-center justify-center h-10"
+                  title="Stop generating"
+                >
+                  <SquareIcon size={16} fill="currentColor" />
+                </button>
+              ) : (
+                <button
+                  onClick={handleSendMessage}
+                  disabled={!inputMessage.trim()}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors flex items-center justify-center h-10"
+                >
                   <SendIcon size={18} />
-                )}
-              </button>
+                </button>
+              )}
             </div>
+            <label className="flex items-center gap-2 mt-2 text-xs text-gray-600 cursor-pointer select-none w-fit">
+              <input
+                type="checkbox"
+                checked={searchAllNotebooks}
+                onChange={(e) => setSearchAllNotebooks(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Search all notebooks, not just this note's sources
+            </label>
           </div>
         </div>
       </div>
@@ -770,6 +892,14 @@ const NotesView = () => {
         currentPrompt={currentSystemPrompt}
         onSave={handleSaveSystemPrompt}
       />
+
+      <ModelSettingsModal
+        isOpen={showModelSettingsModal}
+        onClose={() => setShowModelSettingsModal(false)}
+        title="Note Model Settings"
+        settings={currentNote?.modelSettings || {}}
+        onSave={handleSaveModelSettings}
+      />
     </div>
   );
 };
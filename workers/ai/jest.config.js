@@ -0,0 +1,8 @@
+/**
+ * Unit tests live next to the code they cover, as `*.test.ts`
+ */
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "node",
+  roots: ["<rootDir>/src"],
+};
@@ -6,6 +6,7 @@
 import { Command } from "commander";
 import { startWorker } from "./index";
 import { BaseCredentialsManager } from "./utils/baseCredentialsManager";
+import { credentialConfigs } from "./utils/credentialConfigs";
 
 const program = new Command();
 
@@ -24,6 +25,16 @@ program
     "Port to run Chroma server on",
     process.env.CHROMA_PORT || "8888",
   )
+  .option(
+    "--mock-llm",
+    "Serve deterministic mock completions instead of calling real LLM providers",
+    process.env.MOCK_LLM === "true",
+  )
+  .option(
+    "--mock-llm-responses <file>",
+    "JSON array of canned responses for the mock LLM (implies --mock-llm)",
+    process.env.MOCK_LLM_RESPONSES,
+  )
   .action(async (options) => {
     try {
       console.log(`Starting ai worker on port ${options.port}...`);
@@ -31,6 +42,8 @@ program
       await startWorker({
         port: parseInt(options.port, 10),
         chromaPort: parseInt(options.chromaPort, 10),
+        mockLLM: options.mockLlm || !!options.mockLlmResponses,
+        mockResponsesFile: options.mockLlmResponses,
       });
       console.log(`ai worker is running`);
     } catch (error) {
@@ -45,23 +58,7 @@ program
   .action(async () => {
     try {
       const credentialsManager = new BaseCredentialsManager(
-        [
-          {
-            name: "OpenAI API Key",
-            filename: "creds/openai_api_key.txt",
-            description: "OpenAI API key for accessing GPT models",
-            instructions:
-              "Get your API key from https://platform.openai.com/api-keys",
-            validationFn: (content) => {
-              const trimmed = content.trim();
-              return {
-                valid: trimmed.startsWith("sk-") && trimmed.length > 20,
-                message: "Must be a valid OpenAI API key starting with 'sk-'",
-              };
-            },
-            header: "Authorization",
-          },
-        ],
+        credentialConfigs,
         process.cwd(),
       );
 
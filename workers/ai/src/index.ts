@@ -2,9 +2,90 @@ import * as http from "http";
 import * as path from "path";
 import dotenv from "dotenv";
 import { BaseCredentialsManager } from "./utils/baseCredentialsManager";
-import { LLMService, OpenAIProvider } from "./services/llmProvider";
+import {
+  LLMService,
+  OpenAIProvider,
+  AnthropicProvider,
+  OpenAICompatibleProvider,
+  LLMToolDefinition,
+  LLMToolCall,
+  LLMMessage,
+  LLMRequest,
+  LLMUsage,
+  LLMResponseSchema,
+} from "./services/llmProvider";
+import { toolRegistry, ToolContext } from "./services/toolRegistry";
+import { usageLedger } from "./services/usageLedger";
+import { MODEL_PRICING, calculateCost } from "./services/pricing";
+import { LLMTarget, parseLLMTargets } from "./services/resilience";
+import { responseCache, CacheKeyInput } from "./services/responseCache";
+import { checkSchema } from "./services/structuredOutput";
+import {
+  requestScheduler,
+  parseRateLimits,
+  QueueFullError,
+  ScheduledCall,
+  ScheduleTicket,
+} from "./services/requestScheduler";
+import {
+  contextBudget,
+  BudgetedPrompt,
+  ContextBudgetReport,
+} from "./services/contextBudget";
+import { registerBuiltinTools } from "./services/builtinTools";
+import { MockProvider } from "./services/mockProvider";
+import { credentialConfigs, CREDENTIAL_NAMES } from "./utils/credentialConfigs";
 import { ChromaServerManager } from "./utils/chromaServerManager";
+import { EventStream } from "./utils/eventStream";
+import { Router, HttpError, sendError } from "./utils/router";
+import {
+  logger,
+  requestIdFor,
+  withRequestId,
+  REQUEST_ID_HEADER,
+} from "./utils/logger";
+import {
+  clientKey,
+  isAuthorized,
+  loadApiTokens,
+  parseAllowedOrigins,
+  setCorsHeaders,
+} from "./utils/auth";
+import { extractUrls } from "./utils/urlSafety";
+import {
+  CompletionOptions,
+  ChatRequestBody,
+  CompleteRequestBody,
+  AskRequestBody,
+  SearchRequestBody,
+  EmbedRequestBody,
+  CHAT_REQUEST_SCHEMA,
+  COMPLETE_REQUEST_SCHEMA,
+  ASK_REQUEST_SCHEMA,
+  SEARCH_REQUEST_SCHEMA,
+  EMBED_REQUEST_SCHEMA,
+  COMPLETION_RESPONSE_SCHEMA,
+  EVENT_STREAM_SCHEMA,
+} from "./types/api";
 import { indexingService } from "./services/indexingService";
+import {
+  ragService,
+  RAGResult,
+  RetrievalCallOptions,
+} from "./services/ragService";
+import { rerankService, LLMReranker } from "./services/rerankService";
+import { queryPlanner } from "./services/queryPlanner";
+import {
+  embeddingService,
+  createEmbeddingBackend,
+} from "./services/embeddingService";
+import {
+  metricsRegistry,
+  Gauge,
+  httpRequestsTotal,
+  httpRequestDuration,
+  llmTokensTotal,
+} from "./services/metrics";
 import { configureSyncEngine } from "@tonk/keepsync";
 import { NetworkAdapterInterface } from "@automerge/automerge-repo";
 import { BrowserWebSocketClientAdapter } from "@automerge/automerge-repo-network-websocket";
@@ -15,19 +96,18 @@ dotenv.config();
 
 // Set up global error handlers
 process.on("uncaughtException", (err) => {
-  console.error(`Uncaught exception: ${err.message}`);
-  console.error(err.stack);
+  logger.error("Uncaught exception", { error: err });
 });
 
-process.on("unhandledRejection", (reason, promise) => {
-  console.error("Unhandled Rejection at:", promise);
-  console.error("Reason:", reason);
+process.on("unhandledRejection", (reason) => {
+  logger.error("Unhandled rejection", { error: reason });
 });
 
 // Log startup information
-console.log(`Starting AI worker at ${new Date().toISOString()}`);
-console.log(`Node.js version: ${process.version}`);
-console.log(`Platform: ${process.platform}`);
+logger.info("Starting AI worker", {
+  node: process.version,
+  platform: process.platform,
+});
 
 /**
  * Configuration for the worker
@@ -35,42 +115,249 @@ console.log(`Platform: ${process.platform}`);
 interface WorkerConfig {
   port: number;
   chromaPort?: number;
+  mockLLM?: boolean; // Serve deterministic mock completions instead of real providers
+  mockResponsesFile?: string; // JSON array of canned responses for the mock provider
 }
 
 // Initialize credentials manager with absolute path
 const workerRoot = path.resolve(__dirname, "..");
 const credentialsManager = new BaseCredentialsManager(
-  [
-    {
-      name: "OpenAI API Key",
-      filename: "creds/openai_api_key.txt",
-      description: "OpenAI API key for accessing GPT models",
-      instructions:
-        "Get your API key from https://platform.openai.com/api-keys",
-      validationFn: (content) => {
-        const trimmed = content.trim();
-        return {
-          valid: trimmed.startsWith("sk-") && trimmed.length > 20,
-          message: "Must be a valid OpenAI API key starting with 'sk-'",
-        };
-      },
-      header: "Authorization",
-    },
-  ],
+  credentialConfigs,
   workerRoot,
 );
 
-// Initialize LLM service
-const llmService = new LLMService();
+// Initialize LLM service with the built-in tools it can run for the model
+registerBuiltinTools(toolRegistry, {
+  webScraperToken:
+    credentialsManager.getCredentialByName(CREDENTIAL_NAMES.webScraperToken) ||
+    undefined,
+});
+const llmService = new LLMService(toolRegistry);
 
 // Initialize Chroma server manager
 let chromaManager: ChromaServerManager;
 
+/**
+ * Register the mock provider as the only provider, so no request can reach
+ * the network
+ */
+function registerMockProvider(responsesFile?: string): void {
+  const mockProvider = responsesFile
+    ? MockProvider.fromResponsesFile(responsesFile)
+    : new MockProvider();
+  llmService.addProvider(mockProvider);
+  logger.info("Mock LLM provider configured", {
+    responsesFile: responsesFile || "echo mode",
+  });
+}
+
+/**
+ * Register an LLM provider for every credential that has been set up
+ */
+async function registerProviders(): Promise<void> {
+  const openaiKey = credentialsManager.getCredentialByName(
+    CREDENTIAL_NAMES.openai,
+  );
+  if (openaiKey) {
+    llmService.addProvider(new OpenAIProvider(openaiKey));
+    logger.info("OpenAI provider configured");
+  }
+
+  const anthropicKey = credentialsManager.getCredentialByName(
+    CREDENTIAL_NAMES.anthropic,
+  );
+  if (anthropicKey) {
+    llmService.addProvider(new AnthropicProvider(anthropicKey));
+    logger.info("Anthropic provider configured");
+  }
+
+  const localBaseUrl = credentialsManager.getCredentialByName(
+    CREDENTIAL_NAMES.localBaseUrl,
+  );
+  if (localBaseUrl) {
+    const localProvider = new OpenAICompatibleProvider(
+      localBaseUrl,
+      credentialsManager.getCredentialByName(CREDENTIAL_NAMES.localApiKey) ||
+        undefined,
+    );
+    try {
+      const models = await localProvider.loadModels();
+      logger.info("Local provider configured", {
+        baseUrl: localBaseUrl,
+        models: models.length,
+      });
+    } catch (error) {
+      logger.warn("Could not list local models", {
+        baseUrl: localBaseUrl,
+        error,
+      });
+    }
+    llmService.addProvider(localProvider);
+  }
+
+  const defaultProvider = process.env.DEFAULT_LLM_PROVIDER;
+  if (defaultProvider) {
+    try {
+      llmService.setDefaultProvider(defaultProvider);
+    } catch (error) {
+      logger.warn("DEFAULT_LLM_PROVIDER ignored", { error });
+    }
+  }
+
+  if (llmService.getAvailableProviders().length === 0) {
+    logger.warn(
+      "No LLM credentials found. Use 'npx tsx dist/cli.js setup' to configure.",
+    );
+  }
+}
+
+/**
+ * Choose the embedding backend and model from EMBEDDING_BACKEND and
+ * EMBEDDING_MODEL, keeping the default if they're invalid
+ */
+function configureEmbeddings(): void {
+  const backend = process.env.EMBEDDING_BACKEND || "transformers";
+  try {
+    embeddingService.configure(
+      createEmbeddingBackend(backend, process.env.EMBEDDING_MODEL, {
+        openaiKey:
+          credentialsManager.getCredentialByName(CREDENTIAL_NAMES.openai) ||
+          undefined,
+        localBaseUrl:
+          credentialsManager.getCredentialByName(
+            CREDENTIAL_NAMES.localBaseUrl,
+          ) || undefined,
+        localApiKey:
+          credentialsManager.getCredentialByName(
+            CREDENTIAL_NAMES.localApiKey,
+          ) || undefined,
+      }),
+    );
+  } catch (error) {
+    logger.warn("Embedding settings ignored", {
+      model: embeddingService.modelId,
+      error,
+    });
+  }
+}
+
+function numberFromEnv(name: string): number | undefined {
+  return process.env[name] ? Number(process.env[name]) : undefined;
+}
+
+/**
+ * Apply retry, circuit breaker and fallback settings from the environment
+ */
+function configureResilience(): void {
+  llmService.setRetryPolicy({
+    maxRetries: numberFromEnv("LLM_MAX_RETRIES"),
+    baseDelayMs: numberFromEnv("LLM_RETRY_BASE_DELAY_MS"),
+    maxDelayMs: numberFromEnv("LLM_RETRY_MAX_DELAY_MS"),
+  });
+  llmService.setCircuitBreakerOptions({
+    failureThreshold: numberFromEnv("LLM_CIRCUIT_FAILURE_THRESHOLD"),
+    cooldownMs: numberFromEnv("LLM_CIRCUIT_COOLDOWN_MS"),
+  });
+
+  const fallbacks = process.env.LLM_FALLBACKS;
+  if (fallbacks) {
+    try {
+      llmService.setFallbacks(parseLLMTargets(fallbacks));
+      logger.info("LLM fallback chain configured", { fallbacks });
+    } catch (error) {
+      logger.warn("LLM_FALLBACKS ignored", { error });
+    }
+  }
+}
+
+/**
+ * Apply concurrency and rate limits from the environment
+ */
+function configureScheduler(): void {
+  let rateLimits;
+  if (process.env.LLM_RATE_LIMITS) {
+    try {
+      rateLimits = parseRateLimits(process.env.LLM_RATE_LIMITS);
+      logger.info("LLM rate limits configured", {
+        rateLimits: process.env.LLM_RATE_LIMITS,
+      });
+    } catch (error) {
+      logger.warn("LLM_RATE_LIMITS ignored", { error });
+    }
+  }
+
+  requestScheduler.configure({
+    maxConcurrent: numberFromEnv("LLM_MAX_CONCURRENT"),
+    maxConcurrentPerClient: numberFromEnv("LLM_MAX_CONCURRENT_PER_CLIENT"),
+    maxQueueLength: numberFromEnv("LLM_MAX_QUEUE_LENGTH"),
+    rateLimits,
+  });
+}
+
+/**
+ * Let requests rerank with a chat model: the one named by RERANK_LLM, as
+ * "provider:model", or the default
+ */
+function configureReranking(): void {
+  const [target] = parseLLMTargets(process.env.RERANK_LLM || "");
+  rerankService.configure(new LLMReranker(llmService, target));
+}
+
+/**
+ * Plan retrieval queries with the chat model named by QUERY_PLANNER_LLM, as
+ * "provider:model", or the default
+ */
+function configureQueryPlanning(): void {
+  const [target] = parseLLMTargets(process.env.QUERY_PLANNER_LLM || "");
+  queryPlanner.configure(llmService, target);
+}
+
+/**
+ * Register gauges read from the scheduler and indexing service on each
+ * scrape
+ */
+function registerStatusMetrics(): void {
+  metricsRegistry.register(
+    new Gauge(
+      "ai_worker_queue_depth",
+      "LLM requests waiting for a slot",
+      ["priority"],
+      (gauge) => {
+        const { queued } = requestScheduler.getStats();
+        for (const [priority, count] of Object.entries(queued)) {
+          gauge.set({ priority }, count);
+        }
+      },
+    ),
+  );
+  metricsRegistry.register(
+    new Gauge(
+      "ai_worker_llm_requests_in_flight",
+      "LLM requests being served",
+      [],
+      (gauge) => gauge.set({}, requestScheduler.getStats().active),
+    ),
+  );
+  metricsRegistry.register(
+    new Gauge(
+      "ai_worker_indexing_pending_sources",
+      "Source documents waiting to be indexed",
+      [],
+      (gauge) => gauge.set({}, indexingService.getPendingCount()),
+    ),
+  );
+}
+
 /**
  * Start the worker with the given configuration
  */
 export async function startWorker(config: WorkerConfig): Promise<http.Server> {
-  const { port, chromaPort = 8888 } = config;
+  const {
+    port,
+    chromaPort = 8888,
+    mockLLM = process.env.MOCK_LLM === "true",
+    mockResponsesFile = process.env.MOCK_LLM_RESPONSES,
+  } = config;
 
   // Configure sync engine for keepsync
   const SYNC_WS_URL = process.env.SYNC_WS_URL || "ws://localhost:7777/sync";
@@ -90,362 +377,814 @@ export async function startWorker(config: WorkerConfig): Promise<http.Server> {
 
   // Start Chroma server
   try {
-    console.log("Starting Chroma vector database...");
+    logger.info("Starting Chroma vector database");
     await chromaManager.start();
-    console.log(`✅ Chroma server is running on port ${chromaPort}`);
+    logger.info("Chroma server is running", { port: chromaPort });
   } catch (error) {
-    console.warn(
-      `⚠️  Failed to start Chroma server: ${error instanceof Error ? error.message : "Unknown error"}`,
+    logger.warn(
+      "Failed to start Chroma server, vector search will not be available",
+      { error },
     );
-    console.warn("Vector search functionality will not be available");
   }
 
+  // Embeddings are needed by the index, and may use provider credentials
+  await credentialsManager.init();
+  configureEmbeddings();
+
   // Initialize indexing service
   try {
-    console.log("Initializing indexing service...");
+    logger.info("Initializing indexing service");
     await indexingService.initialize();
-    console.log("✅ Indexing service initialized");
+    logger.info("Indexing service initialized");
   } catch (error) {
-    console.warn(
-      `⚠️  Failed to initialize indexing service: ${error instanceof Error ? error.message : "Unknown error"}`,
-    );
+    logger.warn("Failed to initialize indexing service", { error });
   }
 
-  // Helper function to handle CORS
-  const setCorsHeaders = (res: http.ServerResponse) => {
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+  const apiTokens = loadApiTokens(
+    credentialsManager,
+    CREDENTIAL_NAMES.workerApiTokens,
+  );
+  const allowedOrigins = parseAllowedOrigins(process.env.CORS_ALLOWED_ORIGINS);
+  if (mockLLM) {
+    registerMockProvider(mockResponsesFile);
+  } else {
+    await registerProviders();
+  }
+  configureResilience();
+  configureScheduler();
+  configureReranking();
+  configureQueryPlanning();
+  registerStatusMetrics();
+
+  // Helper function to resolve the `tools` field of a request: `true` enables
+  // every built-in tool, an array may mix built-in tool names with tool
+  // definitions the caller executes itself
+  const resolveTools = (
+    tools: CompletionOptions["tools"],
+  ): LLMToolDefinition[] | undefined => {
+    if (tools === undefined || tools === false) return undefined;
+    if (tools === true) return toolRegistry.getDefinitions();
+    return tools.flatMap((tool) =>
+      typeof tool === "string" ? toolRegistry.getDefinitions([tool]) : [tool],
+    );
   };
 
-  // Initialize credentials and LLM service
-  await credentialsManager.init();
-  const { complete } = credentialsManager.checkCredentials();
-
-  if (complete) {
-    const openaiKey = credentialsManager.getCredentialByName("OpenAI API Key");
-    if (openaiKey) {
-      const openaiProvider = new OpenAIProvider(openaiKey);
-      llmService.addProvider(openaiProvider);
-      console.log("✅ OpenAI provider configured");
+  // Helper function to resolve the `fallbacks` field of a request: a
+  // comma-separated string or an array of "provider:model" strings and
+  // { provider, model } objects
+  const resolveFallbacks = (
+    fallbacks: CompletionOptions["fallbacks"],
+  ): LLMTarget[] | undefined => {
+    if (fallbacks === undefined) return undefined;
+    if (typeof fallbacks === "string") return parseLLMTargets(fallbacks);
+    return fallbacks.flatMap((fallback) =>
+      typeof fallback === "string"
+        ? parseLLMTargets(fallback)
+        : [{ provider: fallback.provider, model: fallback.model }],
+    );
+  };
+
+  // Helper function to resolve the `schema` field of a request: a JSON Schema
+  // the response must match, named by `schema_name`
+  const resolveResponseSchema = (
+    data: CompletionOptions,
+  ): LLMResponseSchema | undefined => {
+    if (data.schema === undefined) return undefined;
+    checkSchema(data.schema);
+    return { name: data.schema_name || "response", schema: data.schema };
+  };
+
+  // Helper function to fit the messages and any retrieved `context` chunks
+  // into the model's context window, leaving room for the response
+  const budgetPrompt = (
+    data: CompletionOptions,
+    messages: LLMMessage[],
+  ): BudgetedPrompt => {
+    const provider = llmService.getProvider(data.provider);
+    if (!provider) {
+      // Let the LLM service report the missing provider
+      return { messages, maxTokens: data.max_tokens, report: undefined };
     }
-  } else {
-    console.log(
-      "⚠️  OpenAI credentials not found. Use 'npx tsx dist/cli.js setup' to configure.",
+    return contextBudget.fit(
+      messages,
+      data.context || [],
+      provider.name,
+      data.model || provider.defaultModel,
+      data.max_tokens,
     );
-  }
+  };
+
+  // Helper function to get the cache key for a request, or undefined if the
+  // response shouldn't be cached: the caller opted out with `cache: false`,
+  // or tools are involved, whose results can change between calls
+  const cacheKeyFor = (
+    data: CompletionOptions,
+    request: LLMRequest,
+  ): CacheKeyInput | undefined => {
+    if (responseCache.mode === "off" || data.cache === false) return undefined;
+    if (request.tools?.length) return undefined;
 
-  // Helper function to parse JSON body
-  const parseJsonBody = (req: http.IncomingMessage): Promise<any> => {
-    return new Promise((resolve, reject) => {
-      let body = "";
-      req.on("data", (chunk) => {
-        body += chunk.toString();
+    const provider = llmService.getProvider(data.provider);
+    if (!provider) return undefined;
+    return {
+      provider: provider.name,
+      model: request.model || provider.defaultModel,
+      temperature: request.temperature,
+      max_tokens: request.max_tokens,
+      messages: request.messages,
+      schema: request.response_schema?.schema,
+    };
+  };
+
+  // Helper function to describe a request to the scheduler. Clients are told
+  // apart by their API token and address.
+  const scheduleTicket = (
+    req: http.IncomingMessage,
+    data: CompletionOptions,
+  ): ScheduleTicket => ({
+    clientId: clientKey(req, apiTokens),
+    priority: data.priority || "interactive",
+    provider: llmService.getProvider(data.provider)?.name,
+  });
+
+  // Helper function to get the provider and model a request is answered
+  // with, for the LLM calls made while retrieving for it. Undefined if the
+  // request leaves both to the defaults.
+  const requestTarget = (data: CompletionOptions): LLMTarget | undefined => {
+    if (!data.provider && !data.model) return undefined;
+    const provider =
+      llmService.getProvider(data.provider)?.name || data.provider;
+    return provider ? { provider, model: data.model } : undefined;
+  };
+
+  // Helper function to run the LLM calls made while retrieving for a request,
+  // planning its queries and reranking, in scheduler slots of the request's client.
+  // They wait their turn and use the rate limits like the request itself,
+  // and leave the queue if the client goes away.
+  const scheduleCalls = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    data: CompletionOptions,
+  ): ScheduledCall => {
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abortController.abort();
+    });
+    return (provider, call) =>
+      requestScheduler.run({ ...scheduleTicket(req, data), provider }, call, {
+        signal: abortController.signal,
       });
-      req.on("end", () => {
-        try {
-          resolve(JSON.parse(body));
-        } catch (error) {
-          reject(new Error("Invalid JSON"));
-        }
+  };
+
+  // Helper function to record a call's token usage against the note or digest
+  // named in the request body
+  const recordUsage = (
+    data: CompletionOptions,
+    provider: string | undefined,
+    model: string,
+    usage: LLMUsage | undefined,
+  ) => {
+    if (!provider || !usage) return;
+    llmTokensTotal.inc(
+      { provider, model, type: "prompt" },
+      usage.prompt_tokens,
+    );
+    llmTokensTotal.inc(
+      { provider, model, type: "completion" },
+      usage.completion_tokens,
+    );
+    usageLedger
+      .record({
+        provider,
+        model,
+        usage,
+        noteId: data.noteId,
+        digestId: data.digestId,
+      })
+      .catch(() => {
+        // Already logged by the ledger; usage tracking never fails a request
       });
-    });
   };
 
-  // Create HTTP server
-  const server = http.createServer(async (req, res) => {
-    // Set CORS headers for all responses
-    setCorsHeaders(res);
-
-    // Handle preflight OPTIONS requests
-    if (req.method === "OPTIONS") {
-      res.writeHead(204);
-      res.end();
-      return;
+  // Helper function to stream a completion as server-sent events
+  const streamCompletion = async (
+    res: http.ServerResponse,
+    data: CompletionOptions,
+    request: LLMRequest,
+    ticket: ScheduleTicket,
+    fallbacks?: LLMTarget[],
+    budget?: ContextBudgetReport,
+    retrieval?: RAGResult,
+    toolContext?: ToolContext,
+  ) => {
+    const events = new EventStream(res);
+    if (budget || retrieval) {
+      events.send({
+        type: "sources",
+        ragResult: retrieval,
+        context_budget: budget,
+      });
     }
 
-    // Health check endpoint
-    if (req.method === "GET" && req.url === "/health") {
-      const chromaHealthy = await chromaManager.checkHealth();
-      res.writeHead(200, { "Content-Type": "application/json" });
-      res.end(
-        JSON.stringify({
-          status: "ok",
-          services: {
-            ai: "running",
-            chroma: chromaHealthy ? "running" : "unavailable",
-          },
-        }),
-      );
+    const cacheKey = cacheKeyFor(data, request);
+    const cached = cacheKey && (await responseCache.get(cacheKey));
+    if (cached) {
+      events.send({ type: "token", text: cached.content });
+      events.close({ type: "done", cached: true, data: cached.data });
       return;
     }
+    let content = "";
+    let served: { provider?: string; model?: string } = {};
+    let structured: { data: unknown; content: string } | undefined;
+    let pendingToolCalls: LLMToolCall[] | undefined;
 
-    // API routes for LLM functionality
-    if (req.url?.startsWith("/api/")) {
-      try {
-        // Get available providers
-        if (req.method === "GET" && req.url === "/api/providers") {
-          res.writeHead(200, { "Content-Type": "application/json" });
-          res.end(
-            JSON.stringify({
-              providers: llmService.getAvailableProviders(),
-            }),
-          );
-          return;
-        }
+    // Stop generating, and stop paying for tokens, once the client goes away
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) {
+        logger.info("Client disconnected, aborting generation");
+        abortController.abort();
+      }
+    });
 
-        // Chat completion endpoint
-        if (req.method === "POST" && req.url === "/api/chat") {
-          const data = await parseJsonBody(req);
+    // Wait for a slot, telling the client where it is in the queue
+    let release: () => void;
+    try {
+      release = await requestScheduler.acquire(ticket, {
+        signal: abortController.signal,
+        onQueued: (position) => events.send({ type: "queued", position }),
+      });
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      events.close({
+        type: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return;
+    }
 
-          if (!data.messages || !Array.isArray(data.messages)) {
-            res.writeHead(400, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ error: "messages array is required" }));
-            return;
-          }
+    try {
+      for await (const text of llmService.stream(request, data.provider, {
+        signal: abortController.signal,
+        fallbacks,
+        toolContext,
+        onToolInvocations: (invocations) =>
+          events.send({ type: "sources", tool_invocations: invocations }),
+        onToolCalls: (toolCalls) => {
+          pendingToolCalls = toolCalls;
+        },
+        onStructuredOutput: (data, repairedContent) => {
+          structured = { data, content: repairedContent };
+        },
+        onUsage: (usage, model, provider) => {
+          served = { provider, model };
+          recordUsage(data, provider, model, usage);
+          events.send({
+            type: "usage",
+            usage,
+            model,
+            provider: provider!,
+            cost_usd: calculateCost(provider!, model, usage),
+          });
+        },
+      })) {
+        if (abortController.signal.aborted) break;
+        content += text;
+        events.send({ type: "token", text });
+      }
+      if (cacheKey && !abortController.signal.aborted && !pendingToolCalls) {
+        await responseCache.set(cacheKey, {
+          content: structured?.content ?? content,
+          provider: served.provider || cacheKey.provider,
+          model: served.model || cacheKey.model,
+          data: structured?.data,
+        });
+      }
+      events.close({
+        type: "done",
+        tool_calls: pendingToolCalls,
+        data: structured?.data,
+        // Only sent when repairs changed the output
+        content:
+          structured && structured.content !== content
+            ? structured.content
+            : undefined,
+      });
+    } catch (error) {
+      if (abortController.signal.aborted) return;
+      events.close({
+        type: "error",
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      release();
+    }
+  };
 
-          // Handle streaming
-          if (data.stream) {
-            res.writeHead(200, {
-              "Content-Type": "text/plain",
-              "Transfer-Encoding": "chunked",
-              "Cache-Control": "no-cache",
-              Connection: "keep-alive",
-            });
+  // Helper function shared by the completion endpoints: stream the
+  // response, or return it from the response cache or the provider. Sources
+  // the worker retrieved itself are sent along with the response.
+  const runCompletion = async (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    data: CompletionOptions,
+    messages: LLMMessage[],
+    retrieval?: RAGResult,
+    toolContext?: ToolContext,
+  ) => {
+    const ticket = scheduleTicket(req, data);
+    // fetch_web_page only fetches URLs the user wrote themselves
+    toolContext = {
+      ...toolContext,
+      userUrls: extractUrls(
+        messages
+          .filter((message) => message.role === "user")
+          .map((message) => message.content)
+          .join("\n"),
+      ),
+    };
+    let request: LLMRequest;
+    let fallbacks: LLMTarget[] | undefined;
+    let budget: ContextBudgetReport | undefined;
+    try {
+      fallbacks = resolveFallbacks(data.fallbacks);
+      const prompt = budgetPrompt(data, messages);
+      budget = prompt.report;
+      request = {
+        messages: prompt.messages,
+        model: data.model,
+        temperature: data.temperature,
+        max_tokens: prompt.maxTokens,
+        tools: resolveTools(data.tools),
+        tool_choice: data.tool_choice,
+        response_schema: resolveResponseSchema(data),
+      };
+    } catch (error) {
+      throw new HttpError(400, "invalid_request", (error as Error).message);
+    }
 
-            try {
-              for await (const chunk of llmService.stream(
-                {
-                  messages: data.messages,
-                  model: data.model,
-                  temperature: data.temperature,
-                  max_tokens: data.max_tokens,
-                },
-                data.provider,
-              )) {
-                res.write(chunk);
-              }
-              res.end();
-            } catch (error) {
-              res.write(
-                `\nError: ${error instanceof Error ? error.message : "Unknown error"}`,
-              );
-              res.end();
-            }
-            return;
-          }
+    // Handle streaming
+    if (data.stream) {
+      await streamCompletion(
+        res,
+        data,
+        request,
+        ticket,
+        fallbacks,
+        budget,
+        retrieval,
+        toolContext,
+      );
+      return undefined;
+    }
 
-          // Non-streaming response
-          const response = await llmService.complete(
-            {
-              messages: data.messages,
-              model: data.model,
-              temperature: data.temperature,
-              max_tokens: data.max_tokens,
-            },
-            data.provider,
-          );
+    // Serve a cached response if there is one
+    const cacheKey = cacheKeyFor(data, request);
+    const cached = cacheKey && (await responseCache.get(cacheKey));
+    if (cached) {
+      return {
+        ...cached,
+        cached: true,
+        context_budget: budget,
+        sources: retrieval,
+      };
+    }
 
-          res.writeHead(200, { "Content-Type": "application/json" });
-          res.end(JSON.stringify(response));
-          return;
-        }
+    // Non-streaming response, once there's a slot for it. A client that goes
+    // away while queued gives up its place.
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) abortController.abort();
+    });
+    let release: () => void;
+    try {
+      release = await requestScheduler.acquire(ticket, {
+        signal: abortController.signal,
+      });
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        logger.info("Client disconnected while queued");
+        return undefined;
+      }
+      if (error instanceof QueueFullError) {
+        throw new HttpError(429, "queue_full", error.message);
+      }
+      throw error;
+    }
+    let response;
+    try {
+      response = await llmService.complete(request, data.provider, {
+        fallbacks,
+        toolContext,
+      });
+    } finally {
+      release();
+    }
+    recordUsage(data, response.provider, response.model, response.usage);
+    if (cacheKey && !response.tool_calls) {
+      await responseCache.set(cacheKey, {
+        content: response.content,
+        model: response.model,
+        provider: response.provider,
+        usage: response.usage,
+        data: response.data,
+      });
+    }
+    return { ...response, context_budget: budget, sources: retrieval };
+  };
 
-        // Vector search endpoint
-        if (req.method === "POST" && req.url === "/api/search") {
-          const data = await parseJsonBody(req);
+  const completionResponses = {
+    200: {
+      description: "The completion, or a stream of events if `stream` is set",
+      content: {
+        "application/json": COMPLETION_RESPONSE_SCHEMA,
+        "text/event-stream": EVENT_STREAM_SCHEMA,
+      },
+    },
+  };
 
-          if (!data.query) {
-            res.writeHead(400, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ error: "query is required" }));
-            return;
-          }
+  // Route table
+  const router = new Router({
+    authorize: (req) => isAuthorized(req, apiTokens),
+  })
+    .add({
+      method: "GET",
+      path: "/health",
+      summary: "Status of the worker, Chroma, the response cache and the queue",
+      tags: ["status"],
+      public: true,
+      handler: async () => {
+        const chromaHealthy = await chromaManager.checkHealth();
+        return {
+          status: "ok",
+          services: {
+            ai: "running",
+            chroma: chromaHealthy ? "running" : "unavailable",
+          },
+          cache: responseCache.getStats(),
+          queue: requestScheduler.getStats(),
+        };
+      },
+    })
+    .add({
+      method: "GET",
+      path: "/metrics",
+      summary: "Counters and histograms in the Prometheus text format",
+      tags: ["status"],
+      responses: {
+        200: {
+          description: "Prometheus metrics",
+          content: { "text/plain": { type: "string" } },
+        },
+      },
+      handler: async ({ res }) => {
+        res.writeHead(200, {
+          "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+        });
+        res.end(metricsRegistry.render());
+        return undefined;
+      },
+    })
+    .add({
+      method: "GET",
+      path: "/api/openapi.json",
+      summary: "This API's OpenAPI document",
+      tags: ["status"],
+      handler: async () =>
+        router.getOpenAPIDocument({ title: "AI Worker", version: "1.0.0" }),
+    })
+    .add({
+      method: "GET",
+      path: "/api/providers",
+      summary: "Configured providers, their circuit state and the fallbacks",
+      tags: ["llm"],
+      handler: async () => {
+        await llmService.refreshModels();
+        return {
+          providers: llmService.getAvailableProviders(),
+          fallbacks: llmService.getFallbacks(),
+        };
+      },
+    })
+    .add({
+      method: "GET",
+      path: "/api/tools",
+      summary: "Built-in tools the worker can run",
+      tags: ["llm"],
+      handler: async () => ({ tools: toolRegistry.list() }),
+    })
+    .add({
+      method: "GET",
+      path: "/api/usage",
+      summary: "Token usage and cost, optionally for a single note or digest",
+      tags: ["usage"],
+      query: {
+        noteId: { description: "Note to report", schema: { type: "string" } },
+        digestId: {
+          description: "Digest run to report",
+          schema: { type: "string" },
+        },
+      },
+      handler: async ({ query }) => {
+        const noteId = query.get("noteId");
+        const digestId = query.get("digestId");
+        const ledger = await usageLedger.getLedger();
 
-          try {
-            const { vectorService } = await import("./services/vectorService");
-            const results = await vectorService.search(
-              data.query,
-              data.maxResults || 5,
-            );
-
-            res.writeHead(200, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ results }));
-          } catch (error) {
-            console.error("Search error:", error);
-            res.writeHead(500, { "Content-Type": "application/json" });
-            res.end(
-              JSON.stringify({
-                error: error instanceof Error ? error.message : "Search failed",
-              }),
-            );
-          }
-          return;
+        if (noteId || digestId) {
+          const usage =
+            (noteId ? ledger.notes[noteId] : ledger.digests[digestId!]) || {};
+          return {
+            noteId: noteId || undefined,
+            digestId: noteId ? undefined : digestId,
+            usage,
+            totals: usageLedger.summarize(usage),
+          };
         }
 
-        // Indexing status endpoint
-        if (req.method === "GET" && req.url === "/api/indexing/status") {
-          try {
-            const stats = await indexingService.getStats();
-            const watchedPaths = Array.from(
-              (indexingService as any).watchedPaths || [],
-            );
-
-            res.writeHead(200, { "Content-Type": "application/json" });
-            res.end(
-              JSON.stringify({
-                stats,
-                watchedPaths,
-                isInitialized: (indexingService as any).isInitialized || false,
-                timestamp: new Date().toISOString(),
-              }),
-            );
-          } catch (error) {
-            console.error("Indexing status error:", error);
-            res.writeHead(500, { "Content-Type": "application/json" });
-            res.end(
-              JSON.stringify({
-                error:
-                  error instanceof Error
-                    ? error.message
-                    : "Failed to get indexing status",
-              }),
-            );
-          }
-          return;
+        const totals = usageLedger.summarize(
+          ...Object.values(ledger.notes),
+          ...Object.values(ledger.digests),
+          ledger.unattributed,
+        );
+        return { ...ledger, totals, pricing: MODEL_PRICING };
+      },
+    })
+    .add<ChatRequestBody>({
+      method: "POST",
+      path: "/api/chat",
+      summary: "Chat completion",
+      tags: ["llm"],
+      body: CHAT_REQUEST_SCHEMA,
+      responses: completionResponses,
+      handler: ({ req, res, body }) =>
+        runCompletion(req, res, body, body.messages),
+    })
+    .add<CompleteRequestBody>({
+      method: "POST",
+      path: "/api/complete",
+      summary: "Completion of a single prompt",
+      tags: ["llm"],
+      body: COMPLETE_REQUEST_SCHEMA,
+      responses: completionResponses,
+      handler: ({ req, res, body }) => {
+        const messages: LLMMessage[] = body.system
+          ? [
+              { role: "system", content: body.system },
+              { role: "user", content: body.prompt },
+            ]
+          : [{ role: "user", content: body.prompt }];
+        return runCompletion(req, res, body, messages);
+      },
+    })
+    .add<AskRequestBody>({
+      method: "POST",
+      path: "/api/notes/:noteId/ask",
+      summary:
+        "Answer a question about a note from its sources, retrieved by the worker",
+      tags: ["llm", "search"],
+      body: ASK_REQUEST_SCHEMA,
+      responses: completionResponses,
+      handler: async ({ req, res, body, params }) => {
+        const notebook = await ragService.getNotebook(params.noteId);
+        if (!notebook) {
+          throw new HttpError(
+            404,
+            "not_found",
+            `Note ${params.noteId} not found`,
+          );
         }
 
-        // Simple completion endpoint
-        if (req.method === "POST" && req.url === "/api/complete") {
-          const data = await parseJsonBody(req);
+        // Every built-in tool unless the caller picks them
+        const tools = body.tools ?? true;
+        // The note's saved model settings, unless the caller picks its own.
+        // They're settled before retrieval, since query planning sends the
+        // question and history to the same model.
+        const saved = notebook.note.modelSettings || {};
+        const modelPicked = !!(body.provider || body.model);
+        const data: CompletionOptions = {
+          ...body,
+          provider: modelPicked ? body.provider : saved.provider,
+          model: modelPicked ? body.model : saved.model,
+          temperature: body.temperature ?? saved.temperature,
+          tools,
+          noteId: notebook.note.id,
+        };
+        // Only the note's own sources, unless the caller asks for every note
+        const scope = body.allNotebooks ? {} : { noteId: notebook.note.id };
+        const retrieval = await ragService.queryRelevantSources(
+          body.question,
+          body,
+          scope,
+          {
+            target: requestTarget(data),
+            schedule: scheduleCalls(req, res, data),
+            onUsage: (usage, model, provider) =>
+              recordUsage(data, provider, model, usage),
+          },
+        );
+        const messages = ragService.buildMessages(
+          body.question,
+          notebook,
+          retrieval,
+          {
+            systemPrompt: body.systemPrompt,
+            enableTools: Array.isArray(tools) ? tools.length > 0 : tools,
+            history: body.history,
+          },
+        );
+        return runCompletion(
+          req,
+          res,
+          { ...data, context: ragService.buildContextChunks(retrieval) },
+          messages,
+          retrieval,
+          { scope },
+        );
+      },
+    })
+    .add<SearchRequestBody>({
+      method: "POST",
+      path: "/api/search",
+      summary:
+        "Vector, keyword or hybrid search over indexed sources, optionally within a note",
+      tags: ["search"],
+      body: SEARCH_REQUEST_SCHEMA,
+      handler: async ({ req, res, body }) => {
+        const maxResults = body.maxResults || 5;
+        // Plan and rerank with the model picked for the note, if the search
+        // is in one
+        const notebook = body.noteId
+          ? await ragService.getNotebook(body.noteId)
+          : undefined;
+        const data: CompletionOptions = {
+          noteId: body.noteId,
+          provider: notebook?.note.modelSettings?.provider,
+          model: notebook?.note.modelSettings?.model,
+        };
+        const calls: RetrievalCallOptions = {
+          target: requestTarget(data),
+          schedule: scheduleCalls(req, res, data),
+          onUsage: (usage, model, provider) =>
+            recordUsage(data, provider, model, usage),
+        };
+        const queryPlan = await queryPlanner.plan(body.query, {
+          history: body.history,
+          rewriteQuery: body.rewriteQuery,
+          subQueries: body.subQueries,
+          hyde: body.hyde,
+          ...calls,
+        });
+        const results = await ragService.searchPlan(
+          queryPlan,
+          maxResults,
+          { noteId: body.noteId, sourceIds: body.sourceIds, mode: body.mode },
+          {
+            reranker: body.rerank,
+            candidates: body.rerankCandidates,
+            ...calls,
+          },
+          body.diversity,
+        );
+        return { results, queryPlan };
+      },
+    })
+    .add<EmbedRequestBody>({
+      method: "POST",
+      path: "/api/embed",
+      summary: "Embed texts with the model the vector index uses",
+      tags: ["search"],
+      body: EMBED_REQUEST_SCHEMA,
+      handler: async ({ body }) => {
+        const texts = Array.isArray(body.input) ? body.input : [body.input];
+        const embeddings = await embeddingService.embed(texts);
+        return {
+          model: embeddingService.modelId,
+          dimensions: embeddings[0]?.length,
+          embeddings,
+        };
+      },
+    })
+    .add({
+      method: "GET",
+      path: "/api/indexing/status",
+      summary: "Indexing statistics and watched paths",
+      tags: ["search"],
+      handler: async () => {
+        const { vectorService } = await import("./services/vectorService");
+        const stats = await indexingService.getStats();
+        const watchedPaths = Array.from(
+          (indexingService as any).watchedPaths || [],
+        );
+        const embedding = await vectorService
+          .getEmbeddingStatus()
+          .catch(() => ({ model: embeddingService.modelId }));
+        return {
+          stats,
+          embedding,
+          watchedPaths,
+          isInitialized: (indexingService as any).isInitialized || false,
+          timestamp: new Date().toISOString(),
+        };
+      },
+    })
+    .add({
+      method: "POST",
+      path: "/tonk",
+      summary: "Main worker endpoint",
+      tags: ["worker"],
+      handler: async ({ body }) => {
+        // Process the request data
+        logger.debug("Received data", { body });
+        return { success: true, message: "Request processed successfully" };
+      },
+    });
 
-          if (!data.prompt) {
-            res.writeHead(400, { "Content-Type": "application/json" });
-            res.end(JSON.stringify({ error: "prompt is required" }));
-            return;
-          }
+  // Create HTTP server
+  const server = http.createServer((req, res) => {
+    // Tag everything logged while handling the request with its ID, which
+    // the client can send to trace a call across services
+    const requestId = requestIdFor(req);
+    res.setHeader(REQUEST_ID_HEADER, requestId);
 
-          const messages = data.system
-            ? [
-                { role: "system" as const, content: data.system },
-                { role: "user" as const, content: data.prompt },
-              ]
-            : [{ role: "user" as const, content: data.prompt }];
-
-          // Handle streaming
-          if (data.stream) {
-            res.writeHead(200, {
-              "Content-Type": "text/plain",
-              "Transfer-Encoding": "chunked",
-              "Cache-Control": "no-cache",
-              Connection: "keep-alive",
+    return withRequestId(requestId, async () => {
+      // Anything that throws outside the router still gets a response
+      try {
+        // Record the request once the response is sent or the client goes away
+        const route = router.routePath(req) || "unmatched";
+        const observeDuration = httpRequestDuration.startTimer({
+          method: req.method || "",
+          route,
+        });
+        res.on("close", () => {
+          const seconds = observeDuration();
+          httpRequestsTotal.inc({
+            method: req.method || "",
+            route,
+            status: String(res.statusCode),
+          });
+          if (req.method !== "OPTIONS") {
+            logger.info("Request completed", {
+              method: req.method,
+              route,
+              status: res.statusCode,
+              durationMs: Math.round(seconds * 1000),
             });
-
-            try {
-              for await (const chunk of llmService.stream(
-                {
-                  messages,
-                  model: data.model,
-                  temperature: data.temperature,
-                  max_tokens: data.max_tokens,
-                },
-                data.provider,
-              )) {
-                res.write(chunk);
-              }
-              res.end();
-            } catch (error) {
-              res.write(
-                `\nError: ${error instanceof Error ? error.message : "Unknown error"}`,
-              );
-              res.end();
-            }
-            return;
           }
+        });
 
-          // Non-streaming response
-          const response = await llmService.complete(
-            {
-              messages,
-              model: data.model,
-              temperature: data.temperature,
-              max_tokens: data.max_tokens,
-            },
-            data.provider,
-          );
+        // Set CORS headers for allowed origins
+        setCorsHeaders(req, res, allowedOrigins);
 
-          res.writeHead(200, { "Content-Type": "application/json" });
-          res.end(JSON.stringify(response));
+        // Handle preflight OPTIONS requests
+        if (req.method === "OPTIONS") {
+          res.writeHead(204);
+          res.end();
           return;
         }
 
-        // API route not found
-        res.writeHead(404, { "Content-Type": "application/json" });
-        res.end(JSON.stringify({ error: "API endpoint not found" }));
-        return;
-      } catch (error) {
-        console.error("API Error:", error);
-        res.writeHead(500, { "Content-Type": "application/json" });
-        res.end(
-          JSON.stringify({
-            error:
-              error instanceof Error ? error.message : "Internal server error",
-          }),
-        );
-        return;
-      }
-    }
-
-    // Main worker endpoint
-    if (req.method === "POST" && req.url === "/tonk") {
-      try {
-        const data = await parseJsonBody(req);
-
-        // Process the request data
-        console.log("Received data:", data);
-
-        // Send success response
-        res.writeHead(200, { "Content-Type": "application/json" });
-        res.end(
-          JSON.stringify({
-            success: true,
-            message: "Request processed successfully",
-          }),
-        );
+        if (!(await router.handle(req, res))) {
+          sendError(res, new HttpError(404, "not_found", "Not found"));
+        }
       } catch (error) {
-        console.error("Error processing request:", error);
-        res.writeHead(400, { "Content-Type": "application/json" });
-        res.end(
-          JSON.stringify({ success: false, error: "Invalid data format" }),
-        );
+        logger.error("Request failed", {
+          method: req.method,
+          url: req.url,
+          error,
+        });
+        if (!res.headersSent) {
+          sendError(
+            res,
+            new HttpError(500, "internal_error", "Internal server error"),
+          );
+        } else if (!res.writableEnded) {
+          res.end();
+        }
       }
-    } else {
-      // Handle other routes
-      res.writeHead(404, { "Content-Type": "application/json" });
-      res.end(JSON.stringify({ success: false, error: "Not found" }));
-    }
+    });
   });
 
   // Start the server
   return new Promise((resolve) => {
     server.listen(port, async () => {
-      console.log(`ai worker listening on http://localhost:${port}`);
-      console.log(`API endpoints available at http://localhost:${port}/api/`);
+      logger.info("AI worker listening", {
+        url: `http://localhost:${port}`,
+      });
 
       // Initialize the sync engine
       try {
         await engine.whenReady();
-        console.log("✅ Keepsync engine is ready");
+        logger.info("Keepsync engine is ready");
 
         // Start watching for source documents
         await indexingService.watchSourcesDirectory();
-        console.log("✅ Source document monitoring started");
+        logger.info("Source document monitoring started");
       } catch (error) {
-        console.error("Error initializing sync engine or indexing:", error);
+        logger.error("Error initializing sync engine or indexing", { error });
       }
 
       // Handle graceful shutdown
       const cleanup = async () => {
-        console.log("Shutting down...");
+        logger.info("Shutting down");
         indexingService.cleanup();
         if (chromaManager) {
           await chromaManager.stop();
@@ -467,6 +1206,6 @@ if (require.main === module) {
     ? parseInt(process.env.WORKER_PORT, 10)
     : 5556;
   startWorker({ port })
-    .then(() => console.log(`Worker started on port ${port}`))
-    .catch((err) => console.error("Failed to start worker:", err));
+    .then(() => logger.info("Worker started", { port }))
+    .catch((error) => logger.error("Failed to start worker", { error }));
 }
@@ -0,0 +1,233 @@
+import * as http from "http";
+import * as https from "https";
+import { vectorService } from "./vectorService";
+import { csvQueryService } from "./csvQueryService";
+import { promptGuard } from "./promptGuard";
+import { describeLocation } from "./chunkers";
+import { Tool, ToolRegistry } from "./toolRegistry";
+import { getRequestId, REQUEST_ID_HEADER } from "../utils/logger";
+import { assertPublicUrl } from "../utils/urlSafety";
+
+const WEB_SCRAPER_URL = process.env.WEB_SCRAPER_URL || "http://localhost:5555";
+
+/**
+ * POST a JSON body and parse the JSON response
+ */
+function postJson(
+  url: string,
+  body: unknown,
+  timeoutMs: number,
+  headers: Record<string, string> = {},
+): Promise<any> {
+  return new Promise((resolve, reject) => {
+    const payload = JSON.stringify(body);
+    const client = url.startsWith("https:") ? https : http;
+    const req = client.request(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Content-Length": Buffer.byteLength(payload),
+          ...headers,
+        },
+        timeout: timeoutMs,
+      },
+      (res) => {
+        let data = "";
+        res.on("data", (chunk) => {
+          data += chunk.toString();
+        });
+        res.on("end", () => {
+          try {
+            resolve(JSON.parse(data));
+          } catch {
+            reject(new Error(`Invalid JSON response from ${url}`));
+          }
+        });
+      },
+    );
+    req.on("timeout", () => req.destroy(new Error("Request timed out")));
+    req.on("error", reject);
+    req.end(payload);
+  });
+}
+
+/**
+ * Semantic search over the indexed text, PDF and web sources
+ */
+const searchSourcesTool: Tool = {
+  definition: {
+    name: "search_sources",
+    description:
+      "Search the user's indexed text, PDF and web sources for passages relevant to a query. Use this when the provided context doesn't answer the question.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "What to search for, phrased as a standalone query",
+        },
+        maxResults: {
+          type: "number",
+          description: "Maximum number of passages to return (default 5)",
+        },
+      },
+      required: ["query"],
+    },
+  },
+  async execute(args, context) {
+    const results = await vectorService.search(
+      String(args.query),
+      Math.min(Number(args.maxResults) || 5, 20),
+      context.scope,
+    );
+    if (results.length === 0) {
+      return "No matching passages found.";
+    }
+
+    // Passages are source content, delimited like the retrieved context
+    return results
+      .map((result, index) => {
+        const details = [
+          result.metadata.sourceType,
+          describeLocation(result.metadata),
+          `score ${result.score.toFixed(2)}`,
+        ].filter(Boolean);
+        return promptGuard.wrap(result.content, {
+          title: `[${index + 1}] ${result.metadata.title} (${details.join(", ")})`,
+          flagged: promptGuard.detect(result.content).length > 0,
+        });
+      })
+      .join("\n\n");
+  },
+};
+
+/**
+ * Keyword lookup over rows of the indexed CSV sources
+ */
+const queryCsvTool: Tool = {
+  definition: {
+    name: "query_csv",
+    description:
+      "Find rows in the user's CSV sources that mention the given terms. Searches every CSV source unless a sourceId is given.",
+    parameters: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Terms to look for in the rows",
+        },
+        sourceId: {
+          type: "string",
+          description: "Only search this CSV source",
+        },
+      },
+      required: ["query"],
+    },
+  },
+  async execute(args, context) {
+    const query = String(args.query);
+    const results = args.sourceId
+      ? [
+          await csvQueryService.querySource(
+            String(args.sourceId),
+            query,
+            context.scope,
+          ),
+        ]
+      : await csvQueryService.smartQuery(query, 5, context.scope);
+
+    const matches = results.filter((result) => result && result.matchCount > 0);
+    if (matches.length === 0) {
+      return "No matching rows found.";
+    }
+
+    return matches
+      .map(
+        (result) =>
+          `${result!.title} (sourceId ${result!.sourceId}, ${result!.matchCount} matching rows):\n` +
+          result!.matchingRows
+            .slice(0, 20)
+            .map((row) => JSON.stringify(row))
+            .join("\n"),
+      )
+      .join("\n\n");
+  },
+};
+
+/**
+ * Options for the built-in tools
+ */
+export interface BuiltinToolsOptions {
+  webScraperToken?: string; // Bearer token for the web-scraper worker
+}
+
+/**
+ * Fetch a web page through the web-scraper worker. Source content could
+ * otherwise have the model fetch a URL carrying the user's notes, or an
+ * address on the worker's network, so the tool is opt-in, fetches only URLs
+ * the user wrote, skips local and private hosts and doesn't follow
+ * redirects. The page isn't stored.
+ */
+const fetchWebPageTool = (webScraperToken?: string): Tool => ({
+  optIn: true,
+  definition: {
+    name: "fetch_web_page",
+    description:
+      "Fetch a web page and return its main content as markdown. Only URLs the user wrote in the conversation can be fetched.",
+    parameters: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "Absolute http(s) URL of the page",
+        },
+      },
+      required: ["url"],
+    },
+  },
+  async execute(args, context) {
+    const url = new URL(String(args.url));
+    if (!context.userUrls?.includes(url.href)) {
+      throw new Error(
+        "Only URLs the user wrote in the conversation can be fetched",
+      );
+    }
+    await assertPublicUrl(url);
+
+    // Pass the request ID on so the scrape shows up in the same trace
+    const headers: Record<string, string> = {};
+    if (webScraperToken) headers.Authorization = `Bearer ${webScraperToken}`;
+    const requestId = getRequestId();
+    if (requestId) headers[REQUEST_ID_HEADER] = requestId;
+
+    const result = await postJson(
+      `${WEB_SCRAPER_URL}/tonk`,
+      { url: url.href, store: false, options: { followRedirects: false } },
+      45000,
+      headers,
+    );
+    if (!result.success) {
+      throw new Error(result.error || "Web scraper request failed");
+    }
+
+    const page = `# ${result.content.title}\n\n${result.content.markdown}`;
+    return promptGuard.wrap(page, {
+      title: url.href,
+      flagged: promptGuard.detect(page).length > 0,
+    });
+  },
+});
+
+/**
+ * Register the tools backed by TonkBook's own services
+ */
+export function registerBuiltinTools(
+  registry: ToolRegistry,
+  options: BuiltinToolsOptions = {},
+): void {
+  registry.register(searchSourcesTool);
+  registry.register(queryCsvTool);
+  registry.register(fetchWebPageTool(options.webScraperToken));
+}
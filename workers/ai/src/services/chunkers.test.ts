@@ -0,0 +1,146 @@
+import {
+  ChunkingService,
+  TextChunk,
+  describeLocation,
+  parseChunkingStrategies,
+} from "./chunkers";
+
+const service = new ChunkingService();
+
+const expectOffsetsMatch = (text: string, chunks: TextChunk[]) => {
+  for (const chunk of chunks) {
+    expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.content);
+  }
+};
+
+const prose = Array.from(
+  { length: 40 },
+  (_, i) =>
+    `Sentence number ${i} talks about churn in Q${(i % 4) + 1} and what it means.`,
+).join(" ");
+
+describe("ChunkingService", () => {
+  it.each(["sentence", "fixed", "tokens"])(
+    "keeps %s chunks at their offsets in the source",
+    (chunking) => {
+      const chunks = service.chunk(prose, { type: "text", chunking });
+      expect(chunks.length).toBeGreaterThan(1);
+      expectOffsetsMatch(prose, chunks);
+    },
+  );
+
+  it("starts sentence chunks at a sentence and overlaps them", () => {
+    const chunks = service.chunk(prose, { type: "text" });
+    for (const chunk of chunks) {
+      expect(chunk.content).toMatch(/^Sentence number \d+/);
+      expect(chunk.content.length).toBeLessThanOrEqual(800);
+    }
+    expect(chunks[1].startOffset).toBeLessThan(chunks[0].endOffset);
+  });
+
+  it("splits text without sentence ends and keeps the offsets", () => {
+    const text = "x".repeat(2000) + " " + "word ".repeat(300);
+    const chunks = service.chunk(text, { type: "text" });
+    expect(chunks.every((chunk) => chunk.content.length <= 800)).toBe(true);
+    expectOffsetsMatch(text, chunks);
+  });
+
+  it("returns no chunks for blank text", () => {
+    expect(service.chunk("", { type: "text" })).toEqual([]);
+    expect(service.chunk("   \n\n ", { type: "web" })).toEqual([]);
+  });
+
+  it("picks the source's own strategy over the one for its type", () => {
+    expect(service.strategyFor({ type: "web" })).toBe("markdown");
+    expect(service.strategyFor({ type: "web", chunking: "fixed" })).toBe(
+      "fixed",
+    );
+    expect(service.strategyFor({ type: "web", chunking: "bogus" })).toBe(
+      "markdown",
+    );
+    expect(service.strategyFor({})).toBe("sentence");
+  });
+
+  it("labels markdown chunks with their headings, ignoring code fences", () => {
+    const markdown = [
+      "Intro line.",
+      "# Guide",
+      "Some text.",
+      "## Install",
+      "Run it.",
+      "```\n# not a heading\n```",
+      "### Linux",
+      "apt get.",
+      "## Use",
+      "Enjoy. ##",
+    ].join("\n\n");
+    const chunks = service.chunk(markdown, { type: "web" });
+
+    expectOffsetsMatch(markdown, chunks);
+    expect(chunks.map((chunk) => chunk.headingPath)).toEqual([
+      undefined,
+      ["Guide"],
+      ["Guide", "Install"],
+      ["Guide", "Install", "Linux"],
+      ["Guide", "Use"],
+    ]);
+    expect(chunks[2].content).toContain("# not a heading");
+  });
+
+  it("numbers PDF chunks by the page they start on", () => {
+    const pages = ["Page one text. More.", "Second page here.", "", "Fourth."];
+    let content = "";
+    const pageOffsets: number[] = [];
+    for (const page of pages) {
+      pageOffsets.push(content.length);
+      content += page + "\n";
+    }
+    const chunks = service.chunk(content, { type: "pdf", pageOffsets });
+
+    expectOffsetsMatch(content, chunks);
+    expect(chunks.map((chunk) => [chunk.page, chunk.content])).toEqual([
+      [1, "Page one text. More."],
+      [2, "Second page here."],
+      [4, "Fourth."],
+    ]);
+  });
+
+  it("finds PDF pages at form feeds when their offsets aren't known", () => {
+    const chunks = service.chunk("a\fb\fc", { type: "pdf" });
+    expect(chunks.map((chunk) => [chunk.page, chunk.content])).toEqual([
+      [1, "a"],
+      [2, "b"],
+      [3, "c"],
+    ]);
+  });
+
+  it("leaves PDF chunks unnumbered when the page offsets are unusable", () => {
+    const chunks = service.chunk("no pages", {
+      type: "pdf",
+      pageOffsets: [5, 2],
+    });
+    expect(chunks).toEqual([
+      { content: "no pages", startOffset: 0, endOffset: 8 },
+    ]);
+  });
+});
+
+describe("parseChunkingStrategies", () => {
+  it("reads a strategy per source type and ignores unknown ones", () => {
+    expect(parseChunkingStrategies("text:tokens, web:bogus,pdf:fixed")).toEqual(
+      { text: "tokens", pdf: "fixed" },
+    );
+    expect(parseChunkingStrategies("")).toEqual({});
+  });
+});
+
+describe("describeLocation", () => {
+  it("names the page range or heading path", () => {
+    expect(describeLocation({ page: 3 })).toBe("page 3");
+    expect(describeLocation({ page: 3, lastPage: 5 })).toBe("pages 3-5");
+    expect(describeLocation({ headingPath: "Setup > Linux" })).toBe(
+      "Setup > Linux",
+    );
+    expect(describeLocation({})).toBeUndefined();
+  });
+});
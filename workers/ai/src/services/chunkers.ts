@@ -0,0 +1,428 @@
+import { contextBudget } from "./contextBudget";
+import { logger } from "../utils/logger";
+
+const log = logger.child("chunking");
+
+/**
+ * How a source is split into chunks:
+ * - `fixed`: 800-character windows that break at `". "` where they can
+ * - `sentence`: whole sentences and lines packed up to 800 characters
+ * - `markdown`: sections between headings, each packed like `sentence`
+ * - `pdf`: pages, each packed like `sentence`
+ * - `tokens`: whole sentences and lines packed up to 200 tokens
+ */
+export const CHUNKING_STRATEGIES = [
+  "fixed",
+  "sentence",
+  "markdown",
+  "pdf",
+  "tokens",
+] as const;
+
+export type ChunkingStrategy = (typeof CHUNKING_STRATEGIES)[number];
+
+/**
+ * Strategy for each source type unless CHUNKING or the source says otherwise
+ */
+const DEFAULT_STRATEGIES: Record<string, ChunkingStrategy> = {
+  text: "sentence",
+  pdf: "pdf",
+  web: "markdown", // The scraper stores pages as markdown
+};
+
+const MAX_CHUNK_CHARS = 800;
+const CHUNK_OVERLAP_CHARS = 150;
+const MAX_CHUNK_TOKENS = 200;
+const CHUNK_OVERLAP_TOKENS = 40;
+
+/**
+ * Where sentences and lines end. The whitespace after the end belongs to
+ * the sentence, so a split never starts a chunk with it.
+ */
+const SENTENCE_BOUNDARY = /[.!?]+["'”’)\]]*\s+|\n\s*/g;
+const WORD_BOUNDARY = /\s+/g;
+
+/**
+ * ATX headings (`## Title`); setext headings aren't recognized
+ */
+const HEADING = /^(#{1,6})[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/;
+const CODE_FENCE = /^[ \t]*(```|~~~)/;
+
+/**
+ * A piece of a source. `content` is `text.slice(startOffset, endOffset)` of
+ * the text that was chunked, so a chunk can be found in its source.
+ */
+export interface TextChunk {
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  page?: number; // From 1, for PDFs whose page boundaries are known
+  headingPath?: string[]; // Markdown headings the chunk is under, outermost first
+}
+
+/**
+ * The parts of a source's metadata that chunking reads
+ */
+export interface ChunkableSource {
+  type?: string;
+  chunking?: string; // A strategy for this source only
+  pageOffsets?: number[]; // Where each PDF page starts in the content
+  [key: string]: any;
+}
+
+export interface Chunker {
+  chunk(text: string, source: ChunkableSource): TextChunk[];
+}
+
+interface Unit {
+  start: number;
+  end: number;
+  size: number;
+}
+
+/**
+ * The trimmed text between two offsets, or undefined if it's blank
+ */
+function toChunk(
+  text: string,
+  start: number,
+  end: number,
+): TextChunk | undefined {
+  const raw = text.slice(start, end);
+  const content = raw.trim();
+  if (!content) return undefined;
+  const startOffset = start + raw.length - raw.trimStart().length;
+  return { content, startOffset, endOffset: startOffset + content.length };
+}
+
+/**
+ * Cut `text[start, end)` after each match of the boundary
+ */
+function split(
+  text: string,
+  start: number,
+  end: number,
+  boundary: RegExp,
+): { start: number; end: number }[] {
+  const spans: { start: number; end: number }[] = [];
+  let spanStart = start;
+  for (const match of text.slice(start, end).matchAll(boundary)) {
+    const spanEnd = start + match.index! + match[0].length;
+    if (spanEnd > spanStart) spans.push({ start: spanStart, end: spanEnd });
+    spanStart = spanEnd;
+  }
+  if (spanStart < end) spans.push({ start: spanStart, end });
+  return spans;
+}
+
+/**
+ * Windows of 800 characters overlapping by 150, ended at the last `". "`
+ * in their final 30%. This is how every source was chunked before
+ * strategies could be chosen.
+ */
+export class FixedChunker implements Chunker {
+  chunk(text: string): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    let startIndex = 0;
+
+    while (startIndex < text.length) {
+      const endIndex = Math.min(startIndex + MAX_CHUNK_CHARS, text.length);
+
+      let actualEndIndex = endIndex;
+      if (endIndex < text.length) {
+        const lastSentenceEnd = text
+          .slice(startIndex, endIndex)
+          .lastIndexOf(". ");
+        if (lastSentenceEnd > MAX_CHUNK_CHARS * 0.7) {
+          actualEndIndex = startIndex + lastSentenceEnd + 1;
+        }
+      }
+
+      const chunk = toChunk(text, startIndex, actualEndIndex);
+      if (chunk) chunks.push(chunk);
+      // Windows starting in the overlap would only repeat the end
+      if (actualEndIndex >= text.length) break;
+
+      startIndex = Math.max(
+        actualEndIndex - CHUNK_OVERLAP_CHARS,
+        startIndex + 1,
+      );
+      if (startIndex >= actualEndIndex) break;
+    }
+
+    return chunks;
+  }
+}
+
+/**
+ * Packs whole sentences and lines into chunks of up to `maxSize`, as
+ * measured by `measure`, and repeats up to `overlap` of the last ones at
+ * the start of the next chunk. Sentences too long for a chunk are split
+ * between words, and words too long for one are cut.
+ */
+export class SentenceChunker implements Chunker {
+  constructor(
+    private measure: (text: string) => number,
+    private maxSize: number,
+    private overlap: number,
+  ) {}
+
+  chunk(text: string): TextChunk[] {
+    return this.chunkRange(text, 0, text.length);
+  }
+
+  /**
+   * Chunks of `text[start, end)`, with offsets into the whole text
+   */
+  chunkRange(text: string, start: number, end: number): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    let current: Unit[] = [];
+    let size = 0;
+
+    for (const unit of this.units(text, start, end)) {
+      if (current.length > 0 && size + unit.size > this.maxSize) {
+        const chunk = toChunk(
+          text,
+          current[0].start,
+          current[current.length - 1].end,
+        );
+        if (chunk) chunks.push(chunk);
+
+        // Never carry the whole chunk over, or it would repeat
+        const carried: Unit[] = [];
+        let carriedSize = 0;
+        for (let i = current.length - 1; i > 0; i--) {
+          const next = carriedSize + current[i].size;
+          if (next > this.overlap || next + unit.size > this.maxSize) break;
+          carried.unshift(current[i]);
+          carriedSize = next;
+        }
+        current = carried;
+        size = carriedSize;
+      }
+      current.push(unit);
+      size += unit.size;
+    }
+
+    if (current.length > 0) {
+      const chunk = toChunk(
+        text,
+        current[0].start,
+        current[current.length - 1].end,
+      );
+      if (chunk) chunks.push(chunk);
+    }
+    return chunks;
+  }
+
+  private units(text: string, start: number, end: number): Unit[] {
+    const units: Unit[] = [];
+    for (const sentence of split(text, start, end, SENTENCE_BOUNDARY)) {
+      const size = this.measure(text.slice(sentence.start, sentence.end));
+      if (size <= this.maxSize) {
+        units.push({ ...sentence, size });
+        continue;
+      }
+      for (const word of split(
+        text,
+        sentence.start,
+        sentence.end,
+        WORD_BOUNDARY,
+      )) {
+        const wordSize = this.measure(text.slice(word.start, word.end));
+        if (wordSize <= this.maxSize) {
+          units.push({ ...word, size: wordSize });
+          continue;
+        }
+        // Tokens are seldom shorter than a character, so pieces this long fit
+        for (let i = word.start; i < word.end; i += this.maxSize) {
+          const pieceEnd = Math.min(i + this.maxSize, word.end);
+          units.push({
+            start: i,
+            end: pieceEnd,
+            size: this.measure(text.slice(i, pieceEnd)),
+          });
+        }
+      }
+    }
+    return units;
+  }
+}
+
+/**
+ * Splits markdown into sections at each heading, outside code blocks, and
+ * packs each section separately so no chunk spans two sections. Chunks
+ * record the headings they're under and start with their own heading.
+ */
+export class MarkdownChunker implements Chunker {
+  constructor(private sections: SentenceChunker) {}
+
+  chunk(text: string): TextChunk[] {
+    const chunks: TextChunk[] = [];
+    const headings: { level: number; title: string }[] = [];
+    let sectionStart = 0;
+    let inCodeBlock = false;
+
+    const addSection = (end: number) => {
+      const headingPath = headings.map((heading) => heading.title);
+      for (const chunk of this.sections.chunkRange(text, sectionStart, end)) {
+        chunks.push(headingPath.length > 0 ? { ...chunk, headingPath } : chunk);
+      }
+    };
+
+    let lineStart = 0;
+    for (const line of text.split("\n")) {
+      if (CODE_FENCE.test(line)) {
+        inCodeBlock = !inCodeBlock;
+      } else if (!inCodeBlock) {
+        const heading = HEADING.exec(line);
+        if (heading) {
+          addSection(lineStart);
+          sectionStart = lineStart;
+          const level = heading[1].length;
+          while (
+            headings.length > 0 &&
+            headings[headings.length - 1].level >= level
+          ) {
+            headings.pop();
+          }
+          headings.push({ level, title: heading[2] });
+        }
+      }
+      lineStart += line.length + 1;
+    }
+    addSection(text.length);
+
+    return chunks;
+  }
+}
+
+/**
+ * Chunks each page of a PDF separately and records the page. Page starts
+ * come from the source's `pageOffsets`, or from form feeds in the text;
+ * without either, the text is chunked as one page and no page is recorded.
+ */
+export class PdfChunker implements Chunker {
+  constructor(private pages: SentenceChunker) {}
+
+  chunk(text: string, source: ChunkableSource): TextChunk[] {
+    const offsets = this.pageOffsets(text, source);
+    if (!offsets) return this.pages.chunk(text);
+
+    return offsets.flatMap((start, index) =>
+      this.pages
+        .chunkRange(text, start, offsets[index + 1] ?? text.length)
+        .map((chunk) => ({ ...chunk, page: index + 1 })),
+    );
+  }
+
+  private pageOffsets(
+    text: string,
+    source: ChunkableSource,
+  ): number[] | undefined {
+    const offsets = source.pageOffsets;
+    if (
+      Array.isArray(offsets) &&
+      offsets.length > 0 &&
+      offsets.every(
+        (offset, index) =>
+          Number.isInteger(offset) &&
+          offset >= 0 &&
+          (index === 0 || offset >= offsets[index - 1]),
+      )
+    ) {
+      return offsets;
+    }
+
+    if (!text.includes("\f")) return undefined;
+    const formFeeds = [0];
+    for (let index = text.indexOf("\f"); index !== -1;) {
+      formFeeds.push(index + 1);
+      index = text.indexOf("\f", index + 1);
+    }
+    return formFeeds;
+  }
+}
+
+/**
+ * Read CHUNKING, such as `text:tokens,web:markdown`, into a strategy per
+ * source type. Unknown strategies are ignored.
+ */
+export function parseChunkingStrategies(
+  spec: string,
+): Record<string, ChunkingStrategy> {
+  const strategies: Record<string, ChunkingStrategy> = {};
+  for (const entry of spec.split(",")) {
+    const [type, strategy] = entry.split(":").map((part) => part.trim());
+    if (!type || !strategy) continue;
+    if (!CHUNKING_STRATEGIES.includes(strategy as ChunkingStrategy)) {
+      log.warn("Unknown chunking strategy, using the default", {
+        sourceType: type,
+        strategy,
+      });
+      continue;
+    }
+    strategies[type] = strategy as ChunkingStrategy;
+  }
+  return strategies;
+}
+
+/**
+ * Splits sources into chunks with the strategy chosen for their type. A
+ * source can pick its own strategy with `chunking` in its metadata.
+ */
+export class ChunkingService {
+  private strategies: Record<string, ChunkingStrategy>;
+  private chunkers: Record<ChunkingStrategy, Chunker>;
+
+  constructor(strategies: Record<string, ChunkingStrategy> = {}) {
+    this.strategies = { ...DEFAULT_STRATEGIES, ...strategies };
+
+    const sentences = new SentenceChunker(
+      (text) => text.length,
+      MAX_CHUNK_CHARS,
+      CHUNK_OVERLAP_CHARS,
+    );
+    this.chunkers = {
+      fixed: new FixedChunker(),
+      sentence: sentences,
+      markdown: new MarkdownChunker(sentences),
+      pdf: new PdfChunker(sentences),
+      tokens: new SentenceChunker(
+        (text) => contextBudget.countTokens(text),
+        MAX_CHUNK_TOKENS,
+        CHUNK_OVERLAP_TOKENS,
+      ),
+    };
+  }
+
+  strategyFor(source: ChunkableSource): ChunkingStrategy {
+    const requested = source.chunking as ChunkingStrategy;
+    if (CHUNKING_STRATEGIES.includes(requested)) return requested;
+    return this.strategies[source.type || "text"] || "sentence";
+  }
+
+  chunk(text: string, source: ChunkableSource = {}): TextChunk[] {
+    return this.chunkers[this.strategyFor(source)].chunk(text, source);
+  }
+}
+
+export const chunkingService = new ChunkingService(
+  parseChunkingStrategies(process.env.CHUNKING || ""),
+);
+
+/**
+ * Where a chunk is in its source, such as `page 3` or `Setup > Linux`, for
+ * labelling it in prompts and tool results
+ */
+export function describeLocation(metadata: {
+  page?: number;
+  lastPage?: number; // Of passages merged from chunks on several pages
+  headingPath?: string;
+}): string | undefined {
+  if (metadata.page && metadata.lastPage) {
+    return `pages ${metadata.page}-${metadata.lastPage}`;
+  }
+  if (metadata.page) return `page ${metadata.page}`;
+  return metadata.headingPath || undefined;
+}
@@ -0,0 +1,106 @@
+import type { LLMMessage } from "./llmProvider";
+import { CONTEXT_PLACEHOLDER, ContextBudget } from "./contextBudget";
+
+const budget = new ContextBudget();
+
+const words = (count: number) => "word ".repeat(count).trim();
+
+describe("ContextBudget", () => {
+  it("finds the context window by the longest model prefix", () => {
+    expect(budget.getContextLimit("openai", "gpt-4o-mini")).toBe(128000);
+    expect(budget.getContextLimit("openai", "gpt-4-0613")).toBe(8192);
+    expect(budget.getContextLimit("anthropic", "claude-3-5-haiku")).toBe(
+      200000,
+    );
+    expect(budget.getContextLimit("openai", "unknown")).toBe(8192);
+  });
+
+  it("puts the context at the placeholder, keeping `$` patterns as written", () => {
+    const { messages } = budget.fit(
+      [
+        { role: "system", content: `Sources:\n${CONTEXT_PLACEHOLDER}\nEnd.` },
+        { role: "user", content: "What does the regex do?" },
+      ],
+      [{ title: "Code", content: 's.replace(/a/, "$&-$1-$\'-$`")' }],
+      "openai",
+      "gpt-4o",
+    );
+
+    expect(messages[0].content).toContain('s.replace(/a/, "$&-$1-$\'-$`")');
+    expect(messages[0].content).not.toContain(CONTEXT_PLACEHOLDER);
+    expect(messages[0].content).toMatch(/^Sources:\n[\s\S]*\nEnd\.$/);
+  });
+
+  it("appends the context to the system prompt without a placeholder", () => {
+    const { messages } = budget.fit(
+      [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hi" },
+      ],
+      [{ title: "Notes", content: "Churn rose in Q3." }],
+      "openai",
+      "gpt-4o",
+    );
+    expect(messages[0].content).toMatch(
+      /^Be brief\.\n\nAVAILABLE CONTEXT:\n[\s\S]*Churn rose in Q3\./,
+    );
+  });
+
+  it("keeps the best chunks, trims the next and drops the rest", () => {
+    const { report, messages } = budget.fit(
+      [{ role: "user", content: "Summarize" }],
+      [
+        { id: "low", content: words(3000), score: 0.1 },
+        { id: "best", content: words(2000), score: 0.9 },
+        { id: "next", content: words(6000), score: 0.5 },
+      ],
+      "openai",
+      "gpt-4",
+      1000,
+    );
+
+    expect(report.includedChunks).toBe(2);
+    expect(report.trimmedChunks.map((chunk) => chunk.id)).toEqual(["next"]);
+    expect(report.droppedChunks.map((chunk) => chunk.id)).toEqual(["low"]);
+    expect(report.promptTokens).toBeLessThanOrEqual(8192 - 1000);
+    // Kept chunks stay in the order they were given
+    const system = messages[0].content;
+    expect(system.indexOf(words(2000))).toBeLessThan(system.indexOf("..."));
+  });
+
+  it("drops the oldest turns first and never splits a tool call from its results", () => {
+    const messages: LLMMessage[] = [
+      {
+        role: "user",
+        content: "Short, but older than a turn that doesn't fit",
+      },
+      { role: "assistant", content: words(7000) },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ id: "call_1", name: "search_sources", arguments: {} }],
+      },
+      { role: "tool", content: "results", tool_call_id: "call_1" },
+      { role: "user", content: "And now?" },
+    ];
+    const fitted = budget.fit(messages, [], "openai", "gpt-4", 1000);
+
+    expect(fitted.report.droppedMessages).toBe(2);
+    expect(fitted.messages.map((message) => message.role)).toEqual([
+      "assistant",
+      "tool",
+      "user",
+    ]);
+  });
+
+  it("fails when the system prompt and question alone don't fit", () => {
+    expect(() =>
+      budget.fit(
+        [{ role: "user", content: words(9000) }],
+        [],
+        "openai",
+        "gpt-4",
+      ),
+    ).toThrow("leaves room for");
+  });
+});
@@ -0,0 +1,368 @@
+import { getEncoding, Tiktoken } from "js-tiktoken";
+import type { LLMMessage } from "./llmProvider";
+import { promptGuard, UNTRUSTED_CONTENT_NOTICE } from "./promptGuard";
+
+/**
+ * Context window sizes in tokens, keyed by model name prefix like
+ * MODEL_PRICING. The longest matching prefix wins.
+ */
+export const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  "gpt-5": 400000,
+  "gpt-4.1": 1047576,
+  "gpt-4o": 128000,
+  "gpt-4-turbo": 128000,
+  "gpt-4": 8192,
+  "gpt-3.5-turbo": 16385,
+  o1: 200000,
+  o3: 200000,
+  o4: 200000,
+  "claude-": 200000,
+};
+
+/**
+ * Used for models missing from the table. Local servers report no limit,
+ * so theirs is set with LOCAL_LLM_CONTEXT_LIMIT.
+ */
+const DEFAULT_CONTEXT_LIMIT = 8192;
+
+/**
+ * Response length reserved when a request doesn't set max_tokens, capped at
+ * a quarter of the context window
+ */
+const DEFAULT_RESPONSE_TOKENS = 1500;
+
+/**
+ * Tokens kept free because the tokenizer only approximates non-OpenAI models
+ */
+const SAFETY_MARGIN_RATIO = 0.05;
+
+/**
+ * Formatting overhead per chat message
+ */
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * Below this many free tokens a chunk is dropped rather than trimmed
+ */
+const MIN_TRIMMED_CHUNK_TOKENS = 100;
+
+/**
+ * Where retrieved context goes in the system prompt. Without the placeholder
+ * the context is appended to the system prompt.
+ */
+export const CONTEXT_PLACEHOLDER = "{{context}}";
+
+/**
+ * A retrieved passage offered to the model. Chunks are kept in order of
+ * score; chunks without a score are dropped first.
+ */
+export interface ContextChunk {
+  id?: string;
+  title?: string;
+  content: string;
+  score?: number;
+}
+
+/**
+ * What the budgeting kept and dropped, returned as response metadata
+ */
+export interface ContextBudgetReport {
+  model: string;
+  contextLimit: number;
+  maxTokens: number; // Reserved for the response
+  promptTokens: number;
+  includedChunks: number;
+  trimmedChunks: Array<{
+    id?: string;
+    title?: string;
+    originalTokens: number;
+    keptTokens: number;
+  }>;
+  droppedChunks: Array<{
+    id?: string;
+    title?: string;
+    score?: number;
+    tokens: number;
+  }>;
+  droppedMessages: number; // Older conversation turns left out
+  flaggedChunks: Array<{
+    id?: string;
+    title?: string;
+    patterns: string[]; // Instruction-like patterns the chunk matched
+  }>;
+}
+
+export interface BudgetedPrompt {
+  messages: LLMMessage[];
+  maxTokens: number;
+  report: ContextBudgetReport;
+}
+
+export class ContextBudget {
+  private encoding?: Tiktoken;
+
+  /**
+   * Loaded on first use; the ranks take a moment to parse
+   */
+  private getEncoding(): Tiktoken {
+    if (!this.encoding) {
+      this.encoding = getEncoding("cl100k_base");
+    }
+    return this.encoding;
+  }
+
+  countTokens(text: string): number {
+    return this.getEncoding().encode(text).length;
+  }
+
+  private countMessage(message: LLMMessage): number {
+    return (
+      TOKENS_PER_MESSAGE +
+      this.countTokens(message.content) +
+      (message.tool_calls
+        ? this.countTokens(JSON.stringify(message.tool_calls))
+        : 0)
+    );
+  }
+
+  getContextLimit(provider: string, model: string): number {
+    if (provider === "local") {
+      return (
+        Number(process.env.LOCAL_LLM_CONTEXT_LIMIT) || DEFAULT_CONTEXT_LIMIT
+      );
+    }
+
+    const prefix = Object.keys(MODEL_CONTEXT_LIMITS)
+      .filter((key) => model.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? MODEL_CONTEXT_LIMITS[prefix] : DEFAULT_CONTEXT_LIMIT;
+  }
+
+  /**
+   * Fit a prompt into the model's context window, leaving room for the
+   * response. The system prompt and the latest turn are always kept.
+   * Context chunks are added by descending score, trimming the last one
+   * that only partly fits; older conversation turns fill what is left,
+   * newest first.
+   */
+  fit(
+    messages: LLMMessage[],
+    context: ContextChunk[],
+    provider: string,
+    model: string,
+    maxTokens?: number,
+  ): BudgetedPrompt {
+    const contextLimit = this.getContextLimit(provider, model);
+    const responseTokens =
+      maxTokens ||
+      Math.min(DEFAULT_RESPONSE_TOKENS, Math.floor(contextLimit / 4));
+    const budget =
+      contextLimit -
+      responseTokens -
+      Math.ceil(contextLimit * SAFETY_MARGIN_RATIO);
+
+    const systemMessages = messages.filter(
+      (message) => message.role === "system",
+    );
+    const history = this.groupTurns(
+      messages.filter((message) => message.role !== "system"),
+    );
+    const latest = history.pop() || [];
+
+    let used = [...systemMessages, ...latest].reduce(
+      (total, message) => total + this.countMessage(message),
+      0,
+    );
+    if (used > budget) {
+      throw new Error(
+        `Prompt needs ${used} tokens but ${model} leaves room for ${budget} after reserving ${responseTokens} for the response`,
+      );
+    }
+
+    // Source content is untrusted: it's delimited, and chunks that look
+    // like instructions are flagged, with a notice telling the model so
+    const flaggedChunks: ContextBudgetReport["flaggedChunks"] = [];
+    const flagged = new Set<number>();
+    context.forEach((chunk, index) => {
+      const findings = promptGuard.detect(chunk.content);
+      if (findings.length === 0) return;
+      flagged.add(index);
+      flaggedChunks.push({
+        id: chunk.id,
+        title: chunk.title,
+        patterns: findings.map((finding) => finding.pattern),
+      });
+    });
+    if (context.length > 0) {
+      used += this.countTokens(UNTRUSTED_CONTENT_NOTICE) + 2;
+    }
+
+    // Highest-scoring chunks first; the rendered order follows the input
+    const ranked = context
+      .map((chunk, index) => ({ chunk, index }))
+      .sort(
+        (a, b) =>
+          (b.chunk.score ?? -Infinity) - (a.chunk.score ?? -Infinity) ||
+          a.index - b.index,
+      );
+    const included: Array<{ chunk: ContextChunk; index: number }> = [];
+    const report: ContextBudgetReport = {
+      model,
+      contextLimit,
+      maxTokens: responseTokens,
+      promptTokens: 0,
+      includedChunks: 0,
+      trimmedChunks: [],
+      droppedChunks: [],
+      droppedMessages: 0,
+      flaggedChunks,
+    };
+
+    for (const entry of ranked) {
+      const text = this.renderChunk(entry.chunk, flagged.has(entry.index));
+      const tokens = this.countTokens(text) + 2;
+      const available = budget - used;
+
+      if (tokens <= available) {
+        included.push(entry);
+        used += tokens;
+      } else if (available >= MIN_TRIMMED_CHUNK_TOKENS) {
+        // Room for the delimiters, title and trailing ellipsis comes off the content
+        const contentTokens = this.countTokens(entry.chunk.content);
+        const keptTokens = available - (tokens - contentTokens) - 4;
+        included.push({
+          chunk: {
+            ...entry.chunk,
+            content: `${this.trimToTokens(entry.chunk.content, keptTokens)}...`,
+          },
+          index: entry.index,
+        });
+        report.trimmedChunks.push({
+          id: entry.chunk.id,
+          title: entry.chunk.title,
+          originalTokens: contentTokens,
+          keptTokens,
+        });
+        used = budget;
+      } else {
+        report.droppedChunks.push({
+          id: entry.chunk.id,
+          title: entry.chunk.title,
+          score: entry.chunk.score,
+          tokens,
+        });
+      }
+    }
+
+    // Keep the most recent turns that still fit; once one doesn't, every
+    // older turn is dropped too
+    const keptHistory: LLMMessage[][] = [];
+    let historyFull = false;
+    for (let i = history.length - 1; i >= 0; i--) {
+      const tokens = history[i].reduce(
+        (total, message) => total + this.countMessage(message),
+        0,
+      );
+      if (!historyFull && used + tokens <= budget) {
+        keptHistory.unshift(history[i]);
+        used += tokens;
+      } else {
+        historyFull = true;
+        report.droppedMessages += history[i].length;
+      }
+    }
+
+    report.promptTokens = used;
+    report.includedChunks = included.length;
+
+    const renderedContext = included
+      .sort((a, b) => a.index - b.index)
+      .map((entry) => this.renderChunk(entry.chunk, flagged.has(entry.index)))
+      .join("\n\n");
+
+    return {
+      messages: [
+        ...this.insertContext(
+          systemMessages,
+          renderedContext,
+          context.length > 0,
+        ),
+        ...keptHistory.flat(),
+        ...latest,
+      ],
+      maxTokens: responseTokens,
+      report,
+    };
+  }
+
+  private renderChunk(chunk: ContextChunk, flagged: boolean): string {
+    return promptGuard.wrap(chunk.content, { title: chunk.title, flagged });
+  }
+
+  /**
+   * Cut text down to at most the given number of tokens
+   */
+  private trimToTokens(text: string, tokens: number): string {
+    const encoded = this.getEncoding().encode(text);
+    return this.getEncoding().decode(encoded.slice(0, Math.max(tokens, 0)));
+  }
+
+  /**
+   * Group an assistant message that called tools with the tool results that
+   * follow it, so a turn is never split
+   */
+  private groupTurns(messages: LLMMessage[]): LLMMessage[][] {
+    const turns: LLMMessage[][] = [];
+    for (const message of messages) {
+      if (message.role === "tool" && turns.length > 0) {
+        turns[turns.length - 1].push(message);
+      } else {
+        turns.push([message]);
+      }
+    }
+    return turns;
+  }
+
+  /**
+   * Put the rendered context at the placeholder in the system prompt, or
+   * after it
+   */
+  private insertContext(
+    systemMessages: LLMMessage[],
+    renderedContext: string,
+    hasContext: boolean,
+  ): LLMMessage[] {
+    const text = renderedContext
+      ? `${UNTRUSTED_CONTENT_NOTICE}\n\n${renderedContext}`
+      : "No relevant sources found for this query.";
+    const placeholderIndex = systemMessages.findIndex((message) =>
+      message.content.includes(CONTEXT_PLACEHOLDER),
+    );
+
+    if (placeholderIndex !== -1) {
+      return systemMessages.map((message, index) =>
+        index === placeholderIndex
+          ? {
+              ...message,
+              // A function, so `$&` and the like in sources stay as written
+              content: message.content.replace(CONTEXT_PLACEHOLDER, () => text),
+            }
+          : message,
+      );
+    }
+    if (!hasContext) return systemMessages;
+    if (systemMessages.length === 0) {
+      return [{ role: "system", content: `AVAILABLE CONTEXT:\n${text}` }];
+    }
+    return systemMessages.map((message, index) =>
+      index === 0
+        ? {
+            ...message,
+            content: `${message.content}\n\nAVAILABLE CONTEXT:\n${text}`,
+          }
+        : message,
+    );
+  }
+}
+
+export const contextBudget = new ContextBudget();
@@ -0,0 +1,60 @@
+import { CSVQueryService } from "./csvQueryService";
+
+const accounts = `account,status,reason
+Acme,churned,price
+Globex,active,
+Initech,churned,"support, onboarding"`;
+
+const csvSource = (id: string, noteId?: string) => ({
+  id,
+  title: `Accounts ${id}`,
+  noteId,
+  metadata: { type: "csv" as const },
+});
+
+describe("CSVQueryService", () => {
+  const service = async () => {
+    const csv = new CSVQueryService();
+    await csv.addCSVSource(csvSource("c1", "n1"), accounts);
+    await csv.addCSVSource(csvSource("c2", "n2"), accounts);
+    await csv.addCSVSource(csvSource("c3"), accounts);
+    return csv;
+  };
+
+  it("finds rows matching the question's terms", async () => {
+    const csv = await service();
+    const [result] = await csv.smartQuery("Show churned accounts", 3, {
+      noteId: "n1",
+    });
+
+    expect(result).toMatchObject({ sourceId: "c1", matchCount: 2 });
+    expect(result.matchingRows).toEqual([
+      { account: "Acme", status: "churned", reason: "price" },
+      { account: "Initech", status: "churned", reason: "support, onboarding" },
+    ]);
+  });
+
+  it("only searches the note's sources", async () => {
+    const csv = await service();
+    const sourceIds = async (scope: {
+      noteId?: string;
+      sourceIds?: string[];
+    }) =>
+      (await csv.smartQuery("churned", 3, scope))
+        .map((result) => result.sourceId)
+        .sort();
+
+    expect(await sourceIds({ noteId: "n2" })).toEqual(["c2"]);
+    expect(await sourceIds({ noteId: "n1", sourceIds: ["c2"] })).toEqual([]);
+    expect(await sourceIds({ sourceIds: ["c2", "c3"] })).toEqual(["c2", "c3"]);
+    expect(await sourceIds({})).toEqual(["c1", "c2", "c3"]);
+  });
+
+  it("follows sources to the note that now references them", async () => {
+    const csv = await service();
+    csv.syncNoteIds(new Map([["c3", "n1"]]));
+
+    const found = await csv.smartQuery("churned", 3, { noteId: "n1" });
+    expect(found.map((result) => result.sourceId)).toEqual(["c3"]);
+  });
+});
@@ -1,6 +1,12 @@
+import type { SearchScope } from "./vectorService";
+import { logger } from "../utils/logger";
+
+const log = logger.child("csv");
+
 interface SourceDocument {
   id: string;
   title: string;
+  noteId?: string;
   metadata: {
     type: "text" | "pdf" | "web" | "csv";
     [key: string]: any;
@@ -10,6 +16,7 @@ interface SourceDocument {
 interface CSVData {
   sourceId: string;
   title: string;
+  noteId: string; // Empty until a note references the source
   headers: string[];
   rows: Record<string, string>[];
 }
@@ -33,23 +40,25 @@ export class CSVQueryService {
     csvContent: string,
   ): Promise<void> {
     try {
-      console.log(`CSV Service: Adding CSV source ${source.id}`);
+      log.info("Adding CSV source", { sourceId: source.id });
 
       const parsedData = this.parseCSV(csvContent);
 
       const csvData: CSVData = {
         sourceId: source.id,
         title: source.title,
+        noteId: source.noteId || "",
         headers: parsedData.headers,
         rows: parsedData.rows,
       };
 
       this.csvSources.set(source.id, csvData);
-      console.log(
-        `CSV Service: Successfully added ${parsedData.rows.length} rows for source ${source.id}`,
-      );
+      log.info("Added CSV source", {
+        sourceId: source.id,
+        rows: parsedData.rows.length,
+      });
     } catch (error) {
-      console.error(`CSV Service: Failed to add source ${source.id}:`, error);
+      log.error("Failed to add CSV source", { sourceId: source.id, error });
       throw error;
     }
   }
@@ -60,7 +69,16 @@ export class CSVQueryService {
   removeCSVSource(sourceId: string): void {
     if (this.csvSources.has(sourceId)) {
       this.csvSources.delete(sourceId);
-      console.log(`CSV Service: Removed source ${sourceId}`);
+      log.debug("Removed CSV source", { sourceId });
+    }
+  }
+
+  /**
+   * Point each source at the note that references it
+   */
+  syncNoteIds(noteIdsBySource: Map<string, string>): void {
+    for (const [sourceId, csvData] of this.csvSources) {
+      csvData.noteId = noteIdsBySource.get(sourceId) || "";
     }
   }
 
@@ -120,16 +138,19 @@ export class CSVQueryService {
   }
 
   /**
-   * Smart query that searches across CSV data
+   * Smart query that searches across the CSV data in scope
    */
   async smartQuery(
     query: string,
     maxResults: number = 3,
+    scope: SearchScope = {},
   ): Promise<CSVQueryResult[]> {
     const searchTerms = this.extractSearchTerms(query);
     const results: CSVQueryResult[] = [];
 
     for (const [sourceId, csvData] of this.csvSources) {
+      if (!this.inScope(csvData, scope)) continue;
+
       const matchingRows = this.findMatchingRows(csvData, searchTerms);
 
       if (matchingRows.length > 0) {
@@ -149,6 +170,13 @@ export class CSVQueryService {
     return results.slice(0, maxResults);
   }
 
+  private inScope(csvData: CSVData, scope: SearchScope): boolean {
+    return (
+      (!scope.noteId || csvData.noteId === scope.noteId) &&
+      (!scope.sourceIds || scope.sourceIds.includes(csvData.sourceId))
+    );
+  }
+
   /**
    * Extract search terms from query
    */
@@ -205,14 +233,15 @@ export class CSVQueryService {
   }
 
   /**
-   * Query a specific CSV source
+   * Query a specific CSV source, if it's in scope
    */
   async querySource(
     sourceId: string,
     query: string,
+    scope: SearchScope = {},
   ): Promise<CSVQueryResult | null> {
     const csvData = this.csvSources.get(sourceId);
-    if (!csvData) {
+    if (!csvData || !this.inScope(csvData, scope)) {
       return null;
     }
 
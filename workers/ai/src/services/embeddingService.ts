@@ -0,0 +1,212 @@
+import OpenAI from "openai";
+import type { EmbeddingFunction } from "chromadb";
+import type { DefaultEmbeddingFunction } from "@chroma-core/default-embed";
+import { embeddingDuration } from "./metrics";
+import { logger } from "../utils/logger";
+
+const log = logger.child("embeddings");
+
+/**
+ * Where embeddings are computed: in-process on the CPU with an ONNX model
+ * (transformers), with the OpenAI API, or with the OpenAI-compatible server
+ * configured for the local LLM provider
+ */
+export const EMBEDDING_BACKENDS = ["transformers", "openai", "local"] as const;
+
+export type EmbeddingBackendName = (typeof EMBEDDING_BACKENDS)[number];
+
+/**
+ * Models used when EMBEDDING_MODEL isn't set. The transformers default is
+ * the model Chroma embeds with when it isn't given embeddings.
+ */
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingBackendName, string> = {
+  transformers: "Xenova/all-MiniLM-L6-v2",
+  openai: "text-embedding-3-small",
+  local: "nomic-embed-text",
+};
+
+/**
+ * Texts sent to a backend at once
+ */
+const MAX_BATCH_SIZE = 64;
+
+/**
+ * Turns texts into vectors with one model
+ */
+export interface EmbeddingBackend {
+  name: EmbeddingBackendName;
+  model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Runs an ONNX model from the Hugging Face hub on the CPU. The runtime is
+ * only loaded, and the model downloaded, on first use.
+ */
+export class TransformersEmbeddingBackend implements EmbeddingBackend {
+  name = "transformers" as const;
+  private embedder?: DefaultEmbeddingFunction;
+
+  constructor(public model: string) {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!this.embedder) {
+      const { DefaultEmbeddingFunction } =
+        await import("@chroma-core/default-embed");
+      this.embedder = new DefaultEmbeddingFunction({ modelName: this.model });
+    }
+    return this.embedder.generate(texts);
+  }
+}
+
+/**
+ * Calls the embeddings endpoint of the OpenAI API or of an OpenAI-compatible
+ * server
+ */
+export class OpenAIEmbeddingBackend implements EmbeddingBackend {
+  private client: OpenAI;
+
+  constructor(
+    public name: "openai" | "local",
+    public model: string,
+    options: { apiKey?: string; baseURL?: string },
+  ) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey || "not-needed",
+      baseURL: options.baseURL,
+      timeout: Number(process.env.LLM_REQUEST_TIMEOUT_MS) || 60000,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      // The SDK asks for base64 by default, which some local servers ignore
+      encoding_format: "float",
+    });
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
+
+/**
+ * Credentials the API backends are created from
+ */
+export interface EmbeddingCredentials {
+  openaiKey?: string;
+  localBaseUrl?: string;
+  localApiKey?: string;
+}
+
+/**
+ * Create the backend named by EMBEDDING_BACKEND
+ */
+export function createEmbeddingBackend(
+  name: string,
+  model: string | undefined,
+  credentials: EmbeddingCredentials,
+): EmbeddingBackend {
+  switch (name) {
+    case "transformers":
+      return new TransformersEmbeddingBackend(
+        model || DEFAULT_EMBEDDING_MODELS.transformers,
+      );
+    case "openai":
+      if (!credentials.openaiKey) {
+        throw new Error("The openai embedding backend needs an OpenAI API key");
+      }
+      return new OpenAIEmbeddingBackend(
+        "openai",
+        model || DEFAULT_EMBEDDING_MODELS.openai,
+        { apiKey: credentials.openaiKey },
+      );
+    case "local":
+      if (!credentials.localBaseUrl) {
+        throw new Error(
+          "The local embedding backend needs the local LLM base URL",
+        );
+      }
+      return new OpenAIEmbeddingBackend(
+        "local",
+        model || DEFAULT_EMBEDDING_MODELS.local,
+        {
+          apiKey: credentials.localApiKey,
+          baseURL: credentials.localBaseUrl,
+        },
+      );
+    default:
+      throw new Error(
+        `Unknown embedding backend "${name}", expected one of ${EMBEDDING_BACKENDS.join(", ")}`,
+      );
+  }
+}
+
+/**
+ * Embeddings for the vector index, the semantic cache and /api/embed. Every
+ * vector is computed with the configured backend, so the model can be
+ * chosen, recorded with what was embedded, and reused by other callers.
+ */
+export class EmbeddingService {
+  private backend: EmbeddingBackend = new TransformersEmbeddingBackend(
+    DEFAULT_EMBEDDING_MODELS.transformers,
+  );
+  private dimensions?: number;
+
+  configure(backend: EmbeddingBackend): void {
+    this.backend = backend;
+    this.dimensions = undefined;
+    log.info("Embedding model configured", { model: this.modelId });
+  }
+
+  /**
+   * Backend and model, such as `transformers:Xenova/all-MiniLM-L6-v2`.
+   * Stored with every chunk, since vectors from different models can't be
+   * compared.
+   */
+  get modelId(): string {
+    return `${this.backend.name}:${this.backend.model}`;
+  }
+
+  /**
+   * Vector length of the model, once it has embedded something
+   */
+  getDimensions(): number | undefined {
+    return this.dimensions;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+    for (let start = 0; start < texts.length; start += MAX_BATCH_SIZE) {
+      const batch = texts.slice(start, start + MAX_BATCH_SIZE);
+      const observe = embeddingDuration.startTimer({
+        backend: this.backend.name,
+      });
+      try {
+        embeddings.push(...(await this.backend.embed(batch)));
+      } finally {
+        log.debug("Embedded batch", {
+          model: this.modelId,
+          texts: batch.length,
+          durationMs: Math.round(observe() * 1000),
+        });
+      }
+    }
+    this.dimensions = embeddings[0]?.length ?? this.dimensions;
+    return embeddings;
+  }
+
+  /**
+   * This service as a Chroma embedding function, for collections to embed
+   * their documents and queries with
+   */
+  asEmbeddingFunction(): EmbeddingFunction {
+    return {
+      name: "tonkbook",
+      generate: (texts) => this.embed(texts),
+    };
+  }
+}
+
+export const embeddingService = new EmbeddingService();
@@ -1,6 +1,17 @@
 import { readDoc, listenToDoc, ls } from "@tonk/keepsync";
 import { vectorService } from "./vectorService";
 import { csvQueryService } from "./csvQueryService";
+import { promptGuard, InjectionFinding } from "./promptGuard";
+import { SOURCES_DOC_PATH } from "./ragService";
+import {
+  indexingDuration,
+  indexingFailuresTotal,
+  indexingThroughput,
+} from "./metrics";
+import type { Source } from "../types/source";
+import { logger } from "../utils/logger";
+
+const log = logger.child("indexing");
 
 interface SourceDocument {
   id?: string;
@@ -14,6 +25,16 @@ interface SourceDocument {
   [key: string]: any;
 }
 
+/**
+ * A source with text that looks like instructions aimed at the model
+ */
+export interface FlaggedSource {
+  sourceId: string;
+  title: string;
+  path: string;
+  findings: InjectionFinding[];
+}
+
 export class IndexingService {
   private listeners: Map<string, () => void> = new Map();
   private isInitialized = false;
@@ -41,10 +62,18 @@ export class IndexingService {
   // Content hash tracking for change detection
   private sourceContentHashes = new Map<string, string>();
 
+  // Sources that tripped the prompt injection detector, by document path
+  private flaggedSources = new Map<string, FlaggedSource>();
+
+  // Note each source document was added to, and the ID it's indexed under,
+  // by document path
+  private noteIdsByPath = new Map<string, string>();
+  private sourceIdsByPath = new Map<string, string>();
+
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
 
-    console.log("Indexing Service: Initializing...");
+    log.info("Initializing");
 
     // Initialize vector service
     await vectorService.initialize();
@@ -53,8 +82,11 @@ export class IndexingService {
     // (Vector sources will be added as they're discovered and indexed)
     await this.initializeTrackedSources();
 
+    // Before indexing starts, so new chunks are stored with their note
+    await this.watchSourceNotes();
+
     this.isInitialized = true;
-    console.log("Indexing Service: Initialized");
+    log.info("Initialized");
   }
 
   /**
@@ -77,11 +109,12 @@ export class IndexingService {
       // Initialize content hashes for existing sources by reading current documents
       await this.initializeContentHashes();
 
-      console.log(
-        `Indexing Service: Initialized tracking for ${existingVectorSources.size} vector sources and ${existingCsvSources.length} CSV sources`,
-      );
+      log.info("Initialized source tracking", {
+        vectorSources: existingVectorSources.size,
+        csvSources: existingCsvSources.length,
+      });
     } catch (error) {
-      console.warn("Failed to initialize tracked sources:", error);
+      log.warn("Failed to initialize tracked sources", { error });
     }
   }
 
@@ -108,12 +141,71 @@ export class IndexingService {
               this.hasContentChanged(sourceId, content);
             }
           } catch (error) {
-            console.warn(`Failed to read document ${fullPath} for hash initialization:`, error);
+            log.warn("Failed to read document for hash initialization", { path: fullPath, error });
           }
         }
       }
     } catch (error) {
-      console.warn("Failed to initialize content hashes:", error);
+      log.warn("Failed to initialize content hashes", { error });
+    }
+  }
+
+  /**
+   * Follow which note each source document belongs to, so searches can be
+   * limited to a note. A document referenced by several notes belongs to
+   * the first one that added it.
+   */
+  private async watchSourceNotes(): Promise<void> {
+    try {
+      const unsubscribe = await listenToDoc(
+        SOURCES_DOC_PATH,
+        async (payload: any) => {
+          await this.updateNoteIds(payload.doc?.sources || []);
+        },
+      );
+      this.listeners.set(SOURCES_DOC_PATH, unsubscribe);
+
+      const sourcesDoc = await readDoc<{ sources?: Source[] }>(
+        SOURCES_DOC_PATH,
+      );
+      await this.updateNoteIds(sourcesDoc?.sources || []);
+    } catch (error) {
+      log.warn("Failed to watch note sources", { error });
+    }
+  }
+
+  /**
+   * Record the note of every source document and update the indexed
+   * sources whose note changed
+   */
+  private async updateNoteIds(sources: Source[]): Promise<void> {
+    const noteIdsByPath = new Map<string, string>();
+    for (const source of sources) {
+      const path = source.path?.replace(/^\//, "");
+      if (path && source.noteId && !noteIdsByPath.has(path)) {
+        noteIdsByPath.set(path, source.noteId);
+      }
+    }
+    this.noteIdsByPath = noteIdsByPath;
+    await this.syncNoteIds();
+  }
+
+  /**
+   * Update the indexed sources to the notes last read from keepsync
+   */
+  private async syncNoteIds(): Promise<void> {
+    const noteIdsBySource = new Map<string, string>();
+    for (const [path, noteId] of this.noteIdsByPath) {
+      const sourceId =
+        this.sourceIdsByPath.get(path) || path.replace(/\//g, "_");
+      noteIdsBySource.set(sourceId, noteId);
+    }
+
+    csvQueryService.syncNoteIds(noteIdsBySource);
+    try {
+      await vectorService.syncNoteIds(noteIdsBySource);
+    } catch (error) {
+      log.warn("Failed to update the notes of indexed chunks", { error });
     }
   }
 
@@ -122,7 +214,7 @@ export class IndexingService {
    */
   async watchSourceDocument(documentPath: string): Promise<void> {
     if (this.listeners.has(documentPath)) {
-      console.log(`Already watching ${documentPath}`);
+      log.debug("Already watching document", { path: documentPath });
       return;
     }
 
@@ -137,19 +229,20 @@ export class IndexingService {
             
             // Only re-index if content has actually changed
             if (this.hasContentChanged(sourceId, content)) {
-              console.log(`Source document content changed: ${documentPath}`);
+              log.info("Source document content changed", { path: documentPath });
+              this.scanForInjection(doc, documentPath);
               this.pendingIndexing.add(documentPath);
               this.lastIndexingActivity = new Date();
               await this.indexSource(doc, documentPath);
             } else {
-              console.log(`Source document updated but content unchanged: ${documentPath}`);
+              log.debug("Source document updated but content unchanged", { path: documentPath });
             }
           }
         },
       );
 
       this.listeners.set(documentPath, unsubscribe);
-      console.log(`Indexing Service: Started watching ${documentPath}`);
+      log.debug("Started watching document", { path: documentPath });
 
       // Also index the current document if it exists
       const currentDoc = await readDoc<SourceDocument>(documentPath);
@@ -157,6 +250,9 @@ export class IndexingService {
         const sourceId = currentDoc.id || documentPath.replace(/\//g, "_");
         const sourceType = currentDoc.metadata?.type || "text";
 
+        // Scanned even when already indexed, since flags aren't persisted
+        this.scanForInjection(currentDoc, documentPath);
+
         // Check if already tracked to avoid re-indexing during startup
         const isAlreadyTracked =
           (sourceType === "csv" && this.indexedCsvSources.has(sourceId)) ||
@@ -168,21 +264,22 @@ export class IndexingService {
 
         if (!isAlreadyTracked || contentHasChanged) {
           if (isAlreadyTracked && contentHasChanged) {
-            console.log(`Content changed for ${documentPath}, re-indexing...`);
+            log.info("Content changed, re-indexing", { path: documentPath });
           } else {
-            console.log(`Indexing new document: ${documentPath}`);
+            log.info("Indexing new document", { path: documentPath });
           }
           this.pendingIndexing.add(documentPath);
           this.lastIndexingActivity = new Date();
           await this.indexSource(currentDoc, documentPath);
         } else {
-          console.log(
-            `Document already indexed and unchanged: ${documentPath} (${sourceId})`,
-          );
+          log.debug("Document already indexed and unchanged", {
+            path: documentPath,
+            sourceId,
+          });
         }
       }
     } catch (error) {
-      console.error(`Failed to watch source document ${documentPath}:`, error);
+      log.error("Failed to watch source document", { path: documentPath, error });
     }
   }
 
@@ -194,8 +291,35 @@ export class IndexingService {
     if (unsubscribe) {
       unsubscribe();
       this.listeners.delete(documentPath);
-      console.log(`Indexing Service: Stopped watching ${documentPath}`);
+      log.debug("Stopped watching document", { path: documentPath });
+    }
+  }
+
+  /**
+   * Check a source for instruction-like text, so the app can warn about it.
+   * Web pages are scanned as markdown, which is what the reader sees.
+   */
+  private scanForInjection(doc: SourceDocument, documentPath: string): void {
+    const content = doc.markdown || doc.content || doc.rawCsvContent || "";
+    const findings = promptGuard.detect(content);
+
+    if (findings.length === 0) {
+      this.flaggedSources.delete(documentPath);
+      return;
     }
+
+    const sourceId = doc.id || documentPath.replace(/\//g, "_");
+    log.warn("Source contains instruction-like text", {
+      sourceId,
+      path: documentPath,
+      patterns: findings.map((finding) => finding.pattern),
+    });
+    this.flaggedSources.set(documentPath, {
+      sourceId,
+      title: doc.title || documentPath.split("/").pop() || "Unknown",
+      path: documentPath,
+      findings,
+    });
   }
 
   /**
@@ -240,7 +364,7 @@ export class IndexingService {
   private async calculateTotalBatches(): Promise<void> {
     if (this.batchCalculationComplete) return;
 
-    console.log("Indexing Service: Pre-calculating total batches...");
+    log.debug("Pre-calculating total batches");
     let totalChunks = 0;
     const batchSize = 25; // Same as vector service batch size
 
@@ -268,20 +392,21 @@ export class IndexingService {
                 // Calculate chunks for vector sources
                 const chunkCount = vectorService.calculateChunkCount(
                   doc.content!,
+                  { type: sourceType, ...doc.metadata },
                 );
                 totalChunks += chunkCount;
-                console.log(`Calculated ${chunkCount} chunks for ${fullPath}`);
+                log.debug("Calculated chunks", { path: fullPath, chunks: chunkCount });
               } else if (sourceType === "csv") {
                 // CSV sources are treated as 1 "batch" each
                 totalChunks += 1;
-                console.log(`CSV source ${fullPath} counts as 1 batch`);
+                log.debug("CSV source counts as 1 batch", { path: fullPath });
               }
             }
           } catch (error) {
-            console.warn(
-              `Failed to read document ${fullPath} for batch calculation:`,
+            log.warn("Failed to read document for batch calculation", {
+              path: fullPath,
               error,
-            );
+            });
           }
         }
       }
@@ -289,11 +414,12 @@ export class IndexingService {
       this.totalBatches = Math.ceil(totalChunks / batchSize);
       this.batchCalculationComplete = true;
 
-      console.log(
-        `Indexing Service: Pre-calculated ${totalChunks} total chunks = ${this.totalBatches} batches`,
-      );
+      log.info("Pre-calculated batches", {
+        totalChunks,
+        totalBatches: this.totalBatches,
+      });
     } catch (error) {
-      console.error("Failed to calculate total batches:", error);
+      log.error("Failed to calculate total batches", { error });
       // Fallback to 0, will calculate dynamically if needed
       this.totalBatches = 0;
     }
@@ -306,21 +432,29 @@ export class IndexingService {
     doc: SourceDocument,
     documentPath: string,
   ): Promise<void> {
+    const sourceType = doc.metadata?.type || "text";
+    const observeDuration = indexingDuration.startTimer({
+      source_type: sourceType,
+    });
     try {
       const sourceId = doc.id || documentPath.replace(/\//g, "_");
-      const sourceType = doc.metadata?.type || "text";
       const title = doc.title || documentPath.split("/").pop() || "Unknown";
 
-      console.log(
-        `Indexing source ${sourceId} of type ${sourceType} from ${documentPath}`,
-      );
+      log.info("Indexing source", {
+        sourceId,
+        sourceType,
+        path: documentPath,
+      });
 
       // Create a standardized source object
+      const noteId = this.noteIdsByPath.get(documentPath);
       const source = {
         id: sourceId,
         title: title,
+        noteId,
         metadata: { type: sourceType as any, ...doc.metadata },
       };
+      this.sourceIdsByPath.set(documentPath, sourceId);
 
       // Track the starting batch count for this source
       const startingBatchCount = this.processedBatches;
@@ -345,21 +479,21 @@ export class IndexingService {
         this.lastIndexingActivity = new Date();
       };
 
+      // Chunks added to the vector database
+      let chunkCount = 0;
+
       switch (sourceType) {
         case "text":
         case "pdf":
         case "web":
-          await vectorService.addDocument(
+          chunkCount = await vectorService.addDocument(
             source,
             doc.content!,
             onBatchProgress,
           );
           this.indexedVectorSources.add(sourceId);
           // Ensure the processed batches count reflects all batches for this source
-          const finalChunkCount = vectorService.calculateChunkCount(
-            doc.content!,
-          );
-          const finalBatchCount = Math.ceil(finalChunkCount / 25);
+          const finalBatchCount = Math.ceil(chunkCount / 25);
           this.processedBatches = startingBatchCount + finalBatchCount;
           break;
         case "csv":
@@ -378,35 +512,45 @@ export class IndexingService {
               processedChunks: 1,
             };
           } else {
-            console.warn(
-              `No rawCsvContent or content found for CSV source ${sourceId}`,
-            );
+            log.warn("No rawCsvContent or content found for CSV source", {
+              sourceId,
+            });
           }
           break;
         default:
           // Default to text indexing for unknown types
-          await vectorService.addDocument(
+          chunkCount = await vectorService.addDocument(
             { ...source, metadata: { type: "text" as any } },
             doc.content!,
             onBatchProgress,
           );
           this.indexedVectorSources.add(sourceId);
           // Ensure the processed batches count reflects all batches for this source
-          const defaultFinalChunkCount = vectorService.calculateChunkCount(
-            doc.content!,
-          );
-          const defaultFinalBatchCount = Math.ceil(defaultFinalChunkCount / 25);
+          const defaultFinalBatchCount = Math.ceil(chunkCount / 25);
           this.processedBatches = startingBatchCount + defaultFinalBatchCount;
           break;
       }
 
-      console.log(`Successfully indexed source ${sourceId}`);
+      // The source was added to a note while it was being indexed
+      if (this.noteIdsByPath.get(documentPath) !== noteId) {
+        await this.syncNoteIds();
+      }
+
+      const seconds = observeDuration();
+      log.info("Indexed source", {
+        sourceId,
+        durationMs: Math.round(seconds * 1000),
+      });
+      if (chunkCount > 0 && seconds > 0) {
+        indexingThroughput.set({}, chunkCount / seconds);
+      }
 
       // Remove from pending
       this.pendingIndexing.delete(documentPath);
       this.lastIndexingActivity = new Date();
     } catch (error) {
-      console.error(`Failed to index source from ${documentPath}:`, error);
+      log.error("Failed to index source", { path: documentPath, error });
+      indexingFailuresTotal.inc({ source_type: sourceType });
       // Remove from pending even if failed to avoid stuck state
       this.pendingIndexing.delete(documentPath);
     }
@@ -416,7 +560,7 @@ export class IndexingService {
    * Watch for source documents in the tonkbook data directory
    */
   async watchSourcesDirectory(): Promise<void> {
-    console.log("Indexing Service: Setting up directory monitoring...");
+    log.info("Setting up directory monitoring");
 
     // Scan and index existing documents in /tonkbook/data
     await this.scanAndIndexExistingDocs();
@@ -426,7 +570,7 @@ export class IndexingService {
       await this.scanAndIndexExistingDocs();
     }, 30000); // Check every 30 seconds
 
-    console.log("Indexing Service: Directory monitoring active");
+    log.info("Directory monitoring active");
   }
 
   /**
@@ -434,22 +578,22 @@ export class IndexingService {
    */
   private async scanAndIndexExistingDocs(): Promise<void> {
     try {
-      console.log("Scanning /tonkbook/data for documents...");
+      log.debug("Scanning for documents", { path: "tonkbook/data" });
 
       // Try to list documents in the tonkbook/data path
       const dataPath = "tonkbook/data";
       try {
         const docNode = await ls(dataPath);
-        console.log(`ls result for ${dataPath}:`, docNode);
 
         // Handle DocNode structure
         if (docNode && docNode.children) {
           const children = docNode.children;
           const docChildren = children.filter((child) => child.type === "doc");
           this.totalSourcesFound = docChildren.length;
-          console.log(
-            `Found ${docChildren.length} source documents in ${dataPath}`,
-          );
+          log.debug("Found source documents", {
+            path: dataPath,
+            documents: docChildren.length,
+          });
 
           // Pre-calculate total batches before starting indexing
           await this.calculateTotalBatches();
@@ -457,7 +601,7 @@ export class IndexingService {
           for (const child of docChildren) {
             const fullPath = `${dataPath}/${child.name}`;
             if (!this.watchedPaths.has(fullPath)) {
-              console.log(`Setting up watch for document: ${fullPath}`);
+              log.info("Found new document", { path: fullPath });
               this.pendingIndexing.add(fullPath);
               this.lastIndexingActivity = new Date();
               await this.watchSourceDocument(fullPath);
@@ -465,25 +609,33 @@ export class IndexingService {
             }
           }
         } else {
-          console.log("No children found in DocNode or invalid structure");
+          log.debug("No documents found", { path: dataPath });
         }
       } catch (error) {
-        console.log(
-          "No documents found in /tonkbook/data or path doesn't exist yet:",
-          error.message,
-        );
+        log.debug("No documents found or path doesn't exist yet", {
+          path: dataPath,
+          error,
+        });
       }
     } catch (error) {
-      console.error("Error scanning for documents:", error);
+      log.error("Error scanning for documents", { error });
     }
   }
 
+  /**
+   * Number of source documents waiting to be indexed
+   */
+  getPendingCount(): number {
+    return this.pendingIndexing.size;
+  }
+
   /**
    * Get indexing statistics with batch-level progress
    */
   async getStats(): Promise<{
     vectorSources: { count: number };
     csvSources: { count: number; sources: string[] };
+    flaggedSources: FlaggedSource[];
     progress: {
       pendingCount: number;
       indexedCount: number;
@@ -531,6 +683,7 @@ export class IndexingService {
         count: csvSourceCount,
         sources: csvSources,
       },
+      flaggedSources: Array.from(this.flaggedSources.values()),
       progress: {
         pendingCount,
         indexedCount: totalIndexed,
@@ -551,10 +704,9 @@ export class IndexingService {
    * Clean up all listeners
    */
   cleanup(): void {
-    console.log("Indexing Service: Cleaning up listeners...");
-    for (const [path, unsubscribe] of this.listeners) {
+    log.info("Cleaning up listeners", { listeners: this.listeners.size });
+    for (const unsubscribe of this.listeners.values()) {
       unsubscribe();
-      console.log(`Stopped watching ${path}`);
     }
     this.listeners.clear();
   }
@@ -0,0 +1,81 @@
+import { KeywordChunk, KeywordIndex, tokenize } from "./keywordIndex";
+
+const chunk = (
+  id: string,
+  content: string,
+  sourceId = "s1",
+  noteId?: string,
+): KeywordChunk => ({ id, content, metadata: { sourceId, noteId } });
+
+describe("tokenize", () => {
+  it("lowercases runs of letters and digits, keeping short terms", () => {
+    expect(tokenize("Q3 revenue: €1.2M, Café-au-lait!")).toEqual([
+      "q3",
+      "revenue",
+      "1",
+      "2m",
+      "café",
+      "au",
+      "lait",
+    ]);
+  });
+});
+
+describe("KeywordIndex", () => {
+  const build = () => {
+    const index = new KeywordIndex();
+    index.add([
+      chunk("a", "churn rose in Q3 as churn in EMEA doubled"),
+      chunk("b", "revenue grew in Q3", "s1", "n1"),
+      chunk("c", "churn", "s2", "n2"),
+      chunk("d", "unrelated text about onboarding", "s2", "n2"),
+    ]);
+    return index;
+  };
+
+  it("scores matches with BM25", () => {
+    const [match] = build().search("onboarding", 1);
+    // One of four chunks has the term, once, in 4 of the index's 18 terms
+    const idf = Math.log(1 + (4 - 1 + 0.5) / (1 + 0.5));
+    const lengthNorm = 1 - 0.75 + (0.75 * 4) / (18 / 4);
+    expect(match.chunk.id).toBe("d");
+    expect(match.score).toBeCloseTo((idf * 2.2) / (1 + 1.2 * lengthNorm));
+  });
+
+  it("ranks chunks by term frequency, rarity and length", () => {
+    const ids = build()
+      .search("churn q3", 10)
+      .map((match) => match.chunk.id);
+    expect(ids).toEqual(["a", "c", "b"]);
+  });
+
+  it("keeps only the chunks the filter accepts, and the best topK", () => {
+    const index = build();
+    expect(
+      index
+        .search("churn q3", 10, ({ metadata }) => metadata.noteId === "n2")
+        .map((match) => match.chunk.id),
+    ).toEqual(["c"]);
+    expect(index.search("churn q3", 1)).toHaveLength(1);
+  });
+
+  it("replaces chunks with the same ID and removes sources", () => {
+    const index = build();
+    index.add([chunk("c", "pricing", "s2", "n2")]);
+    expect(index.size).toBe(4);
+    expect(index.search("pricing", 5).map((match) => match.chunk.id)).toEqual([
+      "c",
+    ]);
+
+    index.removeSource("s1");
+    expect(index.size).toBe(2);
+    expect(index.search("churn revenue", 5)).toEqual([]);
+  });
+
+  it("updates metadata without reindexing terms", () => {
+    const index = build();
+    index.updateMetadata(["b"], [{ sourceId: "s1", noteId: "n9" }]);
+    const [match] = index.search("revenue", 1);
+    expect(match.chunk.metadata.noteId).toBe("n9");
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * BM25 term frequency saturation and length normalization
+ */
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * A chunk as stored in the keyword index, with the same ID and metadata
+ * as in the vector database
+ */
+export interface KeywordChunk {
+  id: string;
+  content: string;
+  metadata: { sourceId: string; noteId?: string; [key: string]: any };
+}
+
+export interface KeywordMatch {
+  chunk: KeywordChunk;
+  score: number; // BM25, unbounded
+}
+
+interface IndexedChunk {
+  chunk: KeywordChunk;
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Lowercased runs of letters and digits. Short terms are kept, since
+ * acronyms and identifiers such as "Q3" are what keyword search is for.
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * In-memory BM25 index over source chunks. It finds exact identifiers,
+ * acronyms and names that embeddings tend to miss.
+ */
+export class KeywordIndex {
+  private chunks: Map<string, IndexedChunk> = new Map();
+  private chunkIdsBySource: Map<string, Set<string>> = new Map();
+  private postings: Map<string, Set<string>> = new Map();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.chunks.size;
+  }
+
+  /**
+   * Add chunks, replacing any already indexed with the same ID
+   */
+  add(chunks: KeywordChunk[]): void {
+    for (const chunk of chunks) {
+      this.removeChunk(chunk.id);
+
+      const terms = tokenize(chunk.content);
+      const termFrequencies = new Map<string, number>();
+      for (const term of terms) {
+        termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+      }
+      for (const term of termFrequencies.keys()) {
+        let chunkIds = this.postings.get(term);
+        if (!chunkIds) {
+          chunkIds = new Set();
+          this.postings.set(term, chunkIds);
+        }
+        chunkIds.add(chunk.id);
+      }
+
+      this.chunks.set(chunk.id, {
+        chunk,
+        termFrequencies,
+        length: terms.length,
+      });
+      this.totalLength += terms.length;
+
+      const sourceId = chunk.metadata.sourceId;
+      let sourceChunks = this.chunkIdsBySource.get(sourceId);
+      if (!sourceChunks) {
+        sourceChunks = new Set();
+        this.chunkIdsBySource.set(sourceId, sourceChunks);
+      }
+      sourceChunks.add(chunk.id);
+    }
+  }
+
+  /**
+   * Remove every chunk of a source
+   */
+  removeSource(sourceId: string): void {
+    for (const chunkId of this.chunkIdsBySource.get(sourceId) || []) {
+      this.removeChunk(chunkId);
+    }
+    this.chunkIdsBySource.delete(sourceId);
+  }
+
+  /**
+   * Replace the metadata of indexed chunks, keeping their terms
+   */
+  updateMetadata(ids: string[], metadatas: KeywordChunk["metadata"][]): void {
+    ids.forEach((id, index) => {
+      const indexed = this.chunks.get(id);
+      if (indexed) indexed.chunk.metadata = metadatas[index];
+    });
+  }
+
+  /**
+   * The best matching chunks among those the filter accepts, by BM25 score
+   */
+  search(
+    query: string,
+    topK: number,
+    filter: (chunk: KeywordChunk) => boolean = () => true,
+  ): KeywordMatch[] {
+    const count = this.chunks.size;
+    if (count === 0) return [];
+    const averageLength = this.totalLength / count || 1;
+
+    const scores = new Map<string, number>();
+    for (const term of new Set(tokenize(query))) {
+      const chunkIds = this.postings.get(term);
+      if (!chunkIds) continue;
+      const idf = Math.log(
+        1 + (count - chunkIds.size + 0.5) / (chunkIds.size + 0.5),
+      );
+      for (const chunkId of chunkIds) {
+        const indexed = this.chunks.get(chunkId)!;
+        const frequency = indexed.termFrequencies.get(term)!;
+        const saturated =
+          (frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + (B * indexed.length) / averageLength));
+        scores.set(chunkId, (scores.get(chunkId) || 0) + idf * saturated);
+      }
+    }
+
+    const matches: KeywordMatch[] = [];
+    for (const [chunkId, score] of scores) {
+      const { chunk } = this.chunks.get(chunkId)!;
+      if (filter(chunk)) matches.push({ chunk, score });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  clear(): void {
+    this.chunks.clear();
+    this.chunkIdsBySource.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  private removeChunk(chunkId: string): void {
+    const indexed = this.chunks.get(chunkId);
+    if (!indexed) return;
+
+    for (const term of indexed.termFrequencies.keys()) {
+      const chunkIds = this.postings.get(term);
+      chunkIds?.delete(chunkId);
+      if (chunkIds?.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= indexed.length;
+    this.chunks.delete(chunkId);
+    this.chunkIdsBySource.get(indexed.chunk.metadata.sourceId)?.delete(chunkId);
+  }
+}
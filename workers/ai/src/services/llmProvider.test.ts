@@ -0,0 +1,402 @@
+import OpenAI from "openai";
+import {
+  AnthropicProvider,
+  LLMProvider,
+  LLMRequest,
+  LLMService,
+  LLMStreamOptions,
+  LLMUsage,
+  OpenAICompatibleProvider,
+  OpenAIProvider,
+} from "./llmProvider";
+
+// SDK clients whose calls are answered by the tests. The error classes stay
+// real, since retries and fallbacks check for them.
+jest.mock("openai", () => {
+  const { APIConnectionError, APIUserAbortError } =
+    jest.requireActual("openai");
+  const create = jest.fn();
+  const list = jest.fn();
+  const client = jest.fn(() => ({
+    chat: { completions: { create } },
+    models: { list },
+  }));
+  return {
+    __esModule: true,
+    default: Object.assign(client, { APIConnectionError, APIUserAbortError }),
+    create,
+    list,
+  };
+});
+jest.mock("@anthropic-ai/sdk", () => {
+  const { APIConnectionError, APIUserAbortError } =
+    jest.requireActual("@anthropic-ai/sdk");
+  const create = jest.fn();
+  const client = jest.fn(() => ({ messages: { create } }));
+  return {
+    __esModule: true,
+    default: Object.assign(client, { APIConnectionError, APIUserAbortError }),
+    create,
+  };
+});
+
+const openai = jest.requireMock("openai") as {
+  create: jest.Mock;
+  list: jest.Mock;
+};
+const anthropic = jest.requireMock("@anthropic-ai/sdk") as {
+  create: jest.Mock;
+};
+
+/**
+ * Provider whose stream yields the given chunks, reports the given usage,
+ * then throws the given error
+ */
+const streamingProvider = (
+  name: string,
+  script: { chunks?: string[]; usage?: LLMUsage; error?: Error },
+): LLMProvider => ({
+  name,
+  models: ["model"],
+  defaultModel: "model",
+  isConfigured: () => true,
+  complete: async () => {
+    throw new Error("not used");
+  },
+  async *stream(_request: LLMRequest, options: LLMStreamOptions = {}) {
+    for (const chunk of script.chunks || []) yield chunk;
+    if (script.usage) options.onUsage?.(script.usage, "model");
+    if (script.error) throw script.error;
+  },
+});
+
+const refused = (status: number) =>
+  Object.assign(new Error(`HTTP ${status}`), { status });
+
+const request: LLMRequest = {
+  messages: [{ role: "user", content: "How did churn change in Q3?" }],
+};
+
+/**
+ * Stream a request to the end, returning the text and the usage reported
+ */
+const streamAll = async (service: LLMService, signal?: AbortSignal) => {
+  const reported: Array<{ usage: LLMUsage; provider?: string }> = [];
+  let text = "";
+  let error: unknown;
+  try {
+    for await (const chunk of service.stream(request, undefined, {
+      signal,
+      onUsage: (usage, _model, provider) => reported.push({ usage, provider }),
+    })) {
+      text += chunk;
+    }
+  } catch (caught) {
+    error = caught;
+  }
+  return { text, reported, error };
+};
+
+describe("LLMService.stream usage", () => {
+  const service = (...providers: LLMProvider[]) => {
+    const llm = new LLMService();
+    providers.forEach((provider) => llm.addProvider(provider));
+    llm.setRetryPolicy({ maxRetries: 0 });
+    return llm;
+  };
+
+  it("reports the usage the provider sent", async () => {
+    const usage = { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 };
+    const { text, reported } = await streamAll(
+      service(streamingProvider("a", { chunks: ["Churn ", "rose."], usage })),
+    );
+    expect(text).toBe("Churn rose.");
+    expect(reported).toEqual([{ usage, provider: "a" }]);
+  });
+
+  it("estimates the usage of a provider that answered without reporting it", async () => {
+    const { reported } = await streamAll(
+      service(streamingProvider("a", { chunks: ["Churn rose."] })),
+    );
+    expect(reported).toHaveLength(1);
+    expect(reported[0].usage.prompt_tokens).toBeGreaterThan(0);
+    expect(reported[0].usage.completion_tokens).toBeGreaterThan(0);
+  });
+
+  it.each([401, 429])(
+    "reports no usage when every provider refused with %i",
+    async (status) => {
+      const { reported, error } = await streamAll(
+        service(
+          streamingProvider("a", { error: refused(status) }),
+          streamingProvider("b", { error: refused(status) }),
+        ),
+      );
+      expect(error).toBeDefined();
+      expect(reported).toEqual([]);
+    },
+  );
+
+  it("only counts the provider that answered after a fallback", async () => {
+    const llm = service(
+      streamingProvider("a", { error: refused(503) }),
+      streamingProvider("b", { chunks: ["Churn rose."] }),
+    );
+    llm.setFallbacks([{ provider: "b" }]);
+    const { text, reported } = await streamAll(llm);
+    expect(text).toBe("Churn rose.");
+    expect(reported.map((entry) => entry.provider)).toEqual(["b"]);
+  });
+});
+
+describe("LLMService provider selection", () => {
+  it("defaults to the first configured provider", () => {
+    const llm = new LLMService();
+    llm.addProvider(new OpenAIProvider());
+    llm.addProvider(new AnthropicProvider("sk-ant-key"));
+    llm.addProvider(new OpenAICompatibleProvider("http://localhost:11434/v1"));
+
+    expect(llm.getProvider()?.name).toBe("anthropic");
+    expect(
+      llm.getAvailableProviders().map(({ name, configured, isDefault }) => ({
+        name,
+        configured,
+        isDefault,
+      })),
+    ).toEqual([
+      { name: "openai", configured: false, isDefault: false },
+      { name: "anthropic", configured: true, isDefault: true },
+      { name: "local", configured: true, isDefault: false },
+    ]);
+    expect(() => llm.setDefaultProvider("nope")).toThrow(
+      "Unknown provider: nope",
+    );
+  });
+
+  it("sends a request to the provider it names", async () => {
+    const llm = new LLMService();
+    llm.addProvider(streamingProvider("a", {}));
+    const b = streamingProvider("b", {});
+    b.complete = async () => ({
+      content: "from b",
+      model: "model",
+      provider: "b",
+    });
+    llm.addProvider(b);
+
+    expect((await llm.complete(request, "b")).content).toBe("from b");
+    await expect(llm.complete(request, "nope")).rejects.toThrow(
+      "No nope provider available",
+    );
+  });
+});
+
+describe("AnthropicProvider", () => {
+  beforeEach(() => anthropic.create.mockReset());
+
+  it("sends system prompts as a field and tool results as one user turn", async () => {
+    anthropic.create.mockResolvedValue({
+      content: [
+        { type: "text", text: "Churn rose." },
+        { type: "tool_use", id: "t2", name: "search", input: { q: "Q4" } },
+      ],
+      usage: { input_tokens: 20, output_tokens: 5 },
+      model: "claude-3-5-haiku-latest",
+    });
+
+    const response = await new AnthropicProvider("sk-ant-key").complete({
+      model: "claude-3-5-haiku-latest",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Churn?" },
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [
+            { id: "t1", name: "search", arguments: { q: "Q3" } },
+            { id: "t0", name: "search", arguments: { q: "Q2" } },
+          ],
+        },
+        { role: "tool", content: "Q3 results", tool_call_id: "t1" },
+        { role: "tool", content: "Q2 results", tool_call_id: "t0" },
+      ],
+    });
+
+    const params = anthropic.create.mock.calls[0][0];
+    expect(params.system).toBe("Be brief.");
+    expect(params.max_tokens).toBe(1024);
+    expect(params.messages).toEqual([
+      { role: "user", content: "Churn?" },
+      {
+        role: "assistant",
+        content: [
+          { type: "tool_use", id: "t1", name: "search", input: { q: "Q3" } },
+          { type: "tool_use", id: "t0", name: "search", input: { q: "Q2" } },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          { type: "tool_result", tool_use_id: "t1", content: "Q3 results" },
+          { type: "tool_result", tool_use_id: "t0", content: "Q2 results" },
+        ],
+      },
+    ]);
+    expect(response).toEqual({
+      content: "Churn rose.",
+      usage: { prompt_tokens: 20, completion_tokens: 5, total_tokens: 25 },
+      model: "claude-3-5-haiku-latest",
+      provider: "anthropic",
+      tool_calls: [{ id: "t2", name: "search", arguments: { q: "Q4" } }],
+    });
+  });
+
+  it("fails without an API key", async () => {
+    const provider = new AnthropicProvider();
+    expect(provider.isConfigured()).toBe(false);
+    await expect(provider.complete(request)).rejects.toThrow(
+      "Anthropic client not configured",
+    );
+  });
+});
+
+describe("OpenAICompatibleProvider", () => {
+  beforeEach(() => {
+    openai.create.mockReset();
+    openai.list.mockReset();
+  });
+
+  it("connects to the base URL without requiring a key", () => {
+    new OpenAICompatibleProvider("http://localhost:8080/v1");
+    expect(OpenAI).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        baseURL: "http://localhost:8080/v1",
+        apiKey: "not-needed",
+      }),
+    );
+  });
+
+  it("uses the first model the server lists by default", async () => {
+    openai.list.mockResolvedValue({
+      data: [{ id: "llama3.1:8b" }, { id: "qwen2.5:7b" }],
+    });
+    openai.create.mockResolvedValue({
+      choices: [{ message: { content: "Churn rose." } }],
+      model: "llama3.1:8b",
+    });
+    const provider = new OpenAICompatibleProvider(
+      "http://localhost:11434/v1",
+      undefined,
+      "ollama",
+    );
+
+    await expect(provider.complete(request)).rejects.toThrow(
+      "No model specified and none discovered at http://localhost:11434/v1",
+    );
+    expect(await provider.loadModels()).toEqual(["llama3.1:8b", "qwen2.5:7b"]);
+    expect(await provider.complete(request)).toMatchObject({
+      content: "Churn rose.",
+      provider: "ollama",
+    });
+    expect(openai.create.mock.calls[0][0].model).toBe("llama3.1:8b");
+  });
+});
+
+describe("LLMService.stream cancellation", () => {
+  /**
+   * Provider that streams until the request's signal is aborted
+   */
+  const untilAborted = (name: string) => {
+    const seen = {
+      signal: undefined as AbortSignal | undefined,
+      closed: false,
+    };
+    const provider: LLMProvider = {
+      ...streamingProvider(name, {}),
+      async *stream(_request: LLMRequest, options: LLMStreamOptions = {}) {
+        seen.signal = options.signal;
+        try {
+          for (let i = 0; ; i++) {
+            if (options.signal?.aborted) throw new Error("Request was aborted");
+            yield `word${i} `;
+            await new Promise((resolve) => setImmediate(resolve));
+          }
+        } finally {
+          seen.closed = true;
+        }
+      },
+    };
+    return { provider, seen };
+  };
+
+  it("aborts the provider's request without retrying or falling back", async () => {
+    const { provider, seen } = untilAborted("a");
+    const fallback = streamingProvider("b", { chunks: ["Fallback"] });
+    const stream = jest.spyOn(fallback, "stream");
+    const llm = new LLMService();
+    llm.addProvider(provider);
+    llm.addProvider(fallback);
+    llm.setFallbacks([{ provider: "b" }]);
+
+    const controller = new AbortController();
+    const reported: LLMUsage[] = [];
+    const chunks: string[] = [];
+    await expect(
+      (async () => {
+        for await (const chunk of llm.stream(request, undefined, {
+          signal: controller.signal,
+          onUsage: (usage) => reported.push(usage),
+        })) {
+          chunks.push(chunk);
+          if (chunks.length === 2) controller.abort();
+        }
+      })(),
+    ).rejects.toThrow("Request was aborted");
+
+    expect(seen.signal).toBe(controller.signal);
+    expect(chunks).toEqual(["word0 ", "word1 "]);
+    expect(stream).not.toHaveBeenCalled();
+    // What was generated before the abort is still counted
+    expect(reported).toHaveLength(1);
+    expect(reported[0].completion_tokens).toBeGreaterThan(0);
+    // Cancelling says nothing about the provider's health
+    expect(llm.getAvailableProviders()[0].circuit).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 0,
+    });
+  });
+
+  it("closes the provider's stream when the caller stops reading", async () => {
+    const { provider, seen } = untilAborted("a");
+    const llm = new LLMService();
+    llm.addProvider(provider);
+
+    for await (const chunk of llm.stream(request)) {
+      expect(chunk).toBe("word0 ");
+      break;
+    }
+    expect(seen.closed).toBe(true);
+  });
+
+  it("passes the signal on to the SDK request", async () => {
+    const create = openai.create.mockReset();
+    create.mockResolvedValue(
+      (async function* () {
+        yield { choices: [{ delta: { content: "Churn rose." } }] };
+      })(),
+    );
+    const controller = new AbortController();
+
+    const chunks: string[] = [];
+    for await (const chunk of new OpenAIProvider("sk-key").stream(request, {
+      signal: controller.signal,
+    })) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual(["Churn rose."]);
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ stream: true }),
+      { signal: controller.signal },
+    );
+  });
+});
@@ -1,31 +1,156 @@
 import OpenAI from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type {
+  ToolRegistry,
+  ToolContext,
+  LLMToolInvocation,
+} from "./toolRegistry";
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  CircuitStatus,
+  DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  DEFAULT_RETRY_POLICY,
+  LLMTarget,
+  RetryPolicy,
+  getRetryDelay,
+  isTransientError,
+} from "./resilience";
+import {
+  parseStructuredOutput,
+  repairInstruction,
+  withSchemaInstruction,
+} from "./structuredOutput";
+import { llmRequestDuration } from "./metrics";
+import { modelCatalog, ModelInfo } from "./modelCatalog";
+import { logger } from "../utils/logger";
+
+const log = logger.child("llm");
+
+/**
+ * Maximum number of tool-calling rounds before the model is asked to answer
+ */
+const MAX_TOOL_ROUNDS = 5;
+
+/**
+ * How many times output that doesn't match the response schema is sent back
+ * to the model for repair
+ */
+const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * OpenAI models with native structured output (`json_schema` response
+ * format), by name prefix. Other models are instructed through the prompt.
+ */
+const STRUCTURED_OUTPUT_MODELS = [
+  "gpt-4o",
+  "gpt-4.1",
+  "gpt-5",
+  "o1",
+  "o3",
+  "o4",
+];
+
+/**
+ * Model IDs listed by OpenAI that are chat models, and those that aren't
+ * despite the prefix (speech, image and search variants)
+ */
+const OPENAI_CHAT_MODEL = /^(gpt-|o\d|chatgpt-)/;
+const OPENAI_NON_CHAT_MODEL =
+  /audio|realtime|transcribe|tts|image|search|instruct/;
+
+/**
+ * SDK client options. Retries are handled by LLMService, so the SDKs' own
+ * retries are turned off.
+ */
+const CLIENT_OPTIONS = {
+  maxRetries: 0,
+  timeout: Number(process.env.LLM_REQUEST_TIMEOUT_MS) || 60000,
+};
+
+/**
+ * A tool the model may call, described with a JSON Schema for its arguments
+ */
+export interface LLMToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>;
+}
+
+/**
+ * A JSON Schema the response must match
+ */
+export interface LLMResponseSchema {
+  name: string;
+  schema: Record<string, any>;
+}
+
+/**
+ * A tool call requested by the model
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+/**
+ * A single chat message. Assistant messages may carry tool calls, and tool
+ * messages carry the result of the call named by `tool_call_id`.
+ */
+export interface LLMMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string;
+  tool_calls?: LLMToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * Token counts for a request
+ */
+export interface LLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
 
 /**
  * Common interface for LLM responses
  */
 export interface LLMResponse {
   content: string;
-  usage?: {
-    prompt_tokens: number;
-    completion_tokens: number;
-    total_tokens: number;
-  };
+  usage?: LLMUsage;
   model: string;
   provider: string;
+  tool_calls?: LLMToolCall[]; // Calls left for the caller to execute
+  tool_invocations?: LLMToolInvocation[]; // Calls executed by the worker
+  data?: unknown; // Parsed output, for requests with a response schema
 }
 
 /**
  * Common interface for LLM requests
  */
 export interface LLMRequest {
-  messages: Array<{
-    role: "system" | "user" | "assistant";
-    content: string;
-  }>;
+  messages: LLMMessage[];
   model?: string;
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  tools?: LLMToolDefinition[];
+  tool_choice?: "auto" | "none";
+  response_schema?: LLMResponseSchema;
+}
+
+/**
+ * Callbacks for information a stream reports besides its text
+ */
+export interface LLMStreamOptions {
+  onToolCalls?: (toolCalls: LLMToolCall[]) => void;
+  onUsage?: (usage: LLMUsage, model: string, provider?: string) => void; // LLMService also names the provider that answered
+  onToolInvocations?: (invocations: LLMToolInvocation[]) => void; // Tools run by LLMService between rounds
+  onStructuredOutput?: (data: unknown, content: string) => void; // Parsed output; content differs from the streamed text if it was repaired
+  signal?: AbortSignal; // Aborts the upstream request, e.g. when the client disconnects
 }
 
 /**
@@ -34,22 +159,48 @@ export interface LLMRequest {
 export interface LLMProvider {
   name: string;
   models: string[];
+  defaultModel: string;
+  loadModels?(): Promise<string[]>; // Replace `models` with the provider's current list
   complete(request: LLMRequest): Promise<LLMResponse>;
-  stream(request: LLMRequest): AsyncIterable<string>;
+  stream(
+    request: LLMRequest,
+    options?: LLMStreamOptions,
+  ): AsyncIterable<string>;
   isConfigured(): boolean;
 }
 
+/**
+ * Parse tool call arguments, which providers may send as partial or invalid JSON
+ */
+function parseToolArguments(raw: string | undefined): Record<string, any> {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Rough token count for providers that don't report usage while streaming
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
 /**
  * OpenAI provider implementation
  */
 export class OpenAIProvider implements LLMProvider {
   name = "openai";
-  models = ["gpt-4", "gpt-4-turbo", "gpt-3.5-turbo"];
-  private client?: OpenAI;
+  // Until the list is loaded from the API
+  models = ["gpt-4o", "gpt-4o-mini", "gpt-4-turbo", "gpt-4", "gpt-3.5-turbo"];
+  defaultModel = "gpt-4o";
+  protected client?: OpenAI;
 
   constructor(apiKey?: string) {
     if (apiKey) {
-      this.client = new OpenAI({ apiKey });
+      this.client = new OpenAI({ ...CLIENT_OPTIONS, apiKey });
     }
   }
 
@@ -57,25 +208,135 @@ export class OpenAIProvider implements LLMProvider {
     return !!this.client;
   }
 
+  /**
+   * Fetch the chat models the API key has access to
+   */
+  async loadModels(): Promise<string[]> {
+    if (!this.client) return this.models;
+    const models: string[] = [];
+    for await (const model of this.client.models.list()) {
+      if (
+        OPENAI_CHAT_MODEL.test(model.id) &&
+        !OPENAI_NON_CHAT_MODEL.test(model.id)
+      ) {
+        models.push(model.id);
+      }
+    }
+    this.models = models.sort();
+    return this.models;
+  }
+
+  /**
+   * Convert messages to the chat completions format, where tool call
+   * arguments travel as JSON strings
+   */
+  private toOpenAIMessages(
+    messages: LLMMessage[],
+  ): ChatCompletionMessageParam[] {
+    return messages.map((message): ChatCompletionMessageParam => {
+      if (message.role === "tool") {
+        return {
+          role: "tool",
+          tool_call_id: message.tool_call_id!,
+          content: message.content,
+        };
+      }
+      if (message.role === "assistant" && message.tool_calls?.length) {
+        return {
+          role: "assistant",
+          content: message.content || null,
+          tool_calls: message.tool_calls.map((call) => ({
+            id: call.id,
+            type: "function" as const,
+            function: {
+              name: call.name,
+              arguments: JSON.stringify(call.arguments),
+            },
+          })),
+        };
+      }
+      return {
+        role: message.role,
+        content: message.content,
+      } as ChatCompletionMessageParam;
+    });
+  }
+
+  /**
+   * Whether the model takes a `json_schema` response format
+   */
+  protected supportsStructuredOutput(model: string): boolean {
+    return STRUCTURED_OUTPUT_MODELS.some((prefix) => model.startsWith(prefix));
+  }
+
+  private buildParams(request: LLMRequest) {
+    const hasTools = !!request.tools?.length;
+    const model = request.model || this.defaultModel;
+    const responseSchema = request.response_schema;
+    const nativeSchema =
+      !!responseSchema && this.supportsStructuredOutput(model);
+
+    return {
+      model,
+      messages: this.toOpenAIMessages(
+        responseSchema && !nativeSchema
+          ? withSchemaInstruction(request.messages, responseSchema)
+          : request.messages,
+      ),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.max_tokens,
+      tools: hasTools
+        ? request.tools!.map((tool) => ({
+            type: "function" as const,
+            function: {
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters,
+            },
+          }))
+        : undefined,
+      tool_choice: hasTools ? request.tool_choice : undefined,
+      // Not strict: strict mode rejects schemas with optional properties, and
+      // LLMService validates the output either way
+      response_format: nativeSchema
+        ? {
+            type: "json_schema" as const,
+            json_schema: {
+              name: responseSchema!.name,
+              schema: responseSchema!.schema,
+              strict: false,
+            },
+          }
+        : undefined,
+    };
+  }
+
   async complete(request: LLMRequest): Promise<LLMResponse> {
     if (!this.client) {
-      throw new Error("OpenAI client not configured");
+      throw new Error(`${this.name} client not configured`);
     }
 
-    const response = await this.client.chat.completions.create({
-      model: request.model || "gpt-4",
-      messages: request.messages,
-      temperature: request.temperature || 0.7,
-      max_tokens: request.max_tokens,
-    });
+    const response = await this.client.chat.completions.create(
+      this.buildParams(request),
+    );
 
     const choice = response.choices[0];
-    if (!choice?.message?.content) {
-      throw new Error("No response content from OpenAI");
+    const toolCalls: LLMToolCall[] = [];
+    for (const call of choice?.message?.tool_calls || []) {
+      if (call.type === "function") {
+        toolCalls.push({
+          id: call.id,
+          name: call.function.name,
+          arguments: parseToolArguments(call.function.arguments),
+        });
+      }
+    }
+    if (!choice?.message?.content && toolCalls.length === 0) {
+      throw new Error(`No response content from ${this.name}`);
     }
 
     return {
-      content: choice.message.content,
+      content: choice.message.content || "",
       usage: response.usage
         ? {
             prompt_tokens: response.usage.prompt_tokens,
@@ -85,37 +346,479 @@ export class OpenAIProvider implements LLMProvider {
         : undefined,
       model: response.model,
       provider: this.name,
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
     };
   }
 
-  async *stream(request: LLMRequest): AsyncIterable<string> {
+  async *stream(
+    request: LLMRequest,
+    options: LLMStreamOptions = {},
+  ): AsyncIterable<string> {
     if (!this.client) {
-      throw new Error("OpenAI client not configured");
+      throw new Error(`${this.name} client not configured`);
     }
 
-    const stream = await this.client.chat.completions.create({
-      model: request.model || "gpt-4",
-      messages: request.messages,
-      temperature: request.temperature || 0.7,
-      max_tokens: request.max_tokens,
-      stream: true,
-    });
+    const stream = await this.client.chat.completions.create(
+      {
+        ...this.buildParams(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal },
+    );
+
+    // Tool calls arrive as fragments keyed by their index in the response
+    const partialCalls = new Map<
+      number,
+      { id: string; name: string; arguments: string }
+    >();
 
     for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content;
-      if (content) {
-        yield content;
+      // With include_usage the final chunk carries usage and no choices
+      if (chunk.usage) {
+        options.onUsage?.(
+          {
+            prompt_tokens: chunk.usage.prompt_tokens,
+            completion_tokens: chunk.usage.completion_tokens,
+            total_tokens: chunk.usage.total_tokens,
+          },
+          chunk.model,
+        );
       }
+
+      const delta = chunk.choices[0]?.delta;
+      if (delta?.content) {
+        yield delta.content;
+      }
+      for (const fragment of delta?.tool_calls || []) {
+        const call = partialCalls.get(fragment.index) || {
+          id: "",
+          name: "",
+          arguments: "",
+        };
+        call.id = fragment.id || call.id;
+        call.name = fragment.function?.name || call.name;
+        call.arguments += fragment.function?.arguments || "";
+        partialCalls.set(fragment.index, call);
+      }
+    }
+
+    if (partialCalls.size > 0) {
+      options.onToolCalls?.(
+        Array.from(partialCalls.values()).map((call) => ({
+          id: call.id,
+          name: call.name,
+          arguments: parseToolArguments(call.arguments),
+        })),
+      );
     }
   }
 }
 
 /**
- * LLM service that manages multiple providers
+ * Provider for any server exposing the OpenAI chat completions API
+ * (llama.cpp, Ollama, vLLM, LM Studio, ...). Models are discovered from the
+ * server's /models endpoint when the provider is loaded.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  constructor(
+    public baseURL: string,
+    apiKey?: string,
+    name: string = "local",
+  ) {
+    super();
+    this.name = name;
+    this.models = [];
+    this.defaultModel = "";
+    // Local servers usually ignore the key, but the SDK requires one
+    this.client = new OpenAI({
+      ...CLIENT_OPTIONS,
+      baseURL,
+      apiKey: apiKey || "not-needed",
+    });
+  }
+
+  /**
+   * Fetch the models served at the base URL. The first one becomes the
+   * default model for requests that don't name one.
+   */
+  async loadModels(): Promise<string[]> {
+    const page = await this.client!.models.list();
+    this.models = page.data.map((model) => model.id);
+    if (!this.defaultModel && this.models.length > 0) {
+      this.defaultModel = this.models[0];
+    }
+    return this.models;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.assertModel(request);
+    return super.complete(request);
+  }
+
+  stream(
+    request: LLMRequest,
+    options?: LLMStreamOptions,
+  ): AsyncIterable<string> {
+    this.assertModel(request);
+    return super.stream(request, options);
+  }
+
+  /**
+   * Server support varies, so native structured output is opted into with
+   * LOCAL_LLM_STRUCTURED_OUTPUT
+   */
+  protected supportsStructuredOutput(): boolean {
+    return process.env.LOCAL_LLM_STRUCTURED_OUTPUT === "true";
+  }
+
+  private assertModel(request: LLMRequest): void {
+    if (!request.model && !this.defaultModel) {
+      throw new Error(
+        `No model specified and none discovered at ${this.baseURL}`,
+      );
+    }
+  }
+}
+
+/**
+ * Anthropic provider implementation (Messages API)
+ */
+export class AnthropicProvider implements LLMProvider {
+  name = "anthropic";
+  models = [
+    "claude-3-5-sonnet-latest",
+    "claude-3-5-haiku-latest",
+    "claude-3-opus-latest",
+  ];
+  defaultModel = "claude-3-5-sonnet-latest";
+  private client?: Anthropic;
+
+  constructor(apiKey?: string) {
+    if (apiKey) {
+      this.client = new Anthropic({ ...CLIENT_OPTIONS, apiKey });
+    }
+  }
+
+  isConfigured(): boolean {
+    return !!this.client;
+  }
+
+  /**
+   * Fetch the models the API key has access to, newest first
+   */
+  async loadModels(): Promise<string[]> {
+    if (!this.client) return this.models;
+    const models: string[] = [];
+    for await (const model of this.client.models.list()) {
+      models.push(model.id);
+    }
+    this.models = models;
+    return this.models;
+  }
+
+  /**
+   * Convert messages to the Messages API format. Tool calls become tool_use
+   * blocks on the assistant turn, and consecutive tool results are merged
+   * into a single user turn of tool_result blocks.
+   */
+  private toAnthropicMessages(
+    messages: LLMMessage[],
+  ): Anthropic.MessageParam[] {
+    const converted: Anthropic.MessageParam[] = [];
+
+    for (const message of messages) {
+      if (message.role === "system") continue;
+
+      if (message.role === "tool") {
+        const block: Anthropic.ToolResultBlockParam = {
+          type: "tool_result",
+          tool_use_id: message.tool_call_id!,
+          content: message.content,
+        };
+        const previous = converted[converted.length - 1];
+        if (
+          previous?.role === "user" &&
+          Array.isArray(previous.content) &&
+          previous.content.every((item) => item.type === "tool_result")
+        ) {
+          previous.content.push(block);
+        } else {
+          converted.push({ role: "user", content: [block] });
+        }
+        continue;
+      }
+
+      if (message.role === "assistant" && message.tool_calls?.length) {
+        converted.push({
+          role: "assistant",
+          content: [
+            ...(message.content
+              ? [{ type: "text" as const, text: message.content }]
+              : []),
+            ...message.tool_calls.map((call) => ({
+              type: "tool_use" as const,
+              id: call.id,
+              name: call.name,
+              input: call.arguments,
+            })),
+          ],
+        });
+        continue;
+      }
+
+      converted.push({ role: message.role, content: message.content });
+    }
+
+    return converted;
+  }
+
+  /**
+   * Anthropic has no JSON response format. Structured output is produced by
+   * forcing a call to a tool whose input schema is the response schema,
+   * which only works for object schemas on requests without tools of their
+   * own; other requests are instructed through the prompt.
+   */
+  private usesSchemaTool(request: LLMRequest): boolean {
+    return (
+      !!request.response_schema &&
+      !request.tools?.length &&
+      request.response_schema.schema.type === "object"
+    );
+  }
+
+  /**
+   * Anthropic takes the system prompt as a top-level field rather than as a
+   * message, and requires max_tokens on every request.
+   */
+  private buildParams(request: LLMRequest) {
+    const schemaTool = this.usesSchemaTool(request);
+    const messages =
+      request.response_schema && !schemaTool
+        ? withSchemaInstruction(request.messages, request.response_schema)
+        : request.messages;
+    const system = messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content)
+      .join("\n\n");
+    const hasTools = !!request.tools?.length;
+
+    const tools: Anthropic.Tool[] | undefined = schemaTool
+      ? [
+          {
+            name: request.response_schema!.name,
+            description: "Respond with structured output matching the schema",
+            input_schema: request.response_schema!
+              .schema as Anthropic.Tool.InputSchema,
+          },
+        ]
+      : hasTools
+        ? request.tools!.map((tool) => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: {
+              type: "object" as const,
+              ...tool.parameters,
+            },
+          }))
+        : undefined;
+    const toolChoice: Anthropic.ToolChoice | undefined = schemaTool
+      ? { type: "tool", name: request.response_schema!.name }
+      : hasTools && request.tool_choice
+        ? { type: request.tool_choice }
+        : undefined;
+
+    return {
+      model: request.model || this.defaultModel,
+      system: system || undefined,
+      messages: this.toAnthropicMessages(messages),
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.max_tokens || 1024,
+      tools,
+      tool_choice: toolChoice,
+    };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!this.client) {
+      throw new Error("Anthropic client not configured");
+    }
+
+    const response = await this.client.messages.create(
+      this.buildParams(request),
+    );
+
+    if (this.usesSchemaTool(request)) {
+      const block = response.content.find((block) => block.type === "tool_use");
+      if (!block || block.type !== "tool_use") {
+        throw new Error("No structured output from Anthropic");
+      }
+      return {
+        content: JSON.stringify(block.input),
+        usage: {
+          prompt_tokens: response.usage.input_tokens,
+          completion_tokens: response.usage.output_tokens,
+          total_tokens:
+            response.usage.input_tokens + response.usage.output_tokens,
+        },
+        model: response.model,
+        provider: this.name,
+      };
+    }
+
+    const content = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+    const toolCalls: LLMToolCall[] = response.content
+      .filter((block) => block.type === "tool_use")
+      .map((block) => ({
+        id: block.id,
+        name: block.name,
+        arguments: block.input as Record<string, any>,
+      }));
+    if (!content && toolCalls.length === 0) {
+      throw new Error("No response content from Anthropic");
+    }
+
+    return {
+      content,
+      usage: {
+        prompt_tokens: response.usage.input_tokens,
+        completion_tokens: response.usage.output_tokens,
+        total_tokens:
+          response.usage.input_tokens + response.usage.output_tokens,
+      },
+      model: response.model,
+      provider: this.name,
+      tool_calls: toolCalls.length > 0 ? toolCalls : undefined,
+    };
+  }
+
+  async *stream(
+    request: LLMRequest,
+    options: LLMStreamOptions = {},
+  ): AsyncIterable<string> {
+    if (!this.client) {
+      throw new Error("Anthropic client not configured");
+    }
+
+    const stream = await this.client.messages.create(
+      {
+        ...this.buildParams(request),
+        stream: true,
+      },
+      { signal: options.signal },
+    );
+
+    // tool_use blocks stream their input as JSON fragments keyed by block index
+    const partialCalls = new Map<
+      number,
+      { id: string; name: string; json: string }
+    >();
+    // The forced schema tool's input is the response, so it is streamed as text
+    const schemaTool = this.usesSchemaTool(request);
+    let model = request.model || this.defaultModel;
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for await (const event of stream) {
+      if (event.type === "message_start") {
+        model = event.message.model;
+        inputTokens = event.message.usage.input_tokens;
+      } else if (event.type === "message_delta") {
+        outputTokens = event.usage.output_tokens;
+      } else if (
+        event.type === "content_block_start" &&
+        event.content_block.type === "tool_use" &&
+        !schemaTool
+      ) {
+        partialCalls.set(event.index, {
+          id: event.content_block.id,
+          name: event.content_block.name,
+          json: "",
+        });
+      } else if (event.type === "content_block_delta") {
+        if (event.delta.type === "text_delta") {
+          yield event.delta.text;
+        } else if (event.delta.type === "input_json_delta") {
+          if (schemaTool) {
+            yield event.delta.partial_json;
+            continue;
+          }
+          const call = partialCalls.get(event.index);
+          if (call) call.json += event.delta.partial_json;
+        }
+      }
+    }
+
+    if (partialCalls.size > 0) {
+      options.onToolCalls?.(
+        Array.from(partialCalls.values()).map((call) => ({
+          id: call.id,
+          name: call.name,
+          arguments: parseToolArguments(call.json),
+        })),
+      );
+    }
+
+    options.onUsage?.(
+      {
+        prompt_tokens: inputTokens,
+        completion_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+      },
+      model,
+    );
+  }
+}
+
+/**
+ * Routing for a single LLMService call
+ */
+export interface LLMRoutingOptions {
+  fallbacks?: LLMTarget[]; // Overrides the configured fallback chain
+  toolContext?: ToolContext; // Passed to the tools the worker runs
+}
+
+/**
+ * A provider resolved for a call, with the model to request from it
+ */
+interface ResolvedTarget {
+  provider: LLMProvider;
+  model?: string;
+}
+
+/**
+ * Drop undefined settings so they don't override the current ones
+ */
+function definedSettings<T extends object>(settings: Partial<T>): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * LLM service that manages multiple providers. Transient failures are
+ * retried with backoff, then the call falls back along the fallback chain.
+ * A provider that keeps failing is skipped while its circuit is open.
  */
 export class LLMService {
   private providers: Map<string, LLMProvider> = new Map();
   private defaultProvider?: string;
+  private fallbacks: LLMTarget[] = [];
+  private retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+  private circuitBreakerOptions: CircuitBreakerOptions =
+    DEFAULT_CIRCUIT_BREAKER_OPTIONS;
+  private circuitBreakers: Map<string, CircuitBreaker> = new Map();
+
+  /**
+   * @param tools Registry used to execute tool calls requested by the model
+   */
+  constructor(private tools?: ToolRegistry) {}
 
   addProvider(provider: LLMProvider): void {
     this.providers.set(provider.name, provider);
@@ -124,43 +827,605 @@ export class LLMService {
     }
   }
 
+  /**
+   * Use the named provider when a request doesn't specify one
+   */
+  setDefaultProvider(name: string): void {
+    if (!this.providers.has(name)) {
+      throw new Error(`Unknown provider: ${name}`);
+    }
+    this.defaultProvider = name;
+  }
+
+  /**
+   * Providers/models to try, in order, when the requested one fails
+   */
+  setFallbacks(fallbacks: LLMTarget[]): void {
+    for (const target of fallbacks) {
+      if (!this.providers.has(target.provider)) {
+        throw new Error(`Unknown provider: ${target.provider}`);
+      }
+    }
+    this.fallbacks = fallbacks;
+  }
+
+  getFallbacks(): LLMTarget[] {
+    return this.fallbacks;
+  }
+
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...definedSettings(policy) };
+  }
+
+  /**
+   * Applies to circuits created after the call, so set it before serving
+   */
+  setCircuitBreakerOptions(options: Partial<CircuitBreakerOptions>): void {
+    this.circuitBreakerOptions = {
+      ...this.circuitBreakerOptions,
+      ...definedSettings(options),
+    };
+  }
+
   getProvider(name?: string): LLMProvider | undefined {
     const providerName = name || this.defaultProvider;
     return providerName ? this.providers.get(providerName) : undefined;
   }
 
-  async complete(
-    request: LLMRequest,
-    providerName?: string,
-  ): Promise<LLMResponse> {
+  private requireProvider(providerName?: string): LLMProvider {
     const provider = this.getProvider(providerName);
     if (!provider) {
       throw new Error(
         `No ${providerName ? providerName : "default"} provider available`,
       );
     }
-    return provider.complete(request);
+    return provider;
   }
 
-  stream(request: LLMRequest, providerName?: string): AsyncIterable<string> {
-    const provider = this.getProvider(providerName);
-    if (!provider) {
+  private getCircuitBreaker(providerName: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(providerName);
+    if (!breaker) {
+      breaker = new CircuitBreaker(this.circuitBreakerOptions);
+      this.circuitBreakers.set(providerName, breaker);
+    }
+    return breaker;
+  }
+
+  /**
+   * The requested provider followed by the fallback chain. Fallbacks that
+   * aren't configured or repeat an earlier target are left out.
+   */
+  private resolveTargets(
+    request: LLMRequest,
+    providerName?: string,
+    fallbacks: LLMTarget[] = this.fallbacks,
+  ): ResolvedTarget[] {
+    const targets: ResolvedTarget[] = [
+      { provider: this.requireProvider(providerName), model: request.model },
+    ];
+
+    for (const fallback of fallbacks) {
+      const provider = this.providers.get(fallback.provider);
+      if (!provider?.isConfigured()) continue;
+      const duplicate = targets.some(
+        (target) =>
+          target.provider === provider &&
+          (target.model || provider.defaultModel) ===
+            (fallback.model || provider.defaultModel),
+      );
+      if (!duplicate) {
+        targets.push({ provider, model: fallback.model });
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Decide what to do after a failed attempt: wait and retry the same
+   * target, or give up on it. Failures that exhaust the retries count
+   * against the provider's circuit; other errors still settle it.
+   */
+  private async shouldRetry(
+    target: ResolvedTarget,
+    attempt: number,
+    error: unknown,
+  ): Promise<boolean> {
+    const name = target.provider.name;
+    if (!isTransientError(error)) {
+      log.warn("Provider call failed", { provider: name, error });
+      this.getCircuitBreaker(name).recordRejected();
+      return false;
+    }
+    if (attempt >= this.retryPolicy.maxRetries) {
+      log.warn("Provider call failed after retries", {
+        provider: name,
+        attempts: attempt + 1,
+        error,
+      });
+      this.getCircuitBreaker(name).recordFailure(error);
+      return false;
+    }
+
+    const delay = getRetryDelay(this.retryPolicy, attempt);
+    log.warn("Provider call failed, retrying", {
+      provider: name,
+      delayMs: delay,
+      attempt: attempt + 2,
+      maxAttempts: this.retryPolicy.maxRetries + 1,
+      error,
+    });
+    await sleep(delay);
+    return true;
+  }
+
+  /**
+   * Error for when every target was skipped or failed
+   */
+  private exhaustedError(
+    targets: ResolvedTarget[],
+    lastError: unknown,
+  ): unknown {
+    if (lastError) return lastError;
+    const status = this.getCircuitBreaker(targets[0].provider.name).getStatus();
+    return new Error(
+      `${targets.map((target) => target.provider.name).join(", ")} temporarily unavailable (${status.openUntil ? `circuit open until ${status.openUntil}` : "checking whether it has recovered"})`,
+    );
+  }
+
+  /**
+   * Complete a single round, retrying and falling back as needed
+   */
+  private async completeWithFallback(
+    targets: ResolvedTarget[],
+    request: LLMRequest,
+  ): Promise<LLMResponse> {
+    let lastError: unknown;
+
+    for (const target of targets) {
+      const breaker = this.getCircuitBreaker(target.provider.name);
+      if (!breaker.canRequest()) continue;
+
+      for (let attempt = 0; ; attempt++) {
+        const observe = llmRequestDuration.startTimer({
+          provider: target.provider.name,
+          model: target.model || target.provider.defaultModel,
+        });
+        try {
+          const response = await target.provider.complete({
+            ...request,
+            model: target.model,
+          });
+          log.debug("Provider call finished", {
+            provider: target.provider.name,
+            model: response.model,
+            durationMs: Math.round(observe({ outcome: "success" }) * 1000),
+          });
+          breaker.recordSuccess();
+          return response;
+        } catch (error) {
+          observe({ outcome: "error" });
+          lastError = error;
+          if (!(await this.shouldRetry(target, attempt, error))) break;
+        }
+      }
+    }
+
+    throw this.exhaustedError(targets, lastError);
+  }
+
+  /**
+   * Stream a single round, retrying and falling back as needed. Once text
+   * has been yielded the round can no longer be retried, so later errors
+   * are thrown. `served` is updated with the target that answered.
+   */
+  private async *streamWithFallback(
+    targets: ResolvedTarget[],
+    request: LLMRequest,
+    options: LLMStreamOptions,
+    served: { provider: string; model: string },
+  ): AsyncIterable<string> {
+    let lastError: unknown;
+
+    for (const target of targets) {
+      const breaker = this.getCircuitBreaker(target.provider.name);
+      if (!breaker.canRequest()) continue;
+      served.provider = target.provider.name;
+      served.model = target.model || target.provider.defaultModel;
+
+      for (let attempt = 0; ; attempt++) {
+        let started = false;
+        const observe = llmRequestDuration.startTimer({
+          provider: served.provider,
+          model: served.model,
+        });
+        let outcome: string | undefined;
+        try {
+          for await (const chunk of target.provider.stream(
+            { ...request, model: target.model },
+            options,
+          )) {
+            started = true;
+            yield chunk;
+          }
+          outcome = "success";
+          log.debug("Provider stream finished", {
+            provider: served.provider,
+            model: served.model,
+            durationMs: Math.round(observe({ outcome }) * 1000),
+          });
+          breaker.recordSuccess();
+          return;
+        } catch (error) {
+          outcome = options.signal?.aborted ? "aborted" : "error";
+          observe({ outcome });
+          if (options.signal?.aborted) {
+            breaker.recordAborted();
+            throw error;
+          }
+          if (started) {
+            if (isTransientError(error)) breaker.recordFailure(error);
+            else breaker.recordRejected();
+            throw error;
+          }
+          lastError = error;
+          if (!(await this.shouldRetry(target, attempt, error))) break;
+        } finally {
+          // The caller stopped reading before the stream ended
+          if (!outcome) {
+            observe({ outcome: "aborted" });
+            breaker.recordAborted();
+          }
+        }
+      }
+    }
+
+    throw this.exhaustedError(targets, lastError);
+  }
+
+  /**
+   * Whether every requested call can be run by the worker. Only tools the
+   * request offered are run, so the model can't reach a tool it wasn't
+   * given. If not, the calls are handed back to the caller instead.
+   */
+  private canExecute(request: LLMRequest, toolCalls: LLMToolCall[]): boolean {
+    const offered = new Set((request.tools || []).map((tool) => tool.name));
+    return (
+      !!this.tools &&
+      toolCalls.every(
+        (call) => offered.has(call.name) && this.tools!.has(call.name),
+      )
+    );
+  }
+
+  /**
+   * Execute tool calls and append the assistant turn and the results to the
+   * conversation
+   */
+  private async runToolCalls(
+    messages: LLMMessage[],
+    content: string,
+    toolCalls: LLMToolCall[],
+    context: ToolContext = {},
+  ): Promise<LLMToolInvocation[]> {
+    messages.push({ role: "assistant", content, tool_calls: toolCalls });
+
+    const invocations: LLMToolInvocation[] = [];
+    for (const call of toolCalls) {
+      const invocation = await this.tools!.execute(call, context);
+      invocations.push(invocation);
+      messages.push({
+        role: "tool",
+        tool_call_id: call.id,
+        content:
+          invocation.error !== undefined
+            ? `Error: ${invocation.error}`
+            : invocation.result!,
+      });
+    }
+    return invocations;
+  }
+
+  /**
+   * Parse output against the request's response schema. Output that isn't
+   * valid is sent back to the model with the errors, for at most
+   * MAX_REPAIR_ATTEMPTS attempts. Usage of the repairs is added to `usage`.
+   */
+  private async parseStructured(
+    targets: ResolvedTarget[],
+    request: LLMRequest,
+    content: string,
+    usage: LLMUsage,
+  ): Promise<{ data: unknown; content: string }> {
+    const { name, schema } = request.response_schema!;
+    let result = parseStructuredOutput(content, schema);
+
+    for (
+      let attempt = 0;
+      result.errors && attempt < MAX_REPAIR_ATTEMPTS;
+      attempt++
+    ) {
+      log.warn("Output doesn't match the schema, asking for a repair", {
+        schema: name,
+        attempt: attempt + 1,
+        maxAttempts: MAX_REPAIR_ATTEMPTS,
+        errors: result.errors,
+      });
+      const repaired = await this.completeWithFallback(targets, {
+        ...request,
+        messages: [
+          ...request.messages,
+          { role: "assistant", content },
+          { role: "user", content: repairInstruction(result.errors) },
+        ],
+        tools: undefined,
+        tool_choice: undefined,
+      });
+      if (repaired.usage) {
+        usage.prompt_tokens += repaired.usage.prompt_tokens;
+        usage.completion_tokens += repaired.usage.completion_tokens;
+        usage.total_tokens += repaired.usage.total_tokens;
+      }
+      content = repaired.content;
+      result = parseStructuredOutput(content, schema);
+    }
+
+    if (result.errors) {
       throw new Error(
-        `No ${providerName ? providerName : "default"} provider available`,
+        `Output doesn't match the ${name} schema: ${result.errors.join("; ")}`,
       );
     }
-    return provider.stream(request);
+    return { data: result.data, content };
+  }
+
+  /**
+   * Add the parsed `data` to a final response when the request has a
+   * response schema. Tool calls handed back to the caller aren't parsed.
+   */
+  private async withStructuredData(
+    targets: ResolvedTarget[],
+    request: LLMRequest,
+    response: LLMResponse,
+  ): Promise<LLMResponse> {
+    if (!request.response_schema || response.tool_calls?.length) {
+      return response;
+    }
+
+    const usage = {
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      ...response.usage,
+    };
+    const { data, content } = await this.parseStructured(
+      targets,
+      request,
+      response.content,
+      usage,
+    );
+    return {
+      ...response,
+      content,
+      usage: response.usage ? usage : undefined,
+      data,
+    };
+  }
+
+  /**
+   * Complete a request. When tools are given, tool calls the worker knows how
+   * to execute are run and fed back to the model until it answers, for at
+   * most MAX_TOOL_ROUNDS rounds. With a response schema the answer is parsed
+   * into `data`.
+   */
+  async complete(
+    request: LLMRequest,
+    providerName?: string,
+    routing: LLMRoutingOptions = {},
+  ): Promise<LLMResponse> {
+    const targets = this.resolveTargets(
+      request,
+      providerName,
+      routing.fallbacks,
+    );
+    if (!request.tools?.length) {
+      return this.withStructuredData(
+        targets,
+        request,
+        await this.completeWithFallback(targets, request),
+      );
+    }
+
+    const messages = [...request.messages];
+    const invocations: LLMToolInvocation[] = [];
+    const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+    for (let round = 0; ; round++) {
+      const lastRound = round === MAX_TOOL_ROUNDS;
+      const response = await this.completeWithFallback(targets, {
+        ...request,
+        messages,
+        tool_choice: lastRound ? "none" : request.tool_choice,
+      });
+
+      if (response.usage) {
+        usage.prompt_tokens += response.usage.prompt_tokens;
+        usage.completion_tokens += response.usage.completion_tokens;
+        usage.total_tokens += response.usage.total_tokens;
+      }
+
+      if (
+        lastRound ||
+        !response.tool_calls?.length ||
+        !this.canExecute(request, response.tool_calls)
+      ) {
+        return this.withStructuredData(
+          targets,
+          { ...request, messages },
+          {
+            ...response,
+            usage: response.usage ? usage : undefined,
+            tool_invocations: invocations,
+          },
+        );
+      }
+
+      invocations.push(
+        ...(await this.runToolCalls(
+          messages,
+          response.content,
+          response.tool_calls,
+          routing.toolContext,
+        )),
+      );
+    }
+  }
+
+  /**
+   * Stream a request. With tools, each round's text is streamed as it
+   * arrives; tool calls are executed between rounds. Usage is summed across
+   * rounds and reported once through `options.onUsage` when the stream ends,
+   * with the provider that answered last, and not at all if nothing was
+   * used. It is estimated from the text if a provider answered without
+   * reporting it. With a response schema the answer is parsed, and repaired
+   * if needed, once streaming ends; the result goes to
+   * `options.onStructuredOutput`.
+   */
+  async *stream(
+    request: LLMRequest,
+    providerName?: string,
+    options: LLMStreamOptions & LLMRoutingOptions = {},
+  ): AsyncIterable<string> {
+    const targets = this.resolveTargets(
+      request,
+      providerName,
+      options.fallbacks,
+    );
+    const messages = [...request.messages];
+    const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    const served = {
+      provider: targets[0].provider.name,
+      model: request.model || targets[0].provider.defaultModel,
+    };
+
+    try {
+      for (let round = 0; ; round++) {
+        const lastRound = round === MAX_TOOL_ROUNDS || !request.tools?.length;
+        let content = "";
+        let toolCalls: LLMToolCall[] = [];
+        let roundUsage: LLMUsage | undefined;
+
+        try {
+          for await (const chunk of this.streamWithFallback(
+            targets,
+            {
+              ...request,
+              messages,
+              tool_choice:
+                request.tools?.length && lastRound
+                  ? "none"
+                  : request.tool_choice,
+            },
+            {
+              ...options,
+              onToolCalls: (calls) => {
+                toolCalls = calls;
+              },
+              onUsage: (reported, reportedModel) => {
+                roundUsage = reported;
+                served.model = reportedModel;
+              },
+            },
+            served,
+          )) {
+            content += chunk;
+            yield chunk;
+          }
+        } finally {
+          // Estimate what the provider didn't report, but only if it
+          // answered or the request was aborted. A request every provider
+          // refused, such as for a bad key or a rate limit, isn't billed.
+          const answered =
+            content.length > 0 ||
+            toolCalls.length > 0 ||
+            options.signal?.aborted;
+          if (!roundUsage && answered) {
+            const prompt = estimateTokens(
+              messages.map((message) => message.content).join("\n"),
+            );
+            const completion = estimateTokens(content);
+            roundUsage = {
+              prompt_tokens: prompt,
+              completion_tokens: completion,
+              total_tokens: prompt + completion,
+            };
+          }
+          if (roundUsage) {
+            usage.prompt_tokens += roundUsage.prompt_tokens;
+            usage.completion_tokens += roundUsage.completion_tokens;
+            usage.total_tokens += roundUsage.total_tokens;
+          }
+        }
+
+        if (options.signal?.aborted) return;
+        if (lastRound || toolCalls.length === 0) {
+          if (request.response_schema) {
+            const structured = await this.parseStructured(
+              targets,
+              { ...request, messages },
+              content,
+              usage,
+            );
+            options.onStructuredOutput?.(structured.data, structured.content);
+          }
+          return;
+        }
+        if (!this.canExecute(request, toolCalls)) {
+          options.onToolCalls?.(toolCalls);
+          return;
+        }
+
+        options.onToolInvocations?.(
+          await this.runToolCalls(
+            messages,
+            content,
+            toolCalls,
+            options.toolContext,
+          ),
+        );
+      }
+    } finally {
+      if (usage.total_tokens > 0) {
+        options.onUsage?.(usage, served.model, served.provider);
+      }
+    }
+  }
+
+  /**
+   * Bring every provider's model list up to date, for the catalog
+   */
+  async refreshModels(): Promise<void> {
+    await Promise.all(
+      Array.from(this.providers.values()).map((provider) =>
+        modelCatalog.refresh(provider),
+      ),
+    );
   }
 
   getAvailableProviders(): Array<{
     name: string;
-    models: string[];
+    models: ModelInfo[];
+    defaultModel: string;
     configured: boolean;
+    isDefault: boolean;
+    circuit: CircuitStatus;
   }> {
     return Array.from(this.providers.values()).map((provider) => ({
       name: provider.name,
-      models: provider.models,
+      models: modelCatalog.list(provider),
+      defaultModel: provider.defaultModel,
       configured: provider.isConfigured(),
+      isDefault: provider.name === this.defaultProvider,
+      circuit: this.getCircuitBreaker(provider.name).getStatus(),
     }));
   }
 }
@@ -0,0 +1,101 @@
+import { Counter, Gauge, Histogram, MetricsRegistry } from "./metrics";
+
+describe("Counter", () => {
+  it("keeps one series per label combination, in label order", () => {
+    const counter = new Counter("requests_total", "Requests", [
+      "method",
+      "status",
+    ]);
+    counter.inc({ status: "200", method: "GET" });
+    counter.inc({ method: "GET", status: "200" }, 2);
+    counter.inc({ method: "POST", status: "500", ignored: "x" });
+
+    expect(counter.render()).toEqual([
+      "# HELP requests_total Requests",
+      "# TYPE requests_total counter",
+      'requests_total{method="GET",status="200"} 3',
+      'requests_total{method="POST",status="500"} 1',
+    ]);
+  });
+
+  it("escapes label values", () => {
+    const counter = new Counter("errors_total", "Errors", ["message"]);
+    counter.inc({ message: 'bad "quote"\\path\nnext' });
+    expect(counter.render()[2]).toBe(
+      'errors_total{message="bad \\"quote\\"\\\\path\\nnext"} 1',
+    );
+  });
+});
+
+describe("Gauge", () => {
+  it("collects its values before each render", () => {
+    let queued = 2;
+    const gauge = new Gauge("queued", "Queued requests", ["lane"], (self) =>
+      self.set({ lane: "interactive" }, queued),
+    );
+
+    expect(gauge.render()[2]).toBe('queued{lane="interactive"} 2');
+    queued = 0;
+    expect(gauge.render()[2]).toBe('queued{lane="interactive"} 0');
+  });
+});
+
+describe("Histogram", () => {
+  it("renders cumulative buckets, the sum and the count", () => {
+    const histogram = new Histogram(
+      "duration_seconds",
+      "Durations",
+      [],
+      [0.1, 1],
+    );
+    for (const value of [0.05, 0.1, 0.5, 3]) histogram.observe({}, value);
+
+    expect(histogram.render().slice(2)).toEqual([
+      'duration_seconds_bucket{le="0.1"} 2',
+      'duration_seconds_bucket{le="1"} 3',
+      'duration_seconds_bucket{le="+Inf"} 4',
+      "duration_seconds_sum 3.65",
+      "duration_seconds_count 4",
+    ]);
+  });
+
+  it("times calls, adding the labels known at the end", () => {
+    const histogram = new Histogram(
+      "call_seconds",
+      "Calls",
+      ["provider", "outcome"],
+      [60],
+    );
+    const stop = histogram.startTimer({ provider: "openai" });
+    const seconds = stop({ outcome: "success" });
+
+    expect(seconds).toBeGreaterThanOrEqual(0);
+    expect(histogram.render()).toContain(
+      'call_seconds_count{provider="openai",outcome="success"} 1',
+    );
+  });
+});
+
+describe("MetricsRegistry", () => {
+  it("renders every metric, skipping those that fail to collect", () => {
+    const registry = new MetricsRegistry();
+    registry.register(new Counter("a_total", "A")).inc();
+    registry.register(
+      new Gauge("broken", "Broken", [], () => {
+        throw new Error("unavailable");
+      }),
+    );
+
+    expect(registry.render()).toBe(
+      "# HELP a_total A\n# TYPE a_total counter\na_total 1\n",
+    );
+  });
+
+  it("refuses two metrics with the same name", () => {
+    const registry = new MetricsRegistry();
+    registry.register(new Counter("a_total", "A"));
+    expect(() => registry.register(new Counter("a_total", "A"))).toThrow(
+      "Metric a_total is already registered",
+    );
+  });
+});
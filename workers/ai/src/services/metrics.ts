@@ -0,0 +1,318 @@
+import { logger } from "../utils/logger";
+
+const log = logger.child("metrics");
+
+/**
+ * Label values of one series, by label name
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * Upper bounds, in seconds, of the buckets used when a histogram doesn't
+ * set its own
+ */
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return "+Inf";
+  if (value === -Infinity) return "-Inf";
+  return String(value);
+}
+
+/**
+ * A metric with one series per combination of label values. Labels that
+ * aren't in `labelNames` are ignored, and missing ones are empty.
+ */
+abstract class Metric<TSeries> {
+  protected series: Map<string, { labels: Labels; value: TSeries }> = new Map();
+
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly labelNames: string[] = [],
+  ) {}
+
+  abstract readonly type: "counter" | "gauge" | "histogram";
+
+  protected abstract initialValue(): TSeries;
+
+  protected getSeries(labels: Labels): TSeries {
+    const ordered: Labels = {};
+    for (const name of this.labelNames) {
+      ordered[name] = labels[name] ?? "";
+    }
+    const key = JSON.stringify(ordered);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: this.initialValue() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: TSeries): string[];
+
+  render(): string[] {
+    const lines = [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+    ];
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+}
+
+/**
+ * A value that only goes up, such as a number of requests
+ */
+export class Counter extends Metric<{ value: number }> {
+  readonly type = "counter";
+
+  protected initialValue() {
+    return { value: 0 };
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.getSeries(labels).value += amount;
+  }
+
+  protected renderSeries(labels: Labels, series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(series.value)}`];
+  }
+}
+
+/**
+ * A value that goes up and down. `collect`, if given, is called before each
+ * scrape to set the current values.
+ */
+export class Gauge extends Metric<{ value: number }> {
+  readonly type = "gauge";
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    private collect?: (gauge: Gauge) => void,
+  ) {
+    super(name, help, labelNames);
+  }
+
+  protected initialValue() {
+    return { value: 0 };
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels).value = value;
+  }
+
+  protected renderSeries(labels: Labels, series: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatValue(series.value)}`];
+  }
+
+  render(): string[] {
+    this.collect?.(this);
+    return super.render();
+  }
+}
+
+interface HistogramSeries {
+  counts: number[]; // Observations per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+/**
+ * Distribution of observed values, such as request durations
+ */
+export class Histogram extends Metric<HistogramSeries> {
+  readonly type = "histogram";
+
+  constructor(
+    name: string,
+    help: string,
+    labelNames: string[] = [],
+    private buckets: number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, labelNames);
+  }
+
+  protected initialValue(): HistogramSeries {
+    return { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.getSeries(labels);
+    const bucket = this.buckets.findIndex((bound) => value <= bound);
+    if (bucket !== -1) series.counts[bucket]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  /**
+   * Start a timer. The returned function observes the elapsed seconds.
+   */
+  startTimer(labels: Labels = {}): (extraLabels?: Labels) => number {
+    const startedAt = process.hrtime.bigint();
+    return (extraLabels = {}) => {
+      const seconds =
+        Number(process.hrtime.bigint() - startedAt) / 1_000_000_000;
+      this.observe({ ...labels, ...extraLabels }, seconds);
+      return seconds;
+    };
+  }
+
+  protected renderSeries(labels: Labels, series: HistogramSeries): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+    this.buckets.forEach((bound, index) => {
+      cumulative += series.counts[index];
+      lines.push(
+        `${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${cumulative}`,
+      );
+    });
+    lines.push(
+      `${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${series.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${formatValue(series.sum)}`,
+      `${this.name}_count${formatLabels(labels)} ${series.count}`,
+    );
+    return lines;
+  }
+}
+
+/**
+ * Metrics exposed in the Prometheus text format
+ */
+export class MetricsRegistry {
+  private metrics: Metric<unknown>[] = [];
+
+  register<T extends Metric<any>>(metric: T): T {
+    if (this.metrics.some((existing) => existing.name === metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  render(): string {
+    return (
+      this.metrics
+        .flatMap((metric) => {
+          try {
+            return metric.render();
+          } catch (error) {
+            log.warn("Failed to collect metric", {
+              metric: metric.name,
+              error,
+            });
+            return [];
+          }
+        })
+        .join("\n") + "\n"
+    );
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+/**
+ * Buckets for LLM calls, which take seconds to minutes
+ */
+const LLM_BUCKETS = [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+
+export const httpRequestsTotal = metricsRegistry.register(
+  new Counter("ai_worker_http_requests_total", "HTTP requests served", [
+    "method",
+    "route",
+    "status",
+  ]),
+);
+
+export const httpRequestDuration = metricsRegistry.register(
+  new Histogram(
+    "ai_worker_http_request_duration_seconds",
+    "Time to serve HTTP requests, including streamed responses",
+    ["method", "route"],
+    [...DEFAULT_BUCKETS, 30, 60, 120],
+  ),
+);
+
+export const llmRequestDuration = metricsRegistry.register(
+  new Histogram(
+    "ai_worker_llm_request_duration_seconds",
+    "Time taken by each provider call, including failed attempts",
+    ["provider", "model", "outcome"],
+    LLM_BUCKETS,
+  ),
+);
+
+export const llmTokensTotal = metricsRegistry.register(
+  new Counter("ai_worker_llm_tokens_total", "Tokens used by LLM requests", [
+    "provider",
+    "model",
+    "type",
+  ]),
+);
+
+export const vectorSearchDuration = metricsRegistry.register(
+  new Histogram(
+    "ai_worker_vector_search_duration_seconds",
+    "Time taken by vector similarity searches",
+  ),
+);
+
+export const embeddingDuration = metricsRegistry.register(
+  new Histogram(
+    "ai_worker_embedding_duration_seconds",
+    "Time taken to embed a batch of texts",
+    ["backend"],
+  ),
+);
+
+export const indexedChunksTotal = metricsRegistry.register(
+  new Counter(
+    "ai_worker_indexed_chunks_total",
+    "Chunks added to the vector database",
+  ),
+);
+
+export const indexingDuration = metricsRegistry.register(
+  new Histogram(
+    "ai_worker_indexing_duration_seconds",
+    "Time taken to index a source",
+    ["source_type"],
+    [0.1, 0.5, 1, 5, 10, 30, 60, 300, 600],
+  ),
+);
+
+export const indexingThroughput = metricsRegistry.register(
+  new Gauge(
+    "ai_worker_indexing_throughput_chunks_per_second",
+    "Chunks per second of the most recently indexed source",
+  ),
+);
+
+export const indexingFailuresTotal = metricsRegistry.register(
+  new Counter(
+    "ai_worker_indexing_failures_total",
+    "Sources that failed to index",
+    ["source_type"],
+  ),
+);
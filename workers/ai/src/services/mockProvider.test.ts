@@ -0,0 +1,171 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { LLMRequest, LLMToolCall, LLMUsage } from "./llmProvider";
+import { MockProvider } from "./mockProvider";
+
+const ask = (content: string, extra: Partial<LLMRequest> = {}): LLMRequest => ({
+  messages: [
+    { role: "system", content: "Be brief." },
+    { role: "user", content },
+  ],
+  ...extra,
+});
+
+const searchTool = {
+  name: "search_sources",
+  description: "Search the note's sources",
+  parameters: { type: "object", properties: { query: { type: "string" } } },
+};
+
+describe("MockProvider", () => {
+  it("echoes the last user message", async () => {
+    const response = await new MockProvider().complete(ask("Churn in Q3?"));
+    expect(response).toEqual({
+      content: "Echo: Churn in Q3?",
+      usage: { prompt_tokens: 5, completion_tokens: 4, total_tokens: 9 },
+      model: "mock-echo",
+      provider: "mock",
+      tool_calls: undefined,
+    });
+  });
+
+  it("cycles through canned responses unless mock-echo is asked for", async () => {
+    const provider = new MockProvider({ responses: ["First", "Second"] });
+    expect(provider.defaultModel).toBe("mock-canned");
+
+    const contents: string[] = [];
+    for (const model of [undefined, undefined, "mock-echo", undefined]) {
+      contents.push((await provider.complete(ask("Hi", { model }))).content);
+    }
+    expect(contents).toEqual(["First", "Second", "Echo: Hi", "First"]);
+  });
+
+  it("loads canned responses from a file", () => {
+    const file = path.join(os.tmpdir(), `mock-responses-${process.pid}.json`);
+    try {
+      fs.writeFileSync(file, JSON.stringify(["One"]));
+      expect(MockProvider.fromResponsesFile(file).defaultModel).toBe(
+        "mock-canned",
+      );
+      fs.writeFileSync(file, JSON.stringify({ responses: ["One"] }));
+      expect(() => MockProvider.fromResponsesFile(file)).toThrow(
+        "must contain a JSON array of strings",
+      );
+    } finally {
+      fs.rmSync(file, { force: true });
+    }
+  });
+
+  it("calls the tool a /tool message names, then reports its results", async () => {
+    const provider = new MockProvider();
+    const request = ask('/tool search_sources {"query": "churn"}', {
+      tools: [searchTool],
+    });
+
+    const { content, tool_calls } = await provider.complete(request);
+    expect(content).toBe("");
+    expect(tool_calls).toEqual([
+      {
+        id: "mock_call_2",
+        name: "search_sources",
+        arguments: { query: "churn" },
+      },
+    ]);
+
+    const followUp = await provider.complete({
+      ...request,
+      messages: [
+        ...request.messages,
+        { role: "assistant", content: "", tool_calls },
+        {
+          role: "tool",
+          content: "Churn rose 4%.",
+          tool_call_id: "mock_call_2",
+        },
+      ],
+    });
+    expect(followUp.content).toBe("Tool results:\nChurn rose 4%.");
+  });
+
+  it("ignores /tool messages when no tools are offered", async () => {
+    const response = await new MockProvider().complete(
+      ask("/tool search_sources {}", {
+        tools: [searchTool],
+        tool_choice: "none",
+      }),
+    );
+    expect(response.tool_calls).toBeUndefined();
+    expect(response.content).toBe("Echo: /tool search_sources {}");
+  });
+
+  it("answers a response schema with a matching example", async () => {
+    const response = await new MockProvider().complete(
+      ask("Summarize", {
+        response_schema: {
+          name: "summary",
+          schema: {
+            type: "object",
+            properties: {
+              title: { type: "string" },
+              count: { type: "integer" },
+            },
+            required: ["title", "count"],
+          },
+        },
+      }),
+    );
+    expect(Object.keys(JSON.parse(response.content)).sort()).toEqual([
+      "count",
+      "title",
+    ]);
+  });
+
+  it("streams the response in chunks of words and reports usage", async () => {
+    const provider = new MockProvider({ chunkSize: 2, chunkDelayMs: 0 });
+    const usage: LLMUsage[] = [];
+    const chunks: string[] = [];
+    for await (const chunk of provider.stream(ask("one two three"), {
+      onUsage: (reported) => usage.push(reported),
+    })) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toEqual(["Echo: one ", "two three"]);
+    expect(usage).toEqual([
+      { prompt_tokens: 5, completion_tokens: 4, total_tokens: 9 },
+    ]);
+  });
+
+  it("streams scripted tool calls instead of text", async () => {
+    const toolCalls: LLMToolCall[][] = [];
+    const chunks: string[] = [];
+    for await (const chunk of new MockProvider().stream(
+      ask("/tool search_sources", { tools: [searchTool] }),
+      { onToolCalls: (calls) => toolCalls.push(calls) },
+    )) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual([]);
+    expect(toolCalls).toEqual([
+      [{ id: "mock_call_2", name: "search_sources", arguments: {} }],
+    ]);
+  });
+
+  it("stops streaming once aborted", async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    const streaming = (async () => {
+      for await (const chunk of new MockProvider({
+        chunkSize: 1,
+        chunkDelayMs: 0,
+      }).stream(ask("a b c d"), { signal: controller.signal })) {
+        chunks.push(chunk);
+        controller.abort();
+      }
+    })();
+
+    await expect(streaming).rejects.toThrow("Request was aborted");
+    expect(chunks).toEqual(["Echo: "]);
+  });
+});
@@ -0,0 +1,187 @@
+import fs from "fs";
+import {
+  LLMProvider,
+  LLMRequest,
+  LLMResponse,
+  LLMStreamOptions,
+  LLMToolCall,
+  LLMUsage,
+} from "./llmProvider";
+import { exampleForSchema } from "./structuredOutput";
+
+/**
+ * Options for the mock provider
+ */
+export interface MockProviderOptions {
+  responses?: string[]; // Canned responses, returned in order and cycled
+  chunkSize?: number; // Words per streamed chunk
+  chunkDelayMs?: number; // Delay between streamed chunks
+}
+
+/**
+ * Deterministic LLM provider for offline development and tests.
+ * With canned responses it returns them in order; otherwise it echoes the
+ * last user message back. Nothing leaves the machine.
+ *
+ * When tools are offered, a user message of the form
+ * `/tool <name> <json arguments>` makes the mock call that tool, and the
+ * following turn reports the tool results. Requests with a response schema
+ * get a minimal matching JSON value instead of the echo.
+ */
+export class MockProvider implements LLMProvider {
+  name = "mock";
+  models = ["mock-echo", "mock-canned"];
+  defaultModel: string;
+  private responses: string[];
+  private chunkSize: number;
+  private chunkDelayMs: number;
+  private responseIndex = 0;
+
+  constructor(options: MockProviderOptions = {}) {
+    this.responses = options.responses || [];
+    this.chunkSize = options.chunkSize || 3;
+    this.chunkDelayMs = options.chunkDelayMs ?? 20;
+    this.defaultModel = this.responses.length > 0 ? "mock-canned" : "mock-echo";
+  }
+
+  /**
+   * Load canned responses from a JSON file containing an array of strings
+   */
+  static fromResponsesFile(
+    filePath: string,
+    options: Omit<MockProviderOptions, "responses"> = {},
+  ): MockProvider {
+    const parsed = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    if (
+      !Array.isArray(parsed) ||
+      !parsed.every((item) => typeof item === "string")
+    ) {
+      throw new Error(`${filePath} must contain a JSON array of strings`);
+    }
+    return new MockProvider({ ...options, responses: parsed });
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const toolCalls = this.scriptedToolCalls(request);
+    const content = toolCalls ? "" : this.nextResponse(request);
+
+    return {
+      content,
+      usage: this.usageFor(request, content),
+      model: this.modelFor(request),
+      provider: this.name,
+      tool_calls: toolCalls,
+    };
+  }
+
+  async *stream(
+    request: LLMRequest,
+    options: LLMStreamOptions = {},
+  ): AsyncIterable<string> {
+    const toolCalls = this.scriptedToolCalls(request);
+    if (toolCalls) {
+      options.onToolCalls?.(toolCalls);
+      options.onUsage?.(this.usageFor(request, ""), this.modelFor(request));
+      return;
+    }
+
+    const response = this.nextResponse(request);
+    const words = response.split(/(?<=\s)/);
+
+    for (let i = 0; i < words.length; i += this.chunkSize) {
+      if (this.chunkDelayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, this.chunkDelayMs));
+      }
+      if (options.signal?.aborted) {
+        throw new Error("Request was aborted");
+      }
+      yield words.slice(i, i + this.chunkSize).join("");
+    }
+
+    options.onUsage?.(this.usageFor(request, response), this.modelFor(request));
+  }
+
+  /**
+   * Tool calls scripted by a trailing `/tool <name> <json>` user message
+   */
+  private scriptedToolCalls(request: LLMRequest): LLMToolCall[] | undefined {
+    const lastMessage = request.messages[request.messages.length - 1];
+    if (
+      !request.tools?.length ||
+      request.tool_choice === "none" ||
+      lastMessage?.role !== "user"
+    ) {
+      return undefined;
+    }
+
+    const match = lastMessage.content.match(/^\/tool\s+(\S+)\s*([\s\S]*)$/);
+    if (!match) return undefined;
+
+    return [
+      {
+        id: `mock_call_${request.messages.length}`,
+        name: match[1],
+        arguments: match[2].trim() ? JSON.parse(match[2]) : {},
+      },
+    ];
+  }
+
+  private nextResponse(request: LLMRequest): string {
+    const trailingToolResults: string[] = [];
+    for (let i = request.messages.length - 1; i >= 0; i--) {
+      if (request.messages[i].role !== "tool") break;
+      trailingToolResults.unshift(request.messages[i].content);
+    }
+    if (trailingToolResults.length > 0) {
+      return `Tool results:\n${trailingToolResults.join("\n\n")}`;
+    }
+
+    const useCanned =
+      this.responses.length > 0 && request.model !== "mock-echo";
+
+    if (useCanned) {
+      const response =
+        this.responses[this.responseIndex % this.responses.length];
+      this.responseIndex++;
+      return response;
+    }
+
+    if (request.response_schema) {
+      return JSON.stringify(exampleForSchema(request.response_schema.schema));
+    }
+
+    const lastUserMessage = [...request.messages]
+      .reverse()
+      .find((message) => message.role === "user");
+    return `Echo: ${lastUserMessage?.content ?? ""}`;
+  }
+
+  private modelFor(request: LLMRequest): string {
+    return this.models.includes(request.model)
+      ? request.model
+      : this.defaultModel;
+  }
+
+  private usageFor(request: LLMRequest, content: string): LLMUsage {
+    const promptTokens = this.countTokens(
+      request.messages.map((message) => message.content).join(" "),
+    );
+    const completionTokens = this.countTokens(content);
+    return {
+      prompt_tokens: promptTokens,
+      completion_tokens: completionTokens,
+      total_tokens: promptTokens + completionTokens,
+    };
+  }
+
+  /**
+   * Rough whitespace token count, good enough for deterministic usage numbers
+   */
+  private countTokens(text: string): number {
+    return text.split(/\s+/).filter((word) => word.length > 0).length;
+  }
+}
@@ -0,0 +1,92 @@
+import type { LLMProvider } from "./llmProvider";
+import { describeModel, ModelCatalog } from "./modelCatalog";
+
+/**
+ * Provider whose model listing returns the given lists in turn. A list of
+ * `null` fails.
+ */
+const listing = (...lists: Array<string[] | null>) => {
+  const loadModels = jest.fn(async () => {
+    const next = lists.shift();
+    if (!next) throw new Error("Listing failed");
+    provider.models = next;
+    return next;
+  });
+  const provider: LLMProvider = {
+    name: "openai",
+    models: ["gpt-4o"],
+    defaultModel: "gpt-4o",
+    isConfigured: () => true,
+    complete: async () => {
+      throw new Error("not used");
+    },
+    stream: async function* () {},
+    loadModels,
+  };
+  return { provider, loadModels };
+};
+
+describe("describeModel", () => {
+  it("reports the context window, tool support and price", () => {
+    expect(describeModel("openai", "gpt-4o-mini-2024-07-18")).toEqual({
+      id: "gpt-4o-mini-2024-07-18",
+      contextWindow: 128000,
+      streaming: true,
+      tools: true,
+      pricing: { input: 0.15, output: 0.6 },
+    });
+    expect(describeModel("openai", "o1-mini").tools).toBe(false);
+    expect(describeModel("openai", "my-fine-tune").pricing).toBeNull();
+  });
+});
+
+describe("ModelCatalog", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it("lists the provider's models with their capabilities", () => {
+    const { provider } = listing();
+    expect(new ModelCatalog(1000).list(provider)).toEqual([
+      describeModel("openai", "gpt-4o"),
+    ]);
+  });
+
+  it("reloads the models once the TTL has passed", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const { provider, loadModels } = listing(["gpt-4o"], ["gpt-4.1"]);
+    const catalog = new ModelCatalog(1000);
+
+    await catalog.refresh(provider);
+    now.mockReturnValue(999);
+    await catalog.refresh(provider);
+    expect(loadModels).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1000);
+    await catalog.refresh(provider);
+    expect(loadModels).toHaveBeenCalledTimes(2);
+    expect(catalog.list(provider).map((model) => model.id)).toEqual([
+      "gpt-4.1",
+    ]);
+  });
+
+  it("loads once for concurrent refreshes", async () => {
+    const { provider, loadModels } = listing(["gpt-4o"]);
+    const catalog = new ModelCatalog(1000);
+    await Promise.all([catalog.refresh(provider), catalog.refresh(provider)]);
+    expect(loadModels).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps the previous list when loading fails, until the TTL passes", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(0);
+    const { provider, loadModels } = listing(null, ["gpt-4.1"]);
+    const catalog = new ModelCatalog(1000);
+
+    await expect(catalog.refresh(provider)).resolves.toBeUndefined();
+    expect(provider.models).toEqual(["gpt-4o"]);
+    await catalog.refresh(provider);
+    expect(loadModels).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(1000);
+    await catalog.refresh(provider);
+    expect(provider.models).toEqual(["gpt-4.1"]);
+  });
+});
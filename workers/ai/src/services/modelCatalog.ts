@@ -0,0 +1,86 @@
+import type { LLMProvider } from "./llmProvider";
+import { contextBudget } from "./contextBudget";
+import { getModelPricing, ModelPricing } from "./pricing";
+import { logger } from "../utils/logger";
+
+const log = logger.child("models");
+
+/**
+ * Models that can't be offered tools, by name prefix
+ */
+const NO_TOOL_MODELS = ["o1-mini", "o1-preview", "chatgpt-4o"];
+
+/**
+ * What the worker knows about a model, as listed by /api/providers
+ */
+export interface ModelInfo {
+  id: string;
+  contextWindow: number; // Tokens, as used for context budgeting
+  streaming: boolean;
+  tools: boolean;
+  pricing: ModelPricing | null; // USD per million tokens, null if unknown
+}
+
+/**
+ * Capabilities and price of a model, from the same tables the worker uses
+ * to budget and bill requests
+ */
+export function describeModel(provider: string, model: string): ModelInfo {
+  return {
+    id: model,
+    contextWindow: contextBudget.getContextLimit(provider, model),
+    streaming: true,
+    tools: !NO_TOOL_MODELS.some((prefix) => model.startsWith(prefix)),
+    pricing: getModelPricing(provider, model) || null,
+  };
+}
+
+/**
+ * Keeps each provider's model list current by asking its API, at most once
+ * per TTL. Providers that can't list their models keep their built-in list.
+ */
+export class ModelCatalog {
+  private loadedAt: Map<string, number> = new Map();
+  private loading: Map<string, Promise<void>> = new Map();
+
+  constructor(private ttlMs: number) {}
+
+  /**
+   * Reload the provider's models if the list is older than the TTL. A
+   * failed reload keeps the previous list and is retried after the TTL.
+   */
+  async refresh(provider: LLMProvider): Promise<void> {
+    if (!provider.loadModels) return;
+    const loadedAt = this.loadedAt.get(provider.name);
+    if (loadedAt !== undefined && Date.now() - loadedAt < this.ttlMs) return;
+
+    let loading = this.loading.get(provider.name);
+    if (!loading) {
+      loading = provider
+        .loadModels()
+        .then((models) => {
+          log.debug("Loaded models", {
+            provider: provider.name,
+            models: models.length,
+          });
+        })
+        .catch((error) => {
+          log.warn("Could not list models", { provider: provider.name, error });
+        })
+        .finally(() => {
+          this.loadedAt.set(provider.name, Date.now());
+          this.loading.delete(provider.name);
+        });
+      this.loading.set(provider.name, loading);
+    }
+    await loading;
+  }
+
+  list(provider: LLMProvider): ModelInfo[] {
+    return provider.models.map((model) => describeModel(provider.name, model));
+  }
+}
+
+export const modelCatalog = new ModelCatalog(
+  Number(process.env.MODEL_CATALOG_TTL_MS) || 10 * 60 * 1000,
+);
@@ -0,0 +1,120 @@
+import {
+  SelectableResult,
+  chunkId,
+  mergeNeighbours,
+  selectByMarginalRelevance,
+} from "./passageSelection";
+
+const result = (
+  sourceId: string,
+  chunkIndex: number,
+  score: number,
+  content = "",
+  metadata: Partial<SelectableResult["metadata"]> = {},
+): SelectableResult => ({
+  content,
+  score,
+  metadata: { sourceId, chunkIndex, ...metadata },
+});
+
+describe("selectByMarginalRelevance", () => {
+  const candidates = [
+    result("a", 0, 0.9),
+    result("a", 1, 0.88),
+    result("b", 0, 0.7),
+  ];
+  const embeddings = new Map([
+    ["a_chunk_0", [1, 0]],
+    ["a_chunk_1", [0.99, 0.1]],
+    ["b_chunk_0", [0, 1]],
+  ]);
+  const ids = (results: SelectableResult[]) =>
+    results.map((picked) => chunkId(picked.metadata));
+
+  it("passes over a near-duplicate for a result that adds something", () => {
+    expect(
+      ids(selectByMarginalRelevance(candidates, embeddings, 2, 0.3)),
+    ).toEqual(["a_chunk_0", "b_chunk_0"]);
+  });
+
+  it("keeps the most relevant results in order without diversity", () => {
+    expect(
+      ids(selectByMarginalRelevance(candidates, embeddings, 2, 0)),
+    ).toEqual(["a_chunk_0", "a_chunk_1"]);
+  });
+
+  it("treats results without an embedding as unlike the others", () => {
+    const partial = new Map([["a_chunk_0", [1, 0]]]);
+    expect(ids(selectByMarginalRelevance(candidates, partial, 3, 0.3))).toEqual(
+      ["a_chunk_0", "a_chunk_1", "b_chunk_0"],
+    );
+  });
+});
+
+describe("mergeNeighbours", () => {
+  const text =
+    "Alpha beta gamma. ".repeat(10) + "Delta epsilon zeta. ".repeat(10);
+  const slice = (
+    chunkIndex: number,
+    start: number,
+    end: number,
+    score: number,
+    page: number,
+  ) =>
+    result("a", chunkIndex, score, text.slice(start, end), {
+      startOffset: start,
+      endOffset: end,
+      page,
+    });
+
+  it("joins consecutive chunks of a source at their offsets", () => {
+    const merged = mergeNeighbours([
+      slice(1, 50, 150, 0.9, 1),
+      slice(0, 0, 100, 0.8, 1),
+      slice(2, 120, 250, 0.7, 2),
+      result("b", 4, 0.6, "other"),
+    ]);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].content).toBe(text.slice(0, 250));
+    expect(merged[0].score).toBe(0.9);
+    expect(merged[0].metadata).toEqual({
+      sourceId: "a",
+      chunkIndex: 0,
+      startOffset: 0,
+      endOffset: 250,
+      page: 1,
+      lastChunkIndex: 2,
+      lastPage: 2,
+    });
+    expect(merged[1].content).toBe("other");
+  });
+
+  it("leaves chunks that aren't neighbours apart", () => {
+    const merged = mergeNeighbours([
+      slice(0, 0, 100, 0.9, 1),
+      slice(2, 120, 250, 0.7, 2),
+    ]);
+    expect(merged.map((passage) => passage.metadata.chunkIndex)).toEqual([
+      0, 2,
+    ]);
+  });
+
+  it("drops the shared text of chunks without offsets", () => {
+    const merged = mergeNeighbours([
+      result("c", 1, 0.5, "shared text that overlaps and more"),
+      result("c", 0, 1, "xxxxxshared text that overlaps"),
+    ]);
+    expect(merged.map((passage) => passage.content)).toEqual([
+      "xxxxxshared text that overlaps and more",
+    ]);
+  });
+
+  it("keeps both texts when the overlap is too short to trust", () => {
+    const merged = mergeNeighbours([
+      result("c", 0, 1, "ends with the word"),
+      result("c", 1, 0.5, "the word starts this"),
+    ]);
+    expect(merged[0].content).toBe("ends with the word\nthe word starts this");
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * How much selection favours variety over relevance, from 0 (the most
+ * relevant chunks, in order) to 1, when a request doesn't say
+ */
+export const DEFAULT_DIVERSITY = parseDiversity(process.env.SEARCH_DIVERSITY);
+
+/**
+ * Candidates considered for each result kept when selecting for diversity
+ */
+export const DIVERSITY_CANDIDATES_PER_RESULT = 3;
+
+/**
+ * Shortest shared text taken for overlap when joining chunks without
+ * offsets, so a chance match of a few characters isn't dropped
+ */
+const MIN_OVERLAP = 20;
+
+/**
+ * What selecting and merging needs to know about a retrieved chunk
+ */
+export interface SelectableResult {
+  content: string;
+  score: number;
+  metadata: {
+    sourceId: string;
+    chunkIndex: number;
+    startOffset?: number;
+    endOffset?: number;
+    page?: number;
+    lastChunkIndex?: number; // Set when neighbouring chunks were merged
+    lastPage?: number; // Set when merged chunks span pages
+  };
+}
+
+/**
+ * SEARCH_DIVERSITY, or 0.3 if it isn't a number from 0 to 1
+ */
+function parseDiversity(value: string | undefined): number {
+  const diversity = Number(value);
+  return value && diversity >= 0 && diversity <= 1 ? diversity : 0.3;
+}
+
+export function chunkId(metadata: SelectableResult["metadata"]): string {
+  return `${metadata.sourceId}_chunk_${metadata.chunkIndex}`;
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Pick `topK` results by maximal marginal relevance: each pick maximizes
+ * `(1 - diversity) * relevance - diversity * similarity`, where relevance is
+ * the result's score relative to the best and similarity is the cosine
+ * similarity to the closest result already picked. Near-duplicates of a
+ * pick, such as overlapping chunks, fall behind results that add
+ * something. Results without an embedding count as unlike the others.
+ */
+export function selectByMarginalRelevance<T extends SelectableResult>(
+  results: T[],
+  embeddings: Map<string, number[]>,
+  topK: number,
+  diversity: number,
+): T[] {
+  if (diversity <= 0 || results.length <= 1) return results.slice(0, topK);
+
+  const bestScore = Math.max(...results.map((result) => result.score));
+  const vectors = results.map((result) =>
+    embeddings.get(chunkId(result.metadata)),
+  );
+  // Similarity to the closest pick so far, for each remaining result
+  const closest = results.map(() => 0);
+  const remaining = new Set(results.map((_, index) => index));
+  const picked: T[] = [];
+
+  while (picked.length < topK && remaining.size > 0) {
+    let pick = -1;
+    let pickValue = -Infinity;
+    for (const index of remaining) {
+      const relevance = bestScore > 0 ? results[index].score / bestScore : 0;
+      const value = (1 - diversity) * relevance - diversity * closest[index];
+      if (value > pickValue) {
+        pick = index;
+        pickValue = value;
+      }
+    }
+
+    remaining.delete(pick);
+    picked.push(results[pick]);
+    const pickVector = vectors[pick];
+    if (!pickVector) continue;
+    for (const index of remaining) {
+      const vector = vectors[index];
+      if (vector) {
+        closest[index] = Math.max(
+          closest[index],
+          cosineSimilarity(pickVector, vector),
+        );
+      }
+    }
+  }
+  return picked;
+}
+
+/**
+ * Join two chunks, dropping the text they share. Chunks with offsets are
+ * joined exactly; older chunks by the longest end of `first` that starts
+ * `second`, if it's at least MIN_OVERLAP long.
+ */
+function joinChunks(first: SelectableResult, second: SelectableResult): string {
+  const { endOffset } = first.metadata;
+  const { startOffset } = second.metadata;
+  if (endOffset !== undefined && startOffset !== undefined) {
+    if (startOffset >= endOffset) return `${first.content}\n${second.content}`;
+    return first.content + second.content.slice(endOffset - startOffset);
+  }
+
+  const longest = Math.min(first.content.length, second.content.length);
+  for (let length = longest; length >= MIN_OVERLAP; length--) {
+    if (first.content.endsWith(second.content.slice(0, length))) {
+      return first.content + second.content.slice(length);
+    }
+  }
+  return `${first.content}\n${second.content}`;
+}
+
+/**
+ * Merge results from the same source with consecutive chunk indexes into
+ * one passage, so overlapping text is sent once. A merged passage keeps
+ * the metadata of its first chunk, with `lastChunkIndex`, `endOffset` and
+ * `lastPage` taken from its last, and the best score of its chunks. Results
+ * stay in order of their best chunk.
+ */
+export function mergeNeighbours<T extends SelectableResult>(results: T[]): T[] {
+  const bySource = new Map<string, T[]>();
+  for (const result of results) {
+    const chunks = bySource.get(result.metadata.sourceId) || [];
+    chunks.push(result);
+    bySource.set(result.metadata.sourceId, chunks);
+  }
+
+  const merged: { passage: T; rank: number }[] = [];
+  for (const chunks of bySource.values()) {
+    chunks.sort((a, b) => a.metadata.chunkIndex - b.metadata.chunkIndex);
+
+    let passage = chunks[0];
+    let rank = results.indexOf(passage);
+    for (const chunk of chunks.slice(1)) {
+      const last =
+        passage.metadata.lastChunkIndex ?? passage.metadata.chunkIndex;
+      if (chunk.metadata.chunkIndex !== last + 1) {
+        merged.push({ passage, rank });
+        passage = chunk;
+        rank = results.indexOf(chunk);
+        continue;
+      }
+
+      const best = chunk.score > passage.score ? chunk : passage;
+      passage = {
+        ...best,
+        content: joinChunks(passage, chunk),
+        score: best.score,
+        metadata: {
+          ...passage.metadata,
+          lastChunkIndex: chunk.metadata.chunkIndex,
+          endOffset: chunk.metadata.endOffset,
+          ...(chunk.metadata.page !== undefined &&
+            chunk.metadata.page !== passage.metadata.page && {
+              lastPage: chunk.metadata.page,
+            }),
+        },
+      };
+      rank = Math.min(rank, results.indexOf(chunk));
+    }
+    merged.push({ passage, rank });
+  }
+
+  return merged.sort((a, b) => a.rank - b.rank).map(({ passage }) => passage);
+}
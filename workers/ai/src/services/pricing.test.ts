@@ -0,0 +1,40 @@
+import { calculateCost, getModelPricing } from "./pricing";
+
+describe("getModelPricing", () => {
+  it("matches dated snapshots by the longest model prefix", () => {
+    expect(getModelPricing("openai", "gpt-4o-2024-08-06")).toEqual({
+      input: 2.5,
+      output: 10,
+    });
+    expect(getModelPricing("openai", "gpt-4o-mini-2024-07-18")).toEqual({
+      input: 0.15,
+      output: 0.6,
+    });
+  });
+
+  it("prices local and mock models at zero", () => {
+    expect(getModelPricing("local", "gpt-4o")).toEqual({ input: 0, output: 0 });
+    expect(getModelPricing("mock", "mock-echo")).toEqual({
+      input: 0,
+      output: 0,
+    });
+  });
+
+  it("has no price for unknown models", () => {
+    expect(getModelPricing("openai", "my-fine-tune")).toBeUndefined();
+  });
+});
+
+describe("calculateCost", () => {
+  it("charges prompt and completion tokens at their own rates", () => {
+    const usage = {
+      prompt_tokens: 2000,
+      completion_tokens: 500,
+      total_tokens: 2500,
+    };
+    expect(calculateCost("anthropic", "claude-3-5-haiku-latest", usage)).toBe(
+      (2000 * 0.8 + 500 * 4) / 1_000_000,
+    );
+    expect(calculateCost("openai", "my-fine-tune", usage)).toBeUndefined();
+  });
+});
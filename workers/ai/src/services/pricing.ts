@@ -0,0 +1,66 @@
+import type { LLMUsage } from "./llmProvider";
+
+/**
+ * Price in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices keyed by model name prefix, so dated snapshots such as
+ * `gpt-4o-2024-08-06` match their family. The longest matching prefix wins.
+ * Models served by the `local` and `mock` providers are free.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-4": { input: 30, output: 60 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-opus": { input: 15, output: 75 },
+};
+
+const FREE_PROVIDERS = new Set(["local", "mock"]);
+
+/**
+ * Look up the price of a model, or undefined if it isn't in the table
+ */
+export function getModelPricing(
+  provider: string,
+  model: string,
+): ModelPricing | undefined {
+  if (FREE_PROVIDERS.has(provider)) {
+    return { input: 0, output: 0 };
+  }
+
+  const prefix = Object.keys(MODEL_PRICING)
+    .filter((key) => model.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_PRICING[prefix] : undefined;
+}
+
+/**
+ * Cost of a request in USD, or undefined if the model has no known price
+ */
+export function calculateCost(
+  provider: string,
+  model: string,
+  usage: LLMUsage,
+): number | undefined {
+  const pricing = getModelPricing(provider, model);
+  if (!pricing) return undefined;
+
+  return (
+    (usage.prompt_tokens * pricing.input +
+      usage.completion_tokens * pricing.output) /
+    1_000_000
+  );
+}
@@ -0,0 +1,103 @@
+import type { LLMService } from "./llmProvider";
+import { QueryPlanner } from "./queryPlanner";
+import type { ScheduledCall } from "./requestScheduler";
+
+const fakeLLM = (data: unknown) => {
+  const complete = jest.fn(async () => ({
+    content: JSON.stringify(data),
+    data,
+    model: "model",
+    provider: "provider",
+  }));
+  const getProvider = (name?: string) => ({ name: name || "openai" });
+  return {
+    llm: { complete, getProvider } as unknown as LLMService,
+    complete,
+  };
+};
+
+describe("QueryPlanner", () => {
+  const history = [
+    { role: "user" as const, content: "Which regions did we cover?" },
+    { role: "assistant" as const, content: "EMEA and APAC." },
+  ];
+
+  it("searches the question as asked when there's nothing to plan", async () => {
+    const { llm, complete } = fakeLLM({});
+    const planner = new QueryPlanner();
+    planner.configure(llm);
+
+    expect(await planner.plan("churn in Q3")).toEqual({
+      query: "churn in Q3",
+      subQueries: [],
+    });
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it("rewrites follow-ups and drops repeated sub-queries", async () => {
+    const { llm } = fakeLLM({
+      query: "churn in APAC",
+      subQueries: ["Churn in APAC", "APAC retention", " "],
+    });
+    const planner = new QueryPlanner();
+    planner.configure(llm);
+
+    expect(
+      await planner.plan("what about the second one?", {
+        history,
+        subQueries: 2,
+      }),
+    ).toEqual({ query: "churn in APAC", subQueries: ["APAC retention"] });
+  });
+
+  it("asks the request's model rather than its own", async () => {
+    const { llm, complete } = fakeLLM({ query: "churn in APAC" });
+    const planner = new QueryPlanner();
+    planner.configure(llm, { provider: "openai", model: "gpt-4o-mini" });
+
+    await planner.plan("and the second?", {
+      history,
+      target: { provider: "local", model: "llama3" },
+    });
+    expect(complete).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "llama3" }),
+      "local",
+    );
+
+    await planner.plan("and the second?", { history });
+    expect(complete).toHaveBeenLastCalledWith(
+      expect.objectContaining({ model: "gpt-4o-mini" }),
+      "openai",
+    );
+  });
+
+  it("waits for a scheduler slot for the provider it calls", async () => {
+    const { llm, complete } = fakeLLM({ query: "churn in APAC" });
+    const planner = new QueryPlanner();
+    planner.configure(llm);
+    const scheduled: (string | undefined)[] = [];
+    const schedule: ScheduledCall = (provider, call) => {
+      expect(complete).not.toHaveBeenCalled();
+      scheduled.push(provider);
+      return call();
+    };
+
+    await planner.plan("and the second?", { history, schedule });
+    expect(scheduled).toEqual(["openai"]);
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it("searches the question as asked if planning fails", async () => {
+    const planner = new QueryPlanner();
+    planner.configure({
+      complete: async () => {
+        throw new Error("down");
+      },
+    } as unknown as LLMService);
+
+    expect(await planner.plan("and the second?", { history })).toEqual({
+      query: "and the second?",
+      subQueries: [],
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import type { LLMService, LLMUsage } from "./llmProvider";
+import type { LLMTarget } from "./resilience";
+import type { ScheduledCall } from "./requestScheduler";
+import { logger } from "../utils/logger";
+
+const log = logger.child("query-planner");
+
+/**
+ * Most recent turns of the conversation shown to the planner, and the
+ * characters kept of each
+ */
+const HISTORY_TURNS = 6;
+const HISTORY_TURN_LENGTH = 1000;
+
+export const MAX_SUB_QUERIES = 5;
+
+/**
+ * A turn of the conversation before the question
+ */
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export type QueryPlanUsageCallback = (
+  usage: LLMUsage,
+  model: string,
+  provider: string,
+) => void;
+
+export interface QueryPlanOptions {
+  history?: ChatTurn[]; // Oldest first
+  rewriteQuery?: boolean; // Rewrite follow-ups into standalone queries; on by default
+  subQueries?: number; // Extra queries covering other parts or phrasings of the question
+  hyde?: boolean; // Also search with a hypothetical answer
+  target?: LLMTarget; // The model answering the question, instead of QUERY_PLANNER_LLM
+  schedule?: ScheduledCall; // Waits for a scheduler slot before calling the model
+  onUsage?: QueryPlanUsageCallback;
+}
+
+/**
+ * The searches run for a question
+ */
+export interface QueryPlan {
+  query: string; // Standalone query, or the question as asked
+  subQueries: string[];
+  hypotheticalAnswer?: string; // Embedded and searched like a passage
+}
+
+/**
+ * Turns a chat message into search queries with one structured call to a
+ * chat model. Follow-ups such as "what about the second one?" are rewritten
+ * into queries that make sense without the conversation, and the model can
+ * add sub-queries and a hypothetical answer to search with (HyDE). Without
+ * a model, or if the call fails, the question is searched as asked.
+ *
+ * The planner sees the conversation, so it's asked with the model that
+ * answers the question when the request names one, and only falls back to
+ * its own model otherwise.
+ */
+export class QueryPlanner {
+  private llm?: LLMService;
+  private target?: LLMTarget;
+
+  configure(llm: LLMService, target?: LLMTarget): void {
+    this.llm = llm;
+    this.target = target;
+    log.info("Query planner configured", {
+      provider: target?.provider,
+      model: target?.model,
+    });
+  }
+
+  async plan(
+    question: string,
+    options: QueryPlanOptions = {},
+  ): Promise<QueryPlan> {
+    const history = (options.history || []).slice(-HISTORY_TURNS);
+    const rewrite = options.rewriteQuery !== false && history.length > 0;
+    const subQueries = Math.min(
+      Math.max(Math.floor(options.subQueries || 0), 0),
+      MAX_SUB_QUERIES,
+    );
+    const hyde = !!options.hyde;
+    const unplanned: QueryPlan = { query: question, subQueries: [] };
+    const llm = this.llm;
+    if (!llm || (!rewrite && subQueries === 0 && !hyde)) return unplanned;
+    const target = options.target || this.target;
+
+    const tasks: string[] = [];
+    const properties: Record<string, any> = {};
+    if (rewrite) {
+      tasks.push(
+        'query: rewrite the message into a standalone search query. Resolve pronouns and references such as "the second one" from the conversation, and keep names, numbers and terms exactly.',
+      );
+      properties.query = { type: "string" };
+    }
+    if (subQueries > 0) {
+      tasks.push(
+        `subQueries: up to ${subQueries} more search queries that cover different parts or phrasings of the question. Leave the list empty if the question is simple.`,
+      );
+      properties.subQueries = {
+        type: "array",
+        items: { type: "string" },
+        maxItems: subQueries,
+      };
+    }
+    if (hyde) {
+      tasks.push(
+        "hypotheticalAnswer: a short passage, as it might appear in a document, that answers the question. It's used to find similar passages, so write it plainly even if you aren't sure of the facts.",
+      );
+      properties.hypotheticalAnswer = { type: "string" };
+    }
+
+    const conversation = history
+      .map(
+        (turn) =>
+          `${turn.role === "user" ? "User" : "Assistant"}: ${turn.content.slice(0, HISTORY_TURN_LENGTH)}`,
+      )
+      .join("\n\n");
+
+    const call = () =>
+      llm.complete(
+        {
+          messages: [
+            {
+              role: "system",
+              content: `You plan searches over a user's documents for their latest chat message. Return:\n- ${tasks.join("\n- ")}\n\nDon't answer the message itself.`,
+            },
+            {
+              role: "user",
+              content: conversation
+                ? `Conversation so far:\n${conversation}\n\nLatest message: ${question}`
+                : `Message: ${question}`,
+            },
+          ],
+          model: target?.model,
+          temperature: 0,
+          response_schema: {
+            name: "query_plan",
+            schema: {
+              type: "object",
+              properties,
+              required: Object.keys(properties),
+            },
+          },
+        },
+        target?.provider,
+      );
+
+    try {
+      const response = options.schedule
+        ? await options.schedule(llm.getProvider(target?.provider)?.name, call)
+        : await call();
+      if (response.usage) {
+        options.onUsage?.(response.usage, response.model, response.provider);
+      }
+
+      const data = (response.data || {}) as {
+        query?: unknown;
+        subQueries?: unknown;
+        hypotheticalAnswer?: unknown;
+      };
+      const query =
+        rewrite && typeof data.query === "string" && data.query.trim()
+          ? data.query.trim()
+          : question;
+      const seen = new Set([query.toLowerCase()]);
+      const plan: QueryPlan = {
+        query,
+        subQueries: (Array.isArray(data.subQueries) ? data.subQueries : [])
+          .filter(
+            (subQuery): subQuery is string => typeof subQuery === "string",
+          )
+          .map((subQuery) => subQuery.trim())
+          .filter((subQuery) => {
+            const key = subQuery.toLowerCase();
+            if (!subQuery || seen.has(key)) return false;
+            seen.add(key);
+            return true;
+          })
+          .slice(0, subQueries),
+      };
+      if (
+        hyde &&
+        typeof data.hypotheticalAnswer === "string" &&
+        data.hypotheticalAnswer.trim()
+      ) {
+        plan.hypotheticalAnswer = data.hypotheticalAnswer.trim();
+      }
+
+      log.debug("Planned query", {
+        rewritten: plan.query !== question,
+        subQueries: plan.subQueries.length,
+        hyde: !!plan.hypotheticalAnswer,
+      });
+      return plan;
+    } catch (error) {
+      log.warn("Query planning failed, searching for the question as asked", {
+        error,
+      });
+      return unplanned;
+    }
+  }
+}
+
+export const queryPlanner = new QueryPlanner();
@@ -0,0 +1,272 @@
+import { csvQueryService } from "./csvQueryService";
+import { CONTEXT_PLACEHOLDER } from "./contextBudget";
+import { queryPlanner } from "./queryPlanner";
+import {
+  DEFAULT_SYSTEM_PROMPT,
+  Notebook,
+  RAGResult,
+  RAGService,
+} from "./ragService";
+import { vectorService } from "./vectorService";
+
+// Documents kept in memory instead of synced. The mock is virtual because
+// jest can't resolve the package's ESM-only exports.
+jest.mock(
+  "@tonk/keepsync",
+  () => {
+    const docs = new Map<string, unknown>();
+    return { docs, readDoc: jest.fn(async (path: string) => docs.get(path)) };
+  },
+  { virtual: true },
+);
+
+const { docs } = jest.requireMock("@tonk/keepsync") as {
+  docs: Map<string, unknown>;
+};
+
+const source = (id: string, noteId: string, title: string) => ({
+  id,
+  title,
+  path: `/tonkbook/sources/${id}`,
+  noteId,
+  metadata: { type: "pdf" as const, createdAt: "2024-10-01T00:00:00Z" },
+});
+
+const note = {
+  id: "n1",
+  title: "Churn review",
+  subheading: "Q3 retention",
+  createdAt: "2024-10-01T00:00:00Z",
+  updatedAt: "2024-10-01T00:00:00Z",
+};
+
+const notebook: Notebook = {
+  note,
+  sources: [source("s1", "n1", "Q3 report")],
+};
+
+const textSource = (
+  content: string,
+  metadata: Partial<RAGResult["textSources"][number]["metadata"]> = {},
+) => ({
+  content,
+  metadata: {
+    sourceId: "s1",
+    sourceType: "pdf" as const,
+    chunkIndex: 0,
+    title: "Q3 report",
+    ...metadata,
+  },
+  score: 0.8,
+  scores: { vector: 0.8 },
+});
+
+const ragResult = (
+  textSources: RAGResult["textSources"],
+  csvSources: RAGResult["csvSources"] = [],
+): RAGResult => ({
+  textSources,
+  csvSources,
+  combinedContext: "",
+  queryPlan: { query: "churn", subQueries: [] },
+});
+
+describe("RAGService", () => {
+  const rag = new RAGService();
+
+  afterEach(() => {
+    docs.clear();
+    jest.restoreAllMocks();
+  });
+
+  describe("getNotebook", () => {
+    it("reads a note with only its own sources", async () => {
+      docs.set("/tonkbook/notes", { notes: [note] });
+      docs.set("/tonkbook/sources", {
+        sources: [
+          source("s1", "n1", "Q3 report"),
+          source("s2", "n2", "Other note's source"),
+        ],
+      });
+
+      expect(await rag.getNotebook("n1")).toEqual(notebook);
+      expect(await rag.getNotebook("n2")).toBeUndefined();
+    });
+
+    it("reads a note without sources", async () => {
+      docs.set("/tonkbook/notes", { notes: [note] });
+      expect(await rag.getNotebook("n1")).toEqual({ note, sources: [] });
+    });
+  });
+
+  describe("queryRelevantSources", () => {
+    beforeEach(() => {
+      jest.spyOn(vectorService, "search").mockResolvedValue([
+        {
+          content: "Churn rose to 4% in Q3.",
+          metadata: {
+            sourceId: "s1",
+            sourceType: "pdf",
+            chunkIndex: 0,
+            title: "Q3 report",
+            noteId: "n1",
+            embeddingModel: "transformers:Xenova/all-MiniLM-L6-v2",
+            chunker: "pdf",
+            startOffset: 0,
+            endOffset: 23,
+            page: 3,
+          },
+          score: 0.8,
+          scores: { vector: 0.8 },
+        },
+      ]);
+      jest.spyOn(csvQueryService, "smartQuery").mockResolvedValue([
+        {
+          sourceId: "c1",
+          title: "Accounts",
+          matchCount: 3,
+          searchTerms: ["churn"],
+          matchingRows: [
+            { account: "Acme", status: "churned", note: "" },
+            { account: "Globex", status: "churned", note: "price" },
+            { account: "Initech", status: "churned", note: "" },
+          ],
+        },
+      ]);
+    });
+
+    it("searches text and CSV sources in the scope", async () => {
+      const result = await rag.queryRelevantSources(
+        "How did churn change?",
+        { maxTextResults: 2, maxCsvResults: 1, diversity: 0 },
+        { noteId: "n1" },
+      );
+
+      expect(vectorService.search).toHaveBeenCalledWith(
+        "How did churn change?",
+        2,
+        { noteId: "n1", mode: undefined },
+      );
+      expect(csvQueryService.smartQuery).toHaveBeenCalledWith(
+        "How did churn change?",
+        1,
+        { noteId: "n1" },
+      );
+      expect(result.textSources.map((text) => text.content)).toEqual([
+        "Churn rose to 4% in Q3.",
+      ]);
+      expect(result.csvSources).toEqual([
+        {
+          sourceId: "c1",
+          title: "Accounts",
+          matchCount: 3,
+          summary:
+            "Found 3 relevant rows:\n• account: Acme, status: churned\n• account: Globex, status: churned, note: price\n... and 1 more rows",
+        },
+      ]);
+      expect(result.combinedContext).toContain(
+        'title="Source 1 - Q3 report (pdf, page 3)"',
+      );
+      expect(result.combinedContext).toContain('title="CSV 1 - Accounts"');
+    });
+
+    it("plans the queries with the request's history and calls", async () => {
+      const plan = jest.spyOn(queryPlanner, "plan");
+      const history = [{ role: "user" as const, content: "And Q2?" }];
+      const target = { provider: "local", model: "llama3" };
+
+      await rag.queryRelevantSources(
+        "What about Q3?",
+        { history, subQueries: 2 },
+        {},
+        { target },
+      );
+      expect(plan).toHaveBeenCalledWith(
+        "What about Q3?",
+        expect.objectContaining({ history, subQueries: 2, target }),
+      );
+    });
+
+    it("answers without text sources when the vector search fails", async () => {
+      jest
+        .spyOn(vectorService, "search")
+        .mockRejectedValue(new Error("Chroma is down"));
+
+      const result = await rag.queryRelevantSources("churn", {
+        includeCsv: false,
+      });
+      expect(result.textSources).toEqual([]);
+      expect(result.combinedContext).toBe(
+        "No relevant sources found for this query.",
+      );
+      expect(csvQueryService.smartQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("buildContextChunks", () => {
+    it("names each chunk after its source and location", () => {
+      const chunks = rag.buildContextChunks(
+        ragResult(
+          [textSource("Churn rose.", { chunkIndex: 4, page: 2 })],
+          [
+            {
+              sourceId: "c1",
+              title: "Accounts",
+              summary: "3 rows",
+              matchCount: 3,
+            },
+          ],
+        ),
+      );
+      expect(chunks).toEqual([
+        {
+          id: "s1:4",
+          title: "Source 1 - Q3 report (pdf, page 2)",
+          content: "Churn rose.",
+          score: 0.8,
+        },
+        { id: "c1", title: "CSV 1 - Accounts", content: "3 rows" },
+      ]);
+    });
+  });
+
+  describe("buildMessages", () => {
+    it("describes the note around the context placeholder", () => {
+      const [system, question] = rag.buildMessages(
+        "How did churn change?",
+        notebook,
+        ragResult([textSource("Churn rose.")]),
+      );
+
+      expect(system.content).toBe(
+        `${DEFAULT_SYSTEM_PROMPT}\n\nAVAILABLE CONTEXT:\n${CONTEXT_PLACEHOLDER}\n\nCURRENT NOTE CONTEXT:\nNote: Churn review\nFocus: Q3 retention\nSources in this note: Q3 report`,
+      );
+      expect(question.role).toBe("user");
+      expect(question.content).toMatch(
+        /^How did churn change\?\n\n\(I have 1 relevant sources available/,
+      );
+    });
+
+    it("puts earlier turns before the question", () => {
+      const history = [
+        { role: "user" as const, content: "Summarize Q2" },
+        { role: "assistant" as const, content: "Churn was 3%." },
+      ];
+      const messages = rag.buildMessages("And Q3?", notebook, ragResult([]), {
+        systemPrompt: "Be brief.",
+        enableTools: true,
+        history,
+      });
+
+      expect(messages.map((message) => message.role)).toEqual([
+        "system",
+        "user",
+        "assistant",
+        "user",
+      ]);
+      expect(messages.slice(1, 3)).toEqual(history);
+      expect(messages[0].content).toMatch(/^Be brief\.\n\nAVAILABLE CONTEXT:/);
+      expect(messages[0].content).toContain("use your tools");
+    });
+  });
+});
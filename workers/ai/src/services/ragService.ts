@@ -0,0 +1,489 @@
+import { readDoc } from "@tonk/keepsync";
+import {
+  vectorService,
+  SearchMode,
+  SearchOptions,
+  SearchScope,
+} from "./vectorService";
+import { csvQueryService } from "./csvQueryService";
+import { describeLocation } from "./chunkers";
+import { CONTEXT_PLACEHOLDER, ContextChunk } from "./contextBudget";
+import { promptGuard, UNTRUSTED_CONTENT_NOTICE } from "./promptGuard";
+import {
+  rerankService,
+  RerankerName,
+  RerankOptions,
+  RerankUsageCallback,
+} from "./rerankService";
+import { queryPlanner, ChatTurn, QueryPlan } from "./queryPlanner";
+import {
+  chunkId,
+  DEFAULT_DIVERSITY,
+  DIVERSITY_CANDIDATES_PER_RESULT,
+  mergeNeighbours,
+  selectByMarginalRelevance,
+} from "./passageSelection";
+import type { LLMMessage } from "./llmProvider";
+import type { LLMTarget } from "./resilience";
+import type { ScheduledCall } from "./requestScheduler";
+import type { Source } from "../types/source";
+import { logger } from "../utils/logger";
+
+const log = logger.child("rag");
+
+/**
+ * Documents the TonkBook app keeps its notes and their sources in
+ */
+const NOTES_DOC_PATH = "/tonkbook/notes";
+export const SOURCES_DOC_PATH = "/tonkbook/sources";
+
+/**
+ * Used when a request doesn't send its own system prompt
+ */
+export const DEFAULT_SYSTEM_PROMPT = `You are a knowledgeable research assistant with access to relevant information from various sources. Your role is to provide thoughtful, analytical, and comprehensive responses that synthesize information across sources.
+
+Response Guidelines:
+- Provide analytical, long-form responses that explore the topic in depth
+- Synthesize information across multiple sources when possible
+- Always cite your sources using format like "(Source: [Title])" when referencing specific information
+- Include concrete details, data points, and examples from the sources
+- Offer nuanced perspectives and consider multiple viewpoints
+- Draw connections between different pieces of information
+- If information is limited or missing, acknowledge this while still providing what insights you can
+- Structure responses with clear reasoning and logical flow
+- Aim for substantive, thoughtful analysis rather than brief answers`;
+
+/**
+ * Model picked for a note in the app
+ */
+export interface ModelSettings {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+}
+
+export interface Note {
+  id: string;
+  title: string;
+  subheading: string;
+  createdAt: string;
+  updatedAt: string;
+  modelSettings?: ModelSettings;
+}
+
+/**
+ * A note with the sources added to it
+ */
+export interface Notebook {
+  note: Note;
+  sources: Source[];
+}
+
+export interface RetrievalOptions {
+  maxTextResults?: number;
+  maxCsvResults?: number;
+  includeText?: boolean;
+  includeCsv?: boolean;
+  searchMode?: SearchMode; // How text sources are searched
+  rerank?: boolean | RerankerName; // Reorder text results with a reranker
+  rerankCandidates?: number; // Text results fetched for the reranker
+  history?: ChatTurn[]; // Earlier turns, to rewrite follow-up questions
+  rewriteQuery?: boolean; // Rewrite follow-ups into standalone queries; on by default
+  subQueries?: number; // Extra queries searched alongside the question
+  hyde?: boolean; // Also search with a hypothetical answer
+  diversity?: number; // 0 keeps the most relevant chunks, up to 1 favours variety; SEARCH_DIVERSITY by default
+}
+
+/**
+ * How retrieval makes its own LLM calls for a request: planning the
+ * queries, and reranking with the LLM reranker
+ */
+export interface RetrievalCallOptions {
+  target?: LLMTarget; // The model answering the question
+  schedule?: ScheduledCall; // Waits for a scheduler slot before each call
+  onUsage?: RerankUsageCallback; // Tokens used by the calls
+}
+
+/**
+ * Passages and CSV rows retrieved for a question
+ */
+export interface RAGResult {
+  textSources: {
+    content: string;
+    metadata: {
+      sourceId: string;
+      sourceType: Source["metadata"]["type"];
+      chunkIndex: number;
+      title: string;
+      startOffset?: number;
+      endOffset?: number;
+      page?: number;
+      headingPath?: string;
+      lastChunkIndex?: number; // Of passages merged from neighbouring chunks
+      lastPage?: number;
+    };
+    score: number;
+    scores: {
+      vector?: number;
+      keyword?: number;
+      retrieval?: number; // Before reranking
+      rerank?: number;
+    };
+  }[];
+  csvSources: {
+    sourceId: string;
+    title: string;
+    summary: string;
+    matchCount: number;
+  }[];
+  combinedContext: string;
+  queryPlan: QueryPlan; // The queries that were searched
+}
+
+export interface PromptOptions {
+  systemPrompt?: string; // Replaces DEFAULT_SYSTEM_PROMPT
+  enableTools?: boolean; // Tell the model it may search or fetch pages itself
+  history?: ChatTurn[]; // Earlier turns, placed before the question
+}
+
+/**
+ * Retrieval and prompt assembly for questions asked in a note
+ */
+export class RAGService {
+  /**
+   * Read a note and its sources from keepsync, or undefined if there's no
+   * such note
+   */
+  async getNotebook(noteId: string): Promise<Notebook | undefined> {
+    const [notesDoc, sourcesDoc] = await Promise.all([
+      readDoc<{ notes?: Note[] }>(NOTES_DOC_PATH),
+      readDoc<{ sources?: Source[] }>(SOURCES_DOC_PATH),
+    ]);
+
+    const note = notesDoc?.notes?.find((candidate) => candidate.id === noteId);
+    if (!note) return undefined;
+
+    return {
+      note,
+      sources: (sourcesDoc?.sources || []).filter(
+        (source) => source.noteId === noteId,
+      ),
+    };
+  }
+
+  /**
+   * Search the indexed text and CSV sources in scope for a question, after
+   * planning the queries to search with. The query planner and an LLM
+   * reranker ask the model in `calls.target`, and their tokens are reported
+   * through `calls.onUsage`.
+   */
+  async queryRelevantSources(
+    query: string,
+    options: RetrievalOptions = {},
+    scope: SearchScope = {},
+    calls: RetrievalCallOptions = {},
+  ): Promise<RAGResult> {
+    const {
+      maxTextResults = 5,
+      maxCsvResults = 3,
+      includeText = true,
+      includeCsv = true,
+      searchMode,
+      rerank,
+      rerankCandidates,
+      diversity,
+    } = options;
+
+    const queryPlan = await queryPlanner.plan(query, {
+      history: options.history,
+      rewriteQuery: options.rewriteQuery,
+      subQueries: options.subQueries,
+      hyde: options.hyde,
+      ...calls,
+    });
+
+    const [textSources, csvResults] = await Promise.all([
+      includeText
+        ? this.searchText(
+            queryPlan,
+            maxTextResults,
+            { ...scope, mode: searchMode },
+            {
+              reranker: rerank,
+              candidates: rerankCandidates,
+              ...calls,
+            },
+            diversity,
+          )
+        : [],
+      includeCsv
+        ? csvQueryService.smartQuery(queryPlan.query, maxCsvResults, scope)
+        : [],
+    ]);
+
+    const csvSources = csvResults.map((result) => ({
+      sourceId: result.sourceId,
+      title: result.title,
+      summary: this.formatCsvSummary(result),
+      matchCount: result.matchCount,
+    }));
+
+    log.debug("Retrieved sources", {
+      textSources: textSources.length,
+      csvSources: csvSources.length,
+    });
+
+    return {
+      textSources,
+      csvSources,
+      combinedContext: this.buildCombinedContext(textSources, csvSources),
+      queryPlan,
+    };
+  }
+
+  /**
+   * Search with every query in the plan and merge the results by reciprocal
+   * rank fusion, then rerank them against the standalone query if asked.
+   * The hypothetical answer is always searched by embedding. The best
+   * results are picked for relevance and variety, and neighbouring chunks
+   * of a source are merged into one passage, so there may be fewer than
+   * `maxResults`.
+   */
+  async searchPlan(
+    plan: QueryPlan,
+    maxResults: number,
+    options: SearchOptions,
+    rerankOptions: RerankOptions,
+    diversity: number = DEFAULT_DIVERSITY,
+  ): Promise<RAGResult["textSources"]> {
+    // Picking for variety needs more candidates than results
+    const kept =
+      diversity > 0 ? maxResults * DIVERSITY_CANDIDATES_PER_RESULT : maxResults;
+    const candidates = Math.max(
+      rerankService.candidateCount(maxResults, rerankOptions),
+      kept,
+    );
+    const searches = [plan.query, ...plan.subQueries].map((query) =>
+      vectorService.search(query, candidates, options),
+    );
+    if (plan.hypotheticalAnswer) {
+      searches.push(
+        vectorService.search(plan.hypotheticalAnswer, candidates, {
+          ...options,
+          mode: "vector",
+        }),
+      );
+    }
+    const rankings = await Promise.all(searches);
+    const merged =
+      rankings.length === 1
+        ? rankings[0]
+        : vectorService.fuse(rankings, candidates);
+    const reranked = await rerankService.rerank(
+      plan.query,
+      merged,
+      kept,
+      rerankOptions,
+    );
+    const selected = await this.selectDiverse(reranked, maxResults, diversity);
+    return mergeNeighbours(selected);
+  }
+
+  /**
+   * The best `maxResults` by maximal marginal relevance, using the chunks'
+   * stored embeddings. Without them, the most relevant are kept.
+   */
+  private async selectDiverse(
+    results: RAGResult["textSources"],
+    maxResults: number,
+    diversity: number,
+  ): Promise<RAGResult["textSources"]> {
+    if (diversity <= 0 || results.length <= maxResults) {
+      return results.slice(0, maxResults);
+    }
+    try {
+      const embeddings = await vectorService.getEmbeddings(
+        results.map((result) => chunkId(result.metadata)),
+      );
+      return selectByMarginalRelevance(
+        results,
+        embeddings,
+        maxResults,
+        diversity,
+      );
+    } catch (error) {
+      log.warn("Could not load embeddings, keeping the most relevant chunks", {
+        error,
+      });
+      return results.slice(0, maxResults);
+    }
+  }
+
+  /**
+   * Planned text search that degrades to no results, so a question can
+   * still be answered while Chroma is unavailable
+   */
+  private async searchText(
+    plan: QueryPlan,
+    maxResults: number,
+    options: SearchOptions,
+    rerankOptions: RerankOptions,
+    diversity?: number,
+  ): Promise<RAGResult["textSources"]> {
+    try {
+      return await this.searchPlan(
+        plan,
+        maxResults,
+        options,
+        rerankOptions,
+        diversity,
+      );
+    } catch (error) {
+      log.warn("Vector search failed, answering without text sources", {
+        error,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Turn retrieved sources into context chunks for the context budget. Text
+   * chunks carry their similarity score so the lowest-scoring ones are
+   * dropped first when the context window is tight.
+   */
+  buildContextChunks(ragResult: RAGResult): ContextChunk[] {
+    return [
+      ...ragResult.textSources.map((result, index) => ({
+        id: `${result.metadata.sourceId}:${result.metadata.chunkIndex}`,
+        title: `Source ${index + 1} - ${result.metadata.title} (${this.describeSource(result.metadata)})`,
+        content: result.content,
+        score: result.score,
+      })),
+      ...ragResult.csvSources.map((source, index) => ({
+        id: source.sourceId,
+        title: `CSV ${index + 1} - ${source.title}`,
+        content: source.summary,
+      })),
+    ];
+  }
+
+  /**
+   * Chat messages for a question about a note, after any earlier turns. The
+   * retrieved context is filled in at the placeholder by the context
+   * budget, which drops the oldest turns if they don't fit.
+   */
+  buildMessages(
+    question: string,
+    notebook: Notebook,
+    ragResult: RAGResult,
+    options: PromptOptions = {},
+  ): LLMMessage[] {
+    const { note, sources } = notebook;
+    let systemPrompt = options.systemPrompt || DEFAULT_SYSTEM_PROMPT;
+
+    systemPrompt += `\n\nAVAILABLE CONTEXT:\n${CONTEXT_PLACEHOLDER}`;
+
+    systemPrompt += `\n\nCURRENT NOTE CONTEXT:\nNote: ${note.title}`;
+    if (note.subheading) {
+      systemPrompt += `\nFocus: ${note.subheading}`;
+    }
+    if (sources.length > 0) {
+      systemPrompt += `\nSources in this note: ${sources.map((source) => source.title).join(", ")}`;
+    }
+
+    if (options.enableTools) {
+      systemPrompt += `\n\nIf the available context doesn't cover the question, use your tools to search the sources or query CSV data before answering.`;
+    }
+
+    const sourceCount =
+      ragResult.textSources.length + ragResult.csvSources.length;
+
+    return [
+      { role: "system", content: systemPrompt },
+      ...(options.history || []),
+      {
+        role: "user",
+        content: `${question}
+
+(I have ${sourceCount} relevant sources available to help answer this question. Please provide a comprehensive, analytical response that synthesizes the available information.)`,
+      },
+    ];
+  }
+
+  /**
+   * Source type and where the chunk is, such as `pdf, page 3`
+   */
+  private describeSource(
+    metadata: RAGResult["textSources"][number]["metadata"],
+  ): string {
+    const location = describeLocation(metadata);
+    return location
+      ? `${metadata.sourceType}, ${location}`
+      : metadata.sourceType;
+  }
+
+  /**
+   * Format CSV results into a readable summary
+   */
+  private formatCsvSummary(csvResult: {
+    matchCount: number;
+    matchingRows: Record<string, string>[];
+  }): string {
+    const exampleRows = csvResult.matchingRows.slice(0, 2);
+    let summary = `Found ${csvResult.matchCount} relevant rows:\n`;
+
+    for (const row of exampleRows) {
+      const rowText = Object.entries(row)
+        .filter(([, value]) => value.length > 0)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join(", ");
+      summary += `• ${rowText}\n`;
+    }
+
+    if (csvResult.matchingRows.length > 2) {
+      summary += `... and ${csvResult.matchingRows.length - 2} more rows`;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Build the combined context string, for clients that want the retrieved
+   * sources as a single block of text. Sources are delimited the same way
+   * as in prompts, so the text is safe to put in one.
+   */
+  private buildCombinedContext(
+    textSources: RAGResult["textSources"],
+    csvSources: RAGResult["csvSources"],
+  ): string {
+    let context = "";
+
+    if (textSources.length > 0) {
+      context += "RELEVANT TEXT SOURCES:\n\n";
+      textSources.forEach((result, index) => {
+        context += `${promptGuard.wrap(result.content, {
+          title: `Source ${index + 1} - ${result.metadata.title} (${this.describeSource(result.metadata)})`,
+          flagged: promptGuard.detect(result.content).length > 0,
+        })}\n\n`;
+      });
+    }
+
+    if (csvSources.length > 0) {
+      context += "RELEVANT CSV DATA:\n\n";
+      csvSources.forEach((source, index) => {
+        context += `${promptGuard.wrap(source.summary, {
+          title: `CSV ${index + 1} - ${source.title}`,
+          flagged: promptGuard.detect(source.summary).length > 0,
+        })}\n\n`;
+      });
+    }
+
+    if (context === "") {
+      return "No relevant sources found for this query.";
+    }
+
+    return `${UNTRUSTED_CONTENT_NOTICE}\n\n${context.trim()}`;
+  }
+}
+
+export const ragService = new RAGService();
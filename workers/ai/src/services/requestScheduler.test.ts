@@ -0,0 +1,170 @@
+import {
+  parseRateLimits,
+  QueueFullError,
+  RequestScheduler,
+  ScheduleTicket,
+  TokenBucket,
+} from "./requestScheduler";
+
+const ticket = (
+  clientId: string,
+  priority: ScheduleTicket["priority"] = "interactive",
+): ScheduleTicket => ({ clientId, priority });
+
+/**
+ * Let settled promises run their callbacks
+ */
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("parseRateLimits", () => {
+  it("reads requests per minute and an optional burst", () => {
+    expect(parseRateLimits("openai:500, anthropic:50:10,")).toEqual({
+      openai: { requestsPerMinute: 500, burst: 500 },
+      anthropic: { requestsPerMinute: 50, burst: 10 },
+    });
+  });
+
+  it("rejects entries without a rate", () => {
+    expect(() => parseRateLimits("openai")).toThrow("Invalid rate limit");
+    expect(() => parseRateLimits("openai:0")).toThrow("Invalid rate limit");
+  });
+});
+
+describe("TokenBucket", () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("allows a burst, then refills at the configured rate", () => {
+    const bucket = new TokenBucket({ requestsPerMinute: 60, burst: 2 });
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+    expect(bucket.waitTime()).toBe(1000);
+
+    now = 1000;
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+  });
+
+  it("doesn't fill beyond the burst", () => {
+    const bucket = new TokenBucket({ requestsPerMinute: 60, burst: 2 });
+    now = 60000;
+    expect(bucket.available()).toBe(2);
+  });
+});
+
+describe("RequestScheduler", () => {
+  let scheduler: RequestScheduler;
+
+  beforeEach(() => {
+    scheduler = new RequestScheduler();
+    scheduler.configure({
+      maxConcurrent: 1,
+      maxConcurrentPerClient: 1,
+      maxQueueLength: 4,
+    });
+  });
+
+  /**
+   * Acquire slots and record the order they start in
+   */
+  const track = (started: string[], name: string, t: ScheduleTicket) =>
+    scheduler.acquire(t).then((release) => {
+      started.push(name);
+      return release;
+    });
+
+  it("serves interactive requests first and lets clients take turns", async () => {
+    const started: string[] = [];
+    const first = await track(started, "a1", ticket("a"));
+    const waiting = [
+      track(started, "a2", ticket("a")),
+      track(started, "a3", ticket("a")),
+      track(started, "b1", ticket("b", "background")),
+    ];
+    const c1 = track(started, "c1", ticket("c"));
+    await expect(track(started, "x", ticket("x"))).rejects.toBeInstanceOf(
+      QueueFullError,
+    );
+
+    first();
+    for (const next of [waiting[0], c1, waiting[1], waiting[2]]) {
+      (await next)();
+      await flush();
+    }
+    expect(started).toEqual(["a1", "a2", "c1", "a3", "b1"]);
+  });
+
+  it("reports queue positions as they change", async () => {
+    const release = await scheduler.acquire(ticket("a"));
+    const positions: number[] = [];
+    const waiting = scheduler.acquire(ticket("b"), {
+      onQueued: (position) => positions.push(position),
+    });
+    expect(positions).toEqual([1]);
+    release();
+    (await waiting)();
+    expect(scheduler.getStats().active).toBe(0);
+  });
+
+  it("drops requests aborted while queued and starts the next one", async () => {
+    const release = await scheduler.acquire(ticket("a"));
+    const controller = new AbortController();
+    const aborted = scheduler.acquire(ticket("b"), {
+      signal: controller.signal,
+    });
+    const next = scheduler.acquire(ticket("c"));
+    expect(scheduler.getStats().queued.interactive).toBe(2);
+
+    controller.abort();
+    await expect(aborted).rejects.toThrow("aborted");
+    expect(scheduler.getStats().queued.interactive).toBe(1);
+
+    release();
+    (await next)();
+    expect(scheduler.getStats()).toMatchObject({ active: 0, clients: 0 });
+  });
+
+  it("rejects requests that were aborted before queueing", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(
+      scheduler.acquire(ticket("a"), { signal: controller.signal }),
+    ).rejects.toThrow("aborted");
+    expect(scheduler.getStats().active).toBe(0);
+  });
+
+  it("frees a slot only once per release", async () => {
+    scheduler.configure({ maxConcurrent: 2, maxConcurrentPerClient: 2 });
+    const release = await scheduler.acquire(ticket("a"));
+    await scheduler.acquire(ticket("a"));
+    release();
+    release();
+    expect(scheduler.getStats().active).toBe(1);
+  });
+
+  it("runs a call in a slot and frees it however the call ends", async () => {
+    const release = await scheduler.acquire(ticket("a"));
+    const call = jest.fn(async () => "planned");
+    const running = scheduler.run(ticket("b"), call);
+    await flush();
+    expect(call).not.toHaveBeenCalled();
+
+    release();
+    await expect(running).resolves.toBe("planned");
+    await expect(
+      scheduler.run(ticket("b"), async () => {
+        throw new Error("down");
+      }),
+    ).rejects.toThrow("down");
+    expect(scheduler.getStats()).toMatchObject({ active: 0, clients: 0 });
+  });
+});
@@ -0,0 +1,405 @@
+import { logger } from "../utils/logger";
+
+const log = logger.child("scheduler");
+
+/**
+ * Priority lanes, in the order they're served. Interactive requests (chat)
+ * always go ahead of background work such as digests and indexing.
+ */
+export const PRIORITIES = ["interactive", "background"] as const;
+
+export type Priority = (typeof PRIORITIES)[number];
+
+/**
+ * Token bucket settings for a provider
+ */
+export interface RateLimit {
+  requestsPerMinute: number;
+  burst: number; // Requests that can start at once after a quiet period
+}
+
+export interface SchedulerOptions {
+  maxConcurrent: number; // LLM requests in flight across all clients
+  maxConcurrentPerClient: number;
+  maxQueueLength: number; // Requests waiting before new ones are rejected
+  rateLimits: Record<string, RateLimit>; // By provider name
+}
+
+/**
+ * Who a request is for, and what it will be sent to
+ */
+export interface ScheduleTicket {
+  clientId: string;
+  priority: Priority;
+  provider?: string; // Rate limited by this provider's bucket, if it has one
+}
+
+export interface ScheduleOptions {
+  signal?: AbortSignal; // Leave the queue when aborted
+  onQueued?: (position: number) => void; // Called when the position changes
+}
+
+/**
+ * Runs an LLM call once the scheduler has a slot for it, rate limited by
+ * the provider's bucket. Used for calls made on behalf of a request, such
+ * as planning its queries.
+ */
+export type ScheduledCall = <T>(
+  provider: string | undefined,
+  call: () => Promise<T>,
+) => Promise<T>;
+
+/**
+ * Queue and rate limit state, as reported by /health
+ */
+export interface SchedulerStats {
+  active: number;
+  queued: Record<Priority, number>;
+  clients: number; // Clients with requests in flight
+  rateLimits: Record<string, { tokens: number; requestsPerMinute: number }>;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  maxConcurrent: 4,
+  maxConcurrentPerClient: 2,
+  maxQueueLength: 100,
+  rateLimits: {},
+};
+
+/**
+ * Thrown when a request arrives while the queue is full
+ */
+export class QueueFullError extends Error {
+  constructor(maxQueueLength: number) {
+    super(`Too many queued LLM requests (${maxQueueLength}), try again later`);
+    this.name = "QueueFullError";
+  }
+}
+
+/**
+ * Parse per-provider rate limits such as `openai:500,anthropic:50:10`:
+ * requests per minute, then an optional burst that defaults to a minute's
+ * worth of requests
+ */
+export function parseRateLimits(spec: string): Record<string, RateLimit> {
+  const limits: Record<string, RateLimit> = {};
+  for (const entry of spec.split(",")) {
+    if (!entry.trim()) continue;
+    const [provider, rpm, burst] = entry.split(":").map((part) => part.trim());
+    const requestsPerMinute = Number(rpm);
+    if (!provider || !(requestsPerMinute > 0)) {
+      throw new Error(`Invalid rate limit: ${entry.trim()}`);
+    }
+    limits[provider] = {
+      requestsPerMinute,
+      burst: burst ? Math.max(1, Number(burst)) : requestsPerMinute,
+    };
+  }
+  return limits;
+}
+
+/**
+ * Token bucket that refills continuously at the configured rate
+ */
+export class TokenBucket {
+  private tokens: number;
+  private refilledAt = Date.now();
+
+  constructor(private limit: RateLimit) {
+    this.tokens = limit.burst;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.limit.burst,
+      this.tokens +
+        ((now - this.refilledAt) * this.limit.requestsPerMinute) / 60000,
+    );
+    this.refilledAt = now;
+  }
+
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Milliseconds until a token is available
+   */
+  waitTime(): number {
+    this.refill();
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(
+      ((1 - this.tokens) * 60000) / this.limit.requestsPerMinute,
+    );
+  }
+
+  available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+}
+
+interface Waiter {
+  ticket: ScheduleTicket;
+  options: ScheduleOptions;
+  position?: number; // Last position reported to onQueued
+  resolve: (release: () => void) => void;
+}
+
+/**
+ * Fair scheduler for LLM requests. Requests start right away while there
+ * are free slots; otherwise they wait in their priority lane. Lanes are
+ * served in priority order, and within a lane clients take turns, so one
+ * client's backlog can't starve the others. A request also needs a token
+ * from its provider's bucket, if the provider is rate limited.
+ */
+export class RequestScheduler {
+  private options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS;
+  private buckets: Map<string, TokenBucket> = new Map();
+  // Per lane, each client's waiting requests. Clients are kept in turn
+  // order: a client moves to the back after one of its requests starts.
+  private lanes: Record<Priority, Map<string, Waiter[]>> = {
+    interactive: new Map(),
+    background: new Map(),
+  };
+  private active = 0;
+  private activeByClient: Map<string, number> = new Map();
+  private retryTimer?: NodeJS.Timeout;
+
+  configure(options: Partial<SchedulerOptions>): void {
+    this.options = {
+      ...this.options,
+      ...Object.fromEntries(
+        Object.entries(options).filter(([, value]) => value !== undefined),
+      ),
+    };
+    this.buckets = new Map(
+      Object.entries(this.options.rateLimits).map(([provider, limit]) => [
+        provider,
+        new TokenBucket(limit),
+      ]),
+    );
+  }
+
+  /**
+   * Wait for a slot. Resolves with a function that must be called once the
+   * request is finished, to free the slot.
+   */
+  acquire(
+    ticket: ScheduleTicket,
+    options: ScheduleOptions = {},
+  ): Promise<() => void> {
+    if (options.signal?.aborted) {
+      return Promise.reject(new Error("Request aborted while queued"));
+    }
+    if (this.queueLength() >= this.options.maxQueueLength) {
+      return Promise.reject(new QueueFullError(this.options.maxQueueLength));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { ticket, options, resolve };
+      const lane = this.lanes[ticket.priority];
+      const queue = lane.get(ticket.clientId) || [];
+      queue.push(waiter);
+      lane.set(ticket.clientId, queue);
+
+      options.signal?.addEventListener(
+        "abort",
+        () => {
+          if (this.removeWaiter(waiter)) {
+            reject(new Error("Request aborted while queued"));
+            this.dispatch();
+          }
+        },
+        { once: true },
+      );
+
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Run a call once there's a slot for it, and free the slot when it
+   * settles
+   */
+  async run<T>(
+    ticket: ScheduleTicket,
+    call: () => Promise<T>,
+    options: ScheduleOptions = {},
+  ): Promise<T> {
+    const release = await this.acquire(ticket, options);
+    try {
+      return await call();
+    } finally {
+      release();
+    }
+  }
+
+  private queueLength(): number {
+    let length = 0;
+    for (const priority of PRIORITIES) {
+      for (const queue of this.lanes[priority].values()) {
+        length += queue.length;
+      }
+    }
+    return length;
+  }
+
+  private removeWaiter(waiter: Waiter): boolean {
+    const lane = this.lanes[waiter.ticket.priority];
+    const queue = lane.get(waiter.ticket.clientId);
+    const index = queue ? queue.indexOf(waiter) : -1;
+    if (index === -1) return false;
+    queue!.splice(index, 1);
+    if (queue!.length === 0) lane.delete(waiter.ticket.clientId);
+    return true;
+  }
+
+  /**
+   * Start the next request that can run. Returns the time until a rate
+   * limited request could start, if one is blocked only by its bucket.
+   */
+  private startNext(): { started: boolean; waitMs?: number } {
+    let waitMs: number | undefined;
+
+    for (const priority of PRIORITIES) {
+      const lane = this.lanes[priority];
+      for (const [clientId, queue] of lane) {
+        if (
+          (this.activeByClient.get(clientId) || 0) >=
+          this.options.maxConcurrentPerClient
+        ) {
+          continue;
+        }
+
+        const waiter = queue[0];
+        const bucket = waiter.ticket.provider
+          ? this.buckets.get(waiter.ticket.provider)
+          : undefined;
+        if (bucket && !bucket.tryTake()) {
+          const wait = bucket.waitTime();
+          waitMs = waitMs === undefined ? wait : Math.min(waitMs, wait);
+          continue;
+        }
+
+        // Start it, and send the client to the back of the lane
+        queue.shift();
+        lane.delete(clientId);
+        if (queue.length > 0) lane.set(clientId, queue);
+        this.start(waiter);
+        return { started: true };
+      }
+    }
+
+    return { started: false, waitMs };
+  }
+
+  private start(waiter: Waiter): void {
+    const { clientId } = waiter.ticket;
+    this.active++;
+    this.activeByClient.set(
+      clientId,
+      (this.activeByClient.get(clientId) || 0) + 1,
+    );
+
+    let released = false;
+    waiter.resolve(() => {
+      if (released) return;
+      released = true;
+      this.active--;
+      const remaining = (this.activeByClient.get(clientId) || 1) - 1;
+      if (remaining > 0) {
+        this.activeByClient.set(clientId, remaining);
+      } else {
+        this.activeByClient.delete(clientId);
+      }
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Start as many waiting requests as the limits allow, then tell the rest
+   * where they are in the queue
+   */
+  private dispatch(): void {
+    let waitMs: number | undefined;
+    while (this.active < this.options.maxConcurrent) {
+      const result = this.startNext();
+      if (!result.started) {
+        waitMs = result.waitMs;
+        break;
+      }
+    }
+
+    if (waitMs !== undefined && !this.retryTimer) {
+      this.retryTimer = setTimeout(() => {
+        this.retryTimer = undefined;
+        this.dispatch();
+      }, waitMs);
+    }
+
+    this.reportPositions();
+  }
+
+  /**
+   * The order waiting requests are expected to start in: lane by lane,
+   * with clients taking turns
+   */
+  private queueOrder(): Waiter[] {
+    const order: Waiter[] = [];
+    for (const priority of PRIORITIES) {
+      const queues = [...this.lanes[priority].values()];
+      const longest = Math.max(0, ...queues.map((queue) => queue.length));
+      for (let turn = 0; turn < longest; turn++) {
+        for (const queue of queues) {
+          if (turn < queue.length) order.push(queue[turn]);
+        }
+      }
+    }
+    return order;
+  }
+
+  private reportPositions(): void {
+    this.queueOrder().forEach((waiter, index) => {
+      const position = index + 1;
+      if (waiter.position === position) return;
+      waiter.position = position;
+      try {
+        waiter.options.onQueued?.(position);
+      } catch (error) {
+        log.warn("onQueued callback failed", { error });
+      }
+    });
+  }
+
+  getStats(): SchedulerStats {
+    const queued = {} as Record<Priority, number>;
+    for (const priority of PRIORITIES) {
+      queued[priority] = [...this.lanes[priority].values()].reduce(
+        (total, queue) => total + queue.length,
+        0,
+      );
+    }
+    return {
+      active: this.active,
+      queued,
+      clients: this.activeByClient.size,
+      rateLimits: Object.fromEntries(
+        [...this.buckets].map(([provider, bucket]) => [
+          provider,
+          {
+            tokens: bucket.available(),
+            requestsPerMinute:
+              this.options.rateLimits[provider].requestsPerMinute,
+          },
+        ]),
+      ),
+    };
+  }
+}
+
+export const requestScheduler = new RequestScheduler();
@@ -0,0 +1,141 @@
+import type { LLMService } from "./llmProvider";
+import type { ScheduledCall } from "./requestScheduler";
+import { LLMReranker, Reranker, RerankService } from "./rerankService";
+
+const fakeLLM = (scores: number[]) => {
+  const complete = jest.fn(async () => ({
+    content: JSON.stringify({ scores }),
+    data: { scores },
+    model: "model",
+    provider: "provider",
+  }));
+  const getProvider = (name?: string) => ({
+    name: name || "openai",
+    defaultModel: "default",
+  });
+  return {
+    llm: { complete, getProvider } as unknown as LLMService,
+    complete,
+  };
+};
+
+const result = (content: string, score: number) => ({
+  content,
+  score,
+  scores: {},
+});
+
+describe("LLMReranker", () => {
+  it("scales scores to 0-1 and clamps them", async () => {
+    const { llm } = fakeLLM([10, 4, 12]);
+    const reranker = new LLMReranker(llm);
+    expect(await reranker.score("q", ["a", "b", "c"])).toEqual([1, 0.4, 1]);
+  });
+
+  it("fails when the model doesn't score every passage", async () => {
+    const { llm } = fakeLLM([5]);
+    await expect(new LLMReranker(llm).score("q", ["a", "b"])).rejects.toThrow(
+      "Expected 2 scores, got 1",
+    );
+  });
+
+  it("asks the request's model in a scheduler slot", async () => {
+    const { llm, complete } = fakeLLM([5]);
+    const reranker = new LLMReranker(llm, {
+      provider: "openai",
+      model: "gpt-4o-mini",
+    });
+    const scheduled: (string | undefined)[] = [];
+    const schedule: ScheduledCall = (provider, call) => {
+      expect(complete).not.toHaveBeenCalled();
+      scheduled.push(provider);
+      return call();
+    };
+
+    await reranker.score("q", ["a"], {
+      target: { provider: "local", model: "llama3" },
+      schedule,
+    });
+    expect(scheduled).toEqual(["local"]);
+    expect(complete).toHaveBeenCalledWith(
+      expect.objectContaining({ model: "llama3" }),
+      "local",
+    );
+
+    await reranker.score("q", ["a"]);
+    expect(complete).toHaveBeenLastCalledWith(
+      expect.objectContaining({ model: "gpt-4o-mini" }),
+      "openai",
+    );
+  });
+});
+
+describe("RerankService", () => {
+  const fixed = (score: Reranker["score"]): Reranker => ({
+    name: "llm",
+    model: "fixed",
+    score,
+  });
+
+  it("fetches extra candidates only when reranking", () => {
+    const service = new RerankService();
+    expect(service.candidateCount(5)).toBe(5);
+    expect(service.candidateCount(5, { reranker: "llm", candidates: 8 })).toBe(
+      8,
+    );
+    expect(service.candidateCount(10, { reranker: "llm", candidates: 8 })).toBe(
+      10,
+    );
+  });
+
+  it("reorders by the reranker's score and keeps the retrieval score", async () => {
+    const service = new RerankService();
+    service.configure(fixed(async () => [0.2, 0.9, 0.5]));
+
+    const reranked = await service.rerank(
+      "q",
+      [result("a", 0.9), result("b", 0.8), result("c", 0.7)],
+      2,
+      { reranker: "llm" },
+    );
+    expect(
+      reranked.map(({ content, score, scores }) => [content, score, scores]),
+    ).toEqual([
+      ["b", 0.9, { retrieval: 0.8, rerank: 0.9 }],
+      ["c", 0.5, { retrieval: 0.7, rerank: 0.5 }],
+    ]);
+  });
+
+  it("passes the request's model and scheduler to the reranker", async () => {
+    const service = new RerankService();
+    const score = jest.fn(async () => [1]);
+    service.configure(fixed(score));
+    const schedule: ScheduledCall = (provider, call) => call();
+    const target = { provider: "local" };
+
+    await service.rerank("q", [result("a", 1)], 1, {
+      reranker: "llm",
+      target,
+      schedule,
+    });
+    expect(score).toHaveBeenCalledWith("q", ["a"], {
+      target,
+      schedule,
+      onUsage: undefined,
+    });
+  });
+
+  it("keeps the retrieval order if reranking fails", async () => {
+    const service = new RerankService();
+    service.configure(
+      fixed(async () => {
+        throw new Error("down");
+      }),
+    );
+
+    const results = [result("a", 0.9), result("b", 0.8)];
+    expect(await service.rerank("q", results, 1, { reranker: "llm" })).toEqual([
+      results[0],
+    ]);
+  });
+});
@@ -0,0 +1,304 @@
+import type {
+  PreTrainedModel,
+  PreTrainedTokenizer,
+} from "@huggingface/transformers";
+import type { LLMService, LLMUsage } from "./llmProvider";
+import type { LLMTarget } from "./resilience";
+import type { ScheduledCall } from "./requestScheduler";
+import { promptGuard, UNTRUSTED_CONTENT_NOTICE } from "./promptGuard";
+import { logger } from "../utils/logger";
+
+const log = logger.child("rerank");
+
+/**
+ * How retrieved chunks are reordered: `cross-encoder` scores each
+ * query-passage pair with a small model on the CPU, `llm` asks a chat model
+ * to rate the passages in one call
+ */
+export const RERANKERS = ["cross-encoder", "llm"] as const;
+
+export type RerankerName = (typeof RERANKERS)[number];
+
+/**
+ * Cross-encoder used when RERANK_MODEL isn't set, trained on MS MARCO
+ * passage ranking
+ */
+export const DEFAULT_CROSS_ENCODER_MODEL = "Xenova/ms-marco-MiniLM-L-6-v2";
+
+/**
+ * Candidates fetched for reranking when a request doesn't say
+ */
+const DEFAULT_CANDIDATES = Number(process.env.RERANK_CANDIDATES) || 20;
+
+/**
+ * Characters of each passage shown to the LLM reranker
+ */
+const LLM_PASSAGE_LENGTH = 1200;
+
+/**
+ * Relevance of passages to a query, between 0 and 1, in passage order
+ */
+export interface Reranker {
+  name: RerankerName;
+  model: string;
+  score(
+    query: string,
+    passages: string[],
+    options?: RerankCallOptions,
+  ): Promise<number[]>;
+}
+
+export type RerankUsageCallback = (
+  usage: LLMUsage,
+  model: string,
+  provider: string,
+) => void;
+
+/**
+ * How the LLM reranker makes its call for a request
+ */
+export interface RerankCallOptions {
+  target?: LLMTarget; // The model answering the question, instead of RERANK_LLM
+  schedule?: ScheduledCall; // Waits for a scheduler slot before calling the model
+  onUsage?: RerankUsageCallback;
+}
+
+/**
+ * Scores each query-passage pair with a cross-encoder from the Hugging
+ * Face hub, run on the CPU. The model is downloaded on first use.
+ */
+export class CrossEncoderReranker implements Reranker {
+  name = "cross-encoder" as const;
+  private loading?: Promise<{
+    tokenizer: PreTrainedTokenizer;
+    model: PreTrainedModel;
+  }>;
+
+  constructor(public model: string) {}
+
+  private load() {
+    if (!this.loading) {
+      this.loading = (async () => {
+        const { AutoTokenizer, AutoModelForSequenceClassification } =
+          await import("@huggingface/transformers");
+        const [tokenizer, model] = await Promise.all([
+          AutoTokenizer.from_pretrained(this.model),
+          AutoModelForSequenceClassification.from_pretrained(this.model),
+        ]);
+        log.info("Loaded cross-encoder", { model: this.model });
+        return { tokenizer, model };
+      })().catch((error) => {
+        this.loading = undefined;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  async score(query: string, passages: string[]): Promise<number[]> {
+    const { tokenizer, model } = await this.load();
+    const inputs = tokenizer(
+      passages.map(() => query),
+      { text_pair: passages, padding: true, truncation: true },
+    );
+    const { logits } = await model(inputs);
+    // One relevance logit per pair
+    return Array.from(logits.data as Float32Array).map(
+      (logit) => 1 / (1 + Math.exp(-logit)),
+    );
+  }
+}
+
+/**
+ * Asks a chat model to rate every passage from 0 to 10 in a single
+ * structured response. Like query planning, it uses the request's model
+ * when there is one, since the query comes from the conversation.
+ */
+export class LLMReranker implements Reranker {
+  name = "llm" as const;
+
+  constructor(
+    private llm: LLMService,
+    private target?: LLMTarget, // The default provider and model if not set
+  ) {}
+
+  get model(): string {
+    const provider = this.llm.getProvider(this.target?.provider);
+    if (!provider) return this.target?.model || "unknown";
+    return `${provider.name}:${this.target?.model || provider.defaultModel}`;
+  }
+
+  async score(
+    query: string,
+    passages: string[],
+    { target = this.target, schedule, onUsage }: RerankCallOptions = {},
+  ): Promise<number[]> {
+    const numbered = passages
+      .map((passage, index) =>
+        promptGuard.wrap(passage.slice(0, LLM_PASSAGE_LENGTH), {
+          title: `Passage ${index + 1}`,
+        }),
+      )
+      .join("\n\n");
+
+    const call = () =>
+      this.llm.complete(
+        {
+          messages: [
+            {
+              role: "system",
+              content: `You rate how relevant passages are to a search query, from 0 (unrelated) to 10 (answers it directly). Return one score per passage, in order.\n\n${UNTRUSTED_CONTENT_NOTICE}`,
+            },
+            { role: "user", content: `Query: ${query}\n\n${numbered}` },
+          ],
+          model: target?.model,
+          temperature: 0,
+          response_schema: {
+            name: "passage_scores",
+            schema: {
+              type: "object",
+              properties: {
+                scores: {
+                  type: "array",
+                  items: { type: "number", minimum: 0, maximum: 10 },
+                },
+              },
+              required: ["scores"],
+            },
+          },
+        },
+        target?.provider,
+      );
+    const response = schedule
+      ? await schedule(this.llm.getProvider(target?.provider)?.name, call)
+      : await call();
+    if (response.usage) {
+      onUsage?.(response.usage, response.model, response.provider);
+    }
+
+    const scores = (response.data as { scores?: number[] })?.scores;
+    if (!Array.isArray(scores) || scores.length !== passages.length) {
+      throw new Error(
+        `Expected ${passages.length} scores, got ${Array.isArray(scores) ? scores.length : "none"}`,
+      );
+    }
+    return scores.map((score) => Math.min(Math.max(score, 0), 10) / 10);
+  }
+}
+
+/**
+ * What a search result needs to be reranked
+ */
+export interface RerankableResult {
+  content: string;
+  score: number;
+  scores: { retrieval?: number; rerank?: number; [name: string]: number };
+}
+
+export interface RerankOptions extends RerankCallOptions {
+  reranker?: boolean | RerankerName; // true for the configured reranker
+  candidates?: number; // Results fetched before reranking
+}
+
+/**
+ * Reorders retrieved chunks with a reranker, for searches that over-fetch
+ * candidates and keep the best few. Rerankers are used per request, so
+ * several can be configured at once.
+ */
+export class RerankService {
+  private rerankers: Partial<Record<RerankerName, Reranker>> = {};
+
+  constructor(private defaultReranker?: RerankerName) {
+    this.configure(
+      new CrossEncoderReranker(
+        process.env.RERANK_MODEL || DEFAULT_CROSS_ENCODER_MODEL,
+      ),
+    );
+  }
+
+  configure(reranker: Reranker): void {
+    this.rerankers[reranker.name] = reranker;
+    log.info("Reranker configured", {
+      reranker: reranker.name,
+      model: reranker.model,
+    });
+  }
+
+  /**
+   * The reranker a request asks for, or undefined if it's not reranked.
+   * Requests that don't say get RERANKER, which is off by default.
+   */
+  resolve(reranker: RerankOptions["reranker"]): RerankerName | undefined {
+    if (reranker === false) return undefined;
+    if (reranker === true) return this.defaultReranker || "cross-encoder";
+    return reranker || this.defaultReranker;
+  }
+
+  /**
+   * How many results to fetch for a search that keeps `topK`
+   */
+  candidateCount(topK: number, options: RerankOptions = {}): number {
+    if (!this.resolve(options.reranker)) return topK;
+    return Math.max(options.candidates || DEFAULT_CANDIDATES, topK);
+  }
+
+  /**
+   * Reorder results by relevance to the query and keep the best `topK`.
+   * The retrieval score is kept as `scores.retrieval` and `score` becomes
+   * the reranker's. If reranking fails, the retrieval order is kept.
+   */
+  async rerank<T extends RerankableResult>(
+    query: string,
+    results: T[],
+    topK: number,
+    options: RerankOptions = {},
+  ): Promise<T[]> {
+    const name = this.resolve(options.reranker);
+    if (!name || results.length === 0) return results.slice(0, topK);
+
+    const reranker = this.rerankers[name];
+    try {
+      if (!reranker) throw new Error(`The ${name} reranker isn't configured`);
+      const started = Date.now();
+      const scores = await reranker.score(
+        query,
+        results.map((result) => result.content),
+        {
+          target: options.target,
+          schedule: options.schedule,
+          onUsage: options.onUsage,
+        },
+      );
+      log.debug("Reranked", {
+        reranker: name,
+        model: reranker.model,
+        candidates: results.length,
+        durationMs: Date.now() - started,
+      });
+      return results
+        .map((result, index) => ({
+          ...result,
+          score: scores[index],
+          scores: {
+            ...result.scores,
+            retrieval: result.score,
+            rerank: scores[index],
+          },
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, topK);
+    } catch (error) {
+      log.warn("Reranking failed, keeping the retrieval order", {
+        reranker: name,
+        error,
+      });
+      return results.slice(0, topK);
+    }
+  }
+}
+
+const configuredReranker = process.env.RERANKER as RerankerName;
+
+export const rerankService = new RerankService(
+  RERANKERS.includes(configuredReranker) ? configuredReranker : undefined,
+);
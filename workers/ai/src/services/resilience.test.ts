@@ -0,0 +1,140 @@
+import {
+  CircuitBreaker,
+  getRetryDelay,
+  isTransientError,
+  parseLLMTargets,
+} from "./resilience";
+
+describe("CircuitBreaker", () => {
+  const options = { failureThreshold: 2, cooldownMs: 1000 };
+  let now: number;
+
+  beforeEach(() => {
+    now = 0;
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const openBreaker = () => {
+    const breaker = new CircuitBreaker(options);
+    breaker.recordFailure(new Error("down"));
+    breaker.recordFailure(new Error("down"));
+    return breaker;
+  };
+
+  it("opens after consecutive failures and skips the provider until the cooldown ends", () => {
+    const breaker = openBreaker();
+    expect(breaker.getStatus()).toMatchObject({
+      state: "open",
+      consecutiveFailures: 2,
+      lastError: "down",
+    });
+    now = 999;
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it("lets a single trial through once the cooldown ends", () => {
+    const breaker = openBreaker();
+    now = 1000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getStatus().state).toBe("half_open");
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it("closes when the trial succeeds", () => {
+    const breaker = openBreaker();
+    now = 1000;
+    breaker.canRequest();
+    breaker.recordSuccess();
+    expect(breaker.getStatus()).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 0,
+    });
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it("opens again when the trial fails", () => {
+    const breaker = openBreaker();
+    now = 1000;
+    breaker.canRequest();
+    breaker.recordFailure(new Error("still down"));
+    expect(breaker.getStatus().state).toBe("open");
+    expect(breaker.canRequest()).toBe(false);
+    now = 2000;
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it("closes when the trial is refused, such as with a bad request", () => {
+    const breaker = openBreaker();
+    now = 1000;
+    breaker.canRequest();
+    breaker.recordRejected();
+    expect(breaker.getStatus().state).toBe("closed");
+    expect(breaker.canRequest()).toBe(true);
+  });
+
+  it("gives an aborted trial's place to the next request", () => {
+    const breaker = openBreaker();
+    now = 1000;
+    breaker.canRequest();
+    breaker.recordAborted();
+    expect(breaker.getStatus().state).toBe("half_open");
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.canRequest()).toBe(false);
+  });
+
+  it("doesn't count refusals as failures", () => {
+    const breaker = new CircuitBreaker(options);
+    breaker.recordFailure(new Error("down"));
+    breaker.recordRejected();
+    expect(breaker.getStatus()).toMatchObject({
+      state: "closed",
+      consecutiveFailures: 1,
+    });
+  });
+});
+
+describe("isTransientError", () => {
+  it("retries rate limits, server errors, timeouts and dropped connections", () => {
+    expect(isTransientError({ status: 429 })).toBe(true);
+    expect(isTransientError({ status: 503 })).toBe(true);
+    expect(isTransientError({ status: 408 })).toBe(true);
+    expect(isTransientError({ code: "ECONNRESET" })).toBe(true);
+  });
+
+  it("doesn't retry client errors", () => {
+    expect(isTransientError({ status: 400 })).toBe(false);
+    expect(isTransientError({ status: 401 })).toBe(false);
+    expect(isTransientError(new Error("bad"))).toBe(false);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("stays within the doubled, capped delay", () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 300 };
+    jest.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(getRetryDelay(policy, 0)).toBe(100);
+    expect(getRetryDelay(policy, 1)).toBe(200);
+    expect(getRetryDelay(policy, 4)).toBe(300);
+    jest.restoreAllMocks();
+  });
+});
+
+describe("parseLLMTargets", () => {
+  it("splits provider from model at the first colon", () => {
+    expect(
+      parseLLMTargets(
+        "anthropic:claude-3-5-haiku-latest, local:llama3.1:8b,openai,",
+      ),
+    ).toEqual([
+      { provider: "anthropic", model: "claude-3-5-haiku-latest" },
+      { provider: "local", model: "llama3.1:8b" },
+      { provider: "openai" },
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import OpenAI from "openai";
+import Anthropic from "@anthropic-ai/sdk";
+
+/**
+ * How failed provider calls are retried
+ */
+export interface RetryPolicy {
+  maxRetries: number; // Retries after the first attempt, per provider
+  baseDelayMs: number; // Delay before the first retry, doubled after each one
+  maxDelayMs: number;
+}
+
+/**
+ * When a failing provider is skipped
+ */
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures before the circuit opens
+  cooldownMs: number; // How long an open circuit skips the provider
+}
+
+export type CircuitState = "closed" | "open" | "half_open";
+
+/**
+ * Snapshot of a provider's circuit, as reported by /api/providers
+ */
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openUntil?: string;
+  lastError?: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 3,
+  cooldownMs: 30000,
+};
+
+/**
+ * Whether an error is worth retrying: rate limits, server errors, timeouts
+ * and dropped connections. Client errors such as a bad request or an invalid
+ * API key are not.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (
+    error instanceof OpenAI.APIUserAbortError ||
+    error instanceof Anthropic.APIUserAbortError
+  ) {
+    return false;
+  }
+  if (
+    error instanceof OpenAI.APIConnectionError ||
+    error instanceof Anthropic.APIConnectionError
+  ) {
+    return true;
+  }
+
+  const status = (error as { status?: number })?.status;
+  if (typeof status === "number") {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const code = (error as { code?: string })?.code;
+  return (
+    code === "ECONNRESET" || code === "ECONNREFUSED" || code === "ETIMEDOUT"
+  );
+}
+
+/**
+ * Exponential backoff with full jitter for the given retry (0-based)
+ */
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Tracks consecutive failures of one provider. After `failureThreshold`
+ * failures the circuit opens and the provider is skipped until the cooldown
+ * ends; then a single trial request is let through (half open), which either
+ * closes the circuit or opens it again. Other requests are skipped while
+ * the trial is in flight. Every call the breaker lets through must end with
+ * one of the `record` methods.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private lastError?: string;
+  private trialInFlight = false;
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  /**
+   * Whether the provider should be called now. In the half-open state only
+   * the first caller gets through.
+   */
+  canRequest(): boolean {
+    if (this.state === "open") {
+      if (Date.now() - this.openedAt < this.options.cooldownMs) {
+        return false;
+      }
+      this.state = "half_open";
+    }
+    if (this.state === "half_open") {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.lastError = undefined;
+    this.trialInFlight = false;
+  }
+
+  /**
+   * The provider answered but refused the request, such as a bad request
+   * or an invalid API key. It's reachable, so a trial closes the circuit,
+   * but the refusal doesn't count as a failure.
+   */
+  recordRejected(): void {
+    if (this.state === "half_open") {
+      this.state = "closed";
+      this.consecutiveFailures = 0;
+    }
+    this.trialInFlight = false;
+  }
+
+  /**
+   * The call was given up before the provider answered, so it says nothing
+   * about the provider. A trial's place goes to the next request.
+   */
+  recordAborted(): void {
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: unknown): void {
+    this.trialInFlight = false;
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    if (
+      this.state === "half_open" ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openUntil:
+        this.state === "open"
+          ? new Date(this.openedAt + this.options.cooldownMs).toISOString()
+          : undefined,
+      lastError: this.lastError,
+    };
+  }
+}
+
+/**
+ * A provider, and optionally a model, to send a request to
+ */
+export interface LLMTarget {
+  provider: string;
+  model?: string; // Defaults to the provider's default model
+}
+
+/**
+ * Parse a fallback chain such as `anthropic:claude-3-5-haiku-latest,local`.
+ * Only the first colon separates provider from model, so model names like
+ * `llama3.1:8b` are kept intact.
+ */
+export function parseLLMTargets(spec: string): LLMTarget[] {
+  return spec
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      const separator = entry.indexOf(":");
+      return separator === -1
+        ? { provider: entry }
+        : {
+            provider: entry.slice(0, separator),
+            model: entry.slice(separator + 1) || undefined,
+          };
+    });
+}
@@ -0,0 +1,177 @@
+import type { LLMMessage } from "./llmProvider";
+import {
+  CacheKeyInput,
+  ResponseCache,
+  ResponseCacheOptions,
+} from "./responseCache";
+
+// Chroma collection answering queries with the distance the test sets
+jest.mock("chromadb", () => {
+  const collection = {
+    upsert: jest.fn(async () => undefined),
+    delete: jest.fn(async () => undefined),
+    query: jest.fn(),
+  };
+  return {
+    collection,
+    ChromaClient: jest.fn(() => ({
+      deleteCollection: jest.fn(async () => undefined),
+      getOrCreateCollection: jest.fn(async () => collection),
+    })),
+  };
+});
+jest.mock("./embeddingService", () => ({
+  embeddingService: { asEmbeddingFunction: () => ({}) },
+}));
+
+const { collection } = jest.requireMock("chromadb") as {
+  collection: { upsert: jest.Mock; delete: jest.Mock; query: jest.Mock };
+};
+
+const cache = (options: Partial<ResponseCacheOptions> = {}) =>
+  new ResponseCache({
+    mode: "exact",
+    ttlMs: 60_000,
+    maxEntries: 10,
+    similarityThreshold: 0.95,
+    ...options,
+  });
+
+const input = (
+  question: string,
+  overrides: Partial<CacheKeyInput> = {},
+): CacheKeyInput => ({
+  provider: "openai",
+  model: "gpt-4o",
+  temperature: 0,
+  messages: [
+    { role: "system", content: "Be brief." },
+    { role: "user", content: question },
+  ] as LLMMessage[],
+  ...overrides,
+});
+
+const answer = (content: string) => ({
+  content,
+  model: "gpt-4o",
+  provider: "openai",
+});
+
+describe("ResponseCache", () => {
+  beforeEach(() => jest.clearAllMocks());
+  afterEach(() => jest.restoreAllMocks());
+
+  it("reuses responses to the same prompt, whatever its whitespace", async () => {
+    const responses = cache();
+    await responses.set(input("Churn in Q3?"), answer("It rose."));
+
+    expect(await responses.get(input("  Churn   in\nQ3? "))).toEqual(
+      answer("It rose."),
+    );
+    expect(await responses.get(input("Churn in Q4?"))).toBeUndefined();
+    expect(
+      await responses.get(input("Churn in Q3?", { model: "gpt-4o-mini" })),
+    ).toBeUndefined();
+    expect(
+      await responses.get(
+        input("Churn in Q3?", { schema: { type: "object" } }),
+      ),
+    ).toBeUndefined();
+    expect(responses.getStats()).toEqual({
+      mode: "exact",
+      entries: 1,
+      hits: 1,
+      exactHits: 1,
+      semanticHits: 0,
+      misses: 3,
+      hitRate: 0.25,
+    });
+    expect(collection.query).not.toHaveBeenCalled();
+  });
+
+  it("caches nothing when off", async () => {
+    const responses = cache({ mode: "off" });
+    await responses.set(input("Churn in Q3?"), answer("It rose."));
+    expect(await responses.get(input("Churn in Q3?"))).toBeUndefined();
+    expect(responses.getStats()).toMatchObject({ entries: 0, misses: 0 });
+  });
+
+  it("expires responses after the TTL", async () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(1_000);
+    const responses = cache({ ttlMs: 500 });
+    await responses.set(input("Churn in Q3?"), answer("It rose."));
+
+    now.mockReturnValue(1_499);
+    expect(await responses.get(input("Churn in Q3?"))).toBeDefined();
+    now.mockReturnValue(1_500);
+    expect(await responses.get(input("Churn in Q3?"))).toBeUndefined();
+    expect(responses.getStats().entries).toBe(0);
+  });
+
+  it("drops the oldest responses over the size limit", async () => {
+    const responses = cache({ maxEntries: 2 });
+    for (const quarter of ["Q1", "Q2", "Q3"]) {
+      await responses.set(input(`Churn in ${quarter}?`), answer(quarter));
+    }
+
+    expect(await responses.get(input("Churn in Q1?"))).toBeUndefined();
+    expect((await responses.get(input("Churn in Q3?")))?.content).toBe("Q3");
+    expect(responses.getStats().entries).toBe(2);
+  });
+
+  describe("semantic", () => {
+    it("reuses the response to a similar question in the same conversation", async () => {
+      const responses = cache({ mode: "semantic" });
+      await responses.set(
+        input("How did churn change in Q3?"),
+        answer("It rose."),
+      );
+      const [{ ids, metadatas }] = collection.upsert.mock.calls[0] as any[];
+
+      collection.query.mockResolvedValue({ ids: [ids], distances: [[0.03]] });
+      expect(await responses.get(input("How did churn change in Q3"))).toEqual(
+        answer("It rose."),
+      );
+      expect(collection.query).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { scope: metadatas[0].scope } }),
+      );
+
+      collection.query.mockResolvedValue({ ids: [ids], distances: [[0.2]] });
+      expect(
+        await responses.get(input("How did revenue change in Q3?")),
+      ).toBeUndefined();
+      expect(responses.getStats()).toMatchObject({
+        semanticHits: 1,
+        misses: 1,
+      });
+    });
+
+    it("only looks for prompts with the same earlier messages and settings", async () => {
+      const responses = cache({ mode: "semantic" });
+      collection.query.mockResolvedValue({ ids: [[]], distances: [[]] });
+
+      await responses.get(input("Churn?"));
+      await responses.get(
+        input("Churn?", {
+          messages: [
+            { role: "system", content: "Be detailed." },
+            { role: "user", content: "Churn?" },
+          ],
+        }),
+      );
+      await responses.get(input("Churn?", { temperature: 1 }));
+
+      const scopes = collection.query.mock.calls.map(
+        ([query]) => query.where.scope,
+      );
+      expect(new Set(scopes).size).toBe(3);
+    });
+
+    it("misses when the semantic lookup fails", async () => {
+      const responses = cache({ mode: "semantic" });
+      collection.query.mockRejectedValue(new Error("Chroma is down"));
+      expect(await responses.get(input("Churn?"))).toBeUndefined();
+      expect(responses.getStats().misses).toBe(1);
+    });
+  });
+});
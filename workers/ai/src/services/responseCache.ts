@@ -0,0 +1,274 @@
+import { createHash } from "crypto";
+import { ChromaClient } from "chromadb";
+import type { LLMMessage, LLMUsage } from "./llmProvider";
+import { embeddingService } from "./embeddingService";
+import { logger } from "../utils/logger";
+
+const log = logger.child("cache");
+
+/**
+ * `exact` only reuses responses to identical prompts. `semantic` also
+ * reuses them when the final message is a near-duplicate and everything
+ * before it is identical.
+ */
+export type CacheMode = "off" | "exact" | "semantic";
+
+/**
+ * What a cached response is keyed on
+ */
+export interface CacheKeyInput {
+  provider: string;
+  model: string;
+  temperature?: number;
+  max_tokens?: number;
+  messages: LLMMessage[];
+  schema?: Record<string, any>; // Response schema, if any
+}
+
+export interface CachedResponse {
+  content: string;
+  model: string;
+  provider: string;
+  usage?: LLMUsage; // Usage of the original call, which a hit doesn't repeat
+  data?: unknown;
+}
+
+interface CacheEntry {
+  response: CachedResponse;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  mode: CacheMode;
+  entries: number;
+  hits: number;
+  exactHits: number;
+  semanticHits: number;
+  misses: number;
+  hitRate: number;
+}
+
+export interface ResponseCacheOptions {
+  mode: CacheMode;
+  ttlMs: number;
+  maxEntries: number;
+  similarityThreshold: number; // Cosine similarity needed for a semantic hit
+}
+
+/**
+ * Collapse whitespace so formatting differences don't defeat the cache
+ */
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+function hash(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+export class ResponseCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private client?: ChromaClient;
+  private collection: any;
+  private collectionReady?: Promise<any>;
+  private hits = { exact: 0, semantic: 0 };
+  private misses = 0;
+
+  constructor(private options: ResponseCacheOptions) {}
+
+  get mode(): CacheMode {
+    return this.options.mode;
+  }
+
+  /**
+   * Exact key for a request, and the scope a semantic match must share:
+   * the same settings and every message but the last
+   */
+  private keys(input: CacheKeyInput): { key: string; scope: string } {
+    const messages = input.messages.map((message) => ({
+      ...message,
+      content: normalize(message.content),
+    }));
+    const settings = {
+      provider: input.provider,
+      model: input.model,
+      temperature: input.temperature,
+      max_tokens: input.max_tokens,
+      schema: input.schema,
+    };
+    return {
+      key: hash({ ...settings, messages }),
+      scope: hash({ ...settings, messages: messages.slice(0, -1) }),
+    };
+  }
+
+  /**
+   * Chroma collection of cached prompts for semantic lookups. Cosine
+   * distance keeps scores comparable with the similarity threshold. The
+   * responses only live in memory, so prompts left from an earlier run,
+   * possibly embedded with another model, are dropped.
+   */
+  private getCollection(): Promise<any> {
+    if (!this.collectionReady) {
+      this.collectionReady = this.createCollection().catch((error) => {
+        this.collectionReady = undefined;
+        throw error;
+      });
+    }
+    return this.collectionReady;
+  }
+
+  private async createCollection(): Promise<any> {
+    this.client = this.client || new ChromaClient({ port: 8888 });
+    await this.client
+      .deleteCollection({ name: "tonkbook_response_cache" })
+      .catch(() => {
+        // Nothing cached yet
+      });
+    this.collection = await this.client.getOrCreateCollection({
+      name: "tonkbook_response_cache",
+      configuration: { hnsw: { space: "cosine" } },
+      embeddingFunction: embeddingService.asEmbeddingFunction(),
+    });
+    return this.collection;
+  }
+
+  async get(input: CacheKeyInput): Promise<CachedResponse | undefined> {
+    if (this.options.mode === "off") return undefined;
+    const { key, scope } = this.keys(input);
+
+    const exact = this.lookup(key);
+    if (exact) {
+      this.hits.exact++;
+      return exact;
+    }
+
+    if (this.options.mode === "semantic") {
+      try {
+        const semantic = await this.semanticLookup(input, scope);
+        if (semantic) {
+          this.hits.semantic++;
+          return semantic;
+        }
+      } catch (error) {
+        log.warn("Semantic lookup failed", { error });
+      }
+    }
+
+    this.misses++;
+    return undefined;
+  }
+
+  async set(input: CacheKeyInput, response: CachedResponse): Promise<void> {
+    if (this.options.mode === "off") return;
+    const { key, scope } = this.keys(input);
+
+    this.entries.set(key, {
+      response,
+      expiresAt: Date.now() + this.options.ttlMs,
+    });
+    this.evict();
+
+    if (this.options.mode === "semantic") {
+      const lastMessage = input.messages[input.messages.length - 1];
+      try {
+        const collection = await this.getCollection();
+        await collection.upsert({
+          ids: [key],
+          documents: [normalize(lastMessage?.content || "")],
+          metadatas: [{ scope }],
+        });
+      } catch (error) {
+        log.warn("Failed to index prompt", { error });
+      }
+    }
+  }
+
+  private lookup(key: string): CachedResponse | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      this.remove([key]);
+      return undefined;
+    }
+    return entry.response;
+  }
+
+  private async semanticLookup(
+    input: CacheKeyInput,
+    scope: string,
+  ): Promise<CachedResponse | undefined> {
+    const lastMessage = input.messages[input.messages.length - 1];
+    if (!lastMessage) return undefined;
+
+    const collection = await this.getCollection();
+    const results = await collection.query({
+      queryTexts: [normalize(lastMessage.content)],
+      nResults: 1,
+      where: { scope },
+      include: ["distances"],
+    });
+
+    const id = results.ids?.[0]?.[0];
+    const distance = results.distances?.[0]?.[0];
+    if (!id || distance === undefined || distance === null) return undefined;
+    if (1 - distance < this.options.similarityThreshold) return undefined;
+
+    return this.lookup(id);
+  }
+
+  /**
+   * Drop expired entries, then the oldest ones over the size limit
+   */
+  private evict(): void {
+    const now = Date.now();
+    const removed: string[] = [];
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) removed.push(key);
+    }
+    const overflow =
+      this.entries.size - removed.length - this.options.maxEntries;
+    if (overflow > 0) {
+      // Maps iterate in insertion order, so the first keys are the oldest
+      removed.push(
+        ...Array.from(this.entries.keys())
+          .filter((key) => !removed.includes(key))
+          .slice(0, overflow),
+      );
+    }
+    this.remove(removed);
+  }
+
+  private remove(keys: string[]): void {
+    if (keys.length === 0) return;
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+    if (this.collection) {
+      this.collection.delete({ ids: keys }).catch((error: unknown) => {
+        log.warn("Failed to remove prompts", { error });
+      });
+    }
+  }
+
+  getStats(): CacheStats {
+    const hits = this.hits.exact + this.hits.semantic;
+    const lookups = hits + this.misses;
+    return {
+      mode: this.options.mode,
+      entries: this.entries.size,
+      hits,
+      exactHits: this.hits.exact,
+      semanticHits: this.hits.semantic,
+      misses: this.misses,
+      hitRate: lookups > 0 ? hits / lookups : 0,
+    };
+  }
+}
+
+export const responseCache = new ResponseCache({
+  mode: (process.env.LLM_CACHE_MODE as CacheMode) || "exact",
+  ttlMs: Number(process.env.LLM_CACHE_TTL_MS) || 60 * 60 * 1000,
+  maxEntries: Number(process.env.LLM_CACHE_MAX_ENTRIES) || 500,
+  similarityThreshold: Number(process.env.LLM_CACHE_SIMILARITY) || 0.95,
+});
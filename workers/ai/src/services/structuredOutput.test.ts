@@ -0,0 +1,189 @@
+import { LLMProvider, LLMRequest, LLMService } from "./llmProvider";
+import {
+  checkSchema,
+  exampleForSchema,
+  extractJson,
+  parseStructuredOutput,
+  withSchemaInstruction,
+} from "./structuredOutput";
+
+const summarySchema = {
+  type: "object",
+  properties: {
+    title: { type: "string", minLength: 1 },
+    points: { type: "array", items: { type: "string" }, minItems: 2 },
+  },
+  required: ["title", "points"],
+};
+
+describe("extractJson", () => {
+  it("reads JSON from code fences and surrounding prose", () => {
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here you go: {"a": [1, 2]} Hope that helps!')).toEqual({
+      a: [1, 2],
+    });
+    expect(() => extractJson("No JSON here")).toThrow(
+      "Response contains no JSON",
+    );
+  });
+});
+
+describe("parseStructuredOutput", () => {
+  it("returns the data when it matches the schema", () => {
+    expect(
+      parseStructuredOutput(
+        '{"title": "Q3", "points": ["a", "b"]}',
+        summarySchema,
+      ),
+    ).toEqual({ data: { title: "Q3", points: ["a", "b"] } });
+  });
+
+  it("lists every way the output fails the schema", () => {
+    expect(
+      parseStructuredOutput('{"title": "", "points": ["a"]}', summarySchema)
+        .errors,
+    ).toEqual([
+      "/title must NOT have fewer than 1 characters",
+      "/points must NOT have fewer than 2 items",
+    ]);
+    expect(parseStructuredOutput("Sorry, I can't.", summarySchema)).toEqual({
+      errors: ["not valid JSON: Response contains no JSON"],
+    });
+  });
+
+  it("validates against schemas that reuse an $id", () => {
+    const schema = (type: string) => ({ $id: "answer", type });
+    expect(parseStructuredOutput("1", schema("number")).errors).toBeUndefined();
+    expect(
+      parseStructuredOutput('"a"', schema("string")).errors,
+    ).toBeUndefined();
+  });
+});
+
+describe("checkSchema", () => {
+  it("rejects schemas Ajv can't compile", () => {
+    expect(() => checkSchema(summarySchema)).not.toThrow();
+    expect(() => checkSchema({ type: "not-a-type" })).toThrow(
+      /^Invalid schema:/,
+    );
+  });
+});
+
+describe("withSchemaInstruction", () => {
+  const responseSchema = { name: "summary", schema: summarySchema };
+
+  it("adds the schema to the system prompt, or as one", () => {
+    const [system] = withSchemaInstruction(
+      [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Summarize" },
+      ],
+      responseSchema,
+    );
+    expect(system.content).toMatch(/^Be brief\.\n\nRespond only with a JSON/);
+    expect(system.content).toContain(JSON.stringify(summarySchema));
+
+    const messages = withSchemaInstruction(
+      [{ role: "user", content: "Summarize" }],
+      responseSchema,
+    );
+    expect(messages.map((message) => message.role)).toEqual(["system", "user"]);
+  });
+});
+
+describe("exampleForSchema", () => {
+  it("builds the smallest value the schema accepts", () => {
+    const example = exampleForSchema({
+      ...summarySchema,
+      properties: {
+        ...summarySchema.properties,
+        kind: { enum: ["report", "memo"] },
+        count: { type: "integer", minimum: 3 },
+        id: { type: "string", minLength: 10 },
+      },
+    });
+    expect(example).toEqual({
+      title: "example",
+      points: ["example", "example"],
+      kind: "report",
+      count: 3,
+      id: "examplexxx",
+    });
+  });
+});
+
+describe("LLMService structured output", () => {
+  const request: LLMRequest = {
+    messages: [{ role: "user", content: "Summarize Q3" }],
+    response_schema: { name: "summary", schema: summarySchema },
+  };
+
+  /**
+   * Provider that answers with the given outputs in turn
+   */
+  const answering = (...outputs: string[]) => {
+    const requests: LLMRequest[] = [];
+    const provider: LLMProvider = {
+      name: "scripted",
+      models: ["model"],
+      defaultModel: "model",
+      isConfigured: () => true,
+      complete: async (sent) => {
+        requests.push(sent);
+        return {
+          content: outputs[requests.length - 1],
+          usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+          model: "model",
+          provider: "scripted",
+        };
+      },
+      async *stream() {
+        yield outputs[0];
+      },
+    };
+    const llm = new LLMService();
+    llm.addProvider(provider);
+    return { llm, requests };
+  };
+
+  it("asks the model to repair output that doesn't match", async () => {
+    const { llm, requests } = answering(
+      '{"title": "Q3"}',
+      '{"title": "Q3", "points": ["Churn rose", "Revenue fell"]}',
+    );
+
+    const response = await llm.complete(request);
+    expect(response.data).toEqual({
+      title: "Q3",
+      points: ["Churn rose", "Revenue fell"],
+    });
+    expect(response.usage?.total_tokens).toBe(30);
+    expect(requests[1].messages.slice(-2)).toEqual([
+      { role: "assistant", content: '{"title": "Q3"}' },
+      {
+        role: "user",
+        content: expect.stringContaining(
+          "/ must have required property 'points'",
+        ),
+      },
+    ]);
+  });
+
+  it("fails once the repairs run out", async () => {
+    const { llm } = answering("{}", "{}", "{}", "{}");
+    await expect(llm.complete(request)).rejects.toThrow(
+      "Output doesn't match the summary schema",
+    );
+  });
+
+  it("parses a streamed answer once the stream ends", async () => {
+    const { llm } = answering('{"title": "Q3", "points": ["a", "b"]}');
+    const structured: unknown[] = [];
+    for await (const _chunk of llm.stream(request, undefined, {
+      onStructuredOutput: (data) => structured.push(data),
+    })) {
+      // Only the parsed result is checked
+    }
+    expect(structured).toEqual([{ title: "Q3", points: ["a", "b"] }]);
+  });
+});
@@ -0,0 +1,165 @@
+import Ajv, { ValidateFunction } from "ajv";
+import type { LLMMessage, LLMResponseSchema } from "./llmProvider";
+
+/**
+ * Compiled validators are kept for schemas that are sent repeatedly, up to
+ * this many
+ */
+const MAX_CACHED_VALIDATORS = 100;
+
+/**
+ * Result of parsing model output against a schema. `errors` is set when the
+ * output isn't JSON or doesn't match the schema.
+ */
+export interface StructuredOutputResult {
+  data?: unknown;
+  errors?: string[];
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validators: Map<string, ValidateFunction> = new Map();
+
+function getValidator(schema: Record<string, any>): ValidateFunction {
+  const key = JSON.stringify(schema);
+  let validate = validators.get(key);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    // Compiled functions don't need the schema to stay registered, and
+    // keeping it would reject the next schema with the same $id
+    ajv.removeSchema(schema);
+    if (validators.size >= MAX_CACHED_VALIDATORS) {
+      validators.delete(validators.keys().next().value!);
+    }
+    validators.set(key, validate);
+  }
+  return validate;
+}
+
+/**
+ * Throw if the schema itself is invalid, so a bad request fails before
+ * reaching the model
+ */
+export function checkSchema(schema: Record<string, any>): void {
+  try {
+    getValidator(schema);
+  } catch (error) {
+    throw new Error(
+      `Invalid schema: ${error instanceof Error ? error.message : error}`,
+    );
+  }
+}
+
+/**
+ * Pull a JSON value out of model output, which may wrap it in a code fence
+ * or surround it with prose
+ */
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(candidate);
+  } catch {
+    // Fall back to the outermost object or array
+    const start = candidate.search(/[{[]/);
+    const end = Math.max(
+      candidate.lastIndexOf("}"),
+      candidate.lastIndexOf("]"),
+    );
+    if (start === -1 || end <= start) {
+      throw new Error("Response contains no JSON");
+    }
+    return JSON.parse(candidate.slice(start, end + 1));
+  }
+}
+
+/**
+ * Parse model output and validate it against the schema
+ */
+export function parseStructuredOutput(
+  text: string,
+  schema: Record<string, any>,
+): StructuredOutputResult {
+  let data: unknown;
+  try {
+    data = extractJson(text);
+  } catch (error) {
+    return {
+      errors: [
+        `not valid JSON: ${error instanceof Error ? error.message : error}`,
+      ],
+    };
+  }
+
+  const validate = getValidator(schema);
+  if (validate(data)) return { data };
+  return {
+    errors: (validate.errors || []).map(
+      (error) => `${error.instancePath || "/"} ${error.message}`,
+    ),
+  };
+}
+
+/**
+ * Tell a model without native structured output which JSON to produce. The
+ * instruction is added to the system prompt.
+ */
+export function withSchemaInstruction(
+  messages: LLMMessage[],
+  responseSchema: LLMResponseSchema,
+): LLMMessage[] {
+  const instruction = `Respond only with a JSON value matching this JSON Schema, without any other text or code fences:\n${JSON.stringify(responseSchema.schema)}`;
+  const systemIndex = messages.findIndex(
+    (message) => message.role === "system",
+  );
+  if (systemIndex === -1) {
+    return [{ role: "system", content: instruction }, ...messages];
+  }
+  return messages.map((message, index) =>
+    index === systemIndex
+      ? { ...message, content: `${message.content}\n\n${instruction}` }
+      : message,
+  );
+}
+
+/**
+ * Follow-up asking the model to fix output that failed validation
+ */
+export function repairInstruction(errors: string[]): string {
+  return `Your response did not match the required JSON Schema:\n${errors.map((error) => `- ${error}`).join("\n")}\n\nReply with only the corrected JSON.`;
+}
+
+/**
+ * A minimal value matching the schema, used by the mock provider
+ */
+export function exampleForSchema(schema: any): unknown {
+  if (!schema || typeof schema !== "object") return null;
+  if ("const" in schema) return schema.const;
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if ("default" in schema) return schema.default;
+  const variants = schema.anyOf || schema.oneOf;
+  if (Array.isArray(variants)) return exampleForSchema(variants[0]);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "array":
+      return Array.from({ length: schema.minItems ?? 1 }, () =>
+        exampleForSchema(schema.items),
+      );
+    case "string":
+      return "example".padEnd(schema.minLength || 0, "x");
+    case "number":
+    case "integer":
+      return schema.minimum ?? 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, property]) => [
+          key,
+          exampleForSchema(property),
+        ]),
+      );
+  }
+}
@@ -0,0 +1,49 @@
+import { Tool, ToolRegistry } from "./toolRegistry";
+
+const tool = (name: string, optIn?: boolean): Tool => ({
+  optIn,
+  definition: { name, description: name, parameters: { type: "object" } },
+  execute: async (args) => `${name} ${JSON.stringify(args)}`,
+});
+
+describe("ToolRegistry", () => {
+  const registry = new ToolRegistry();
+  registry.register(tool("search"));
+  registry.register(tool("fetch", true));
+
+  it("leaves opt-in tools out of the default set", () => {
+    expect(
+      registry.getDefinitions().map((definition) => definition.name),
+    ).toEqual(["search"]);
+  });
+
+  it("offers opt-in tools by name", () => {
+    expect(registry.getDefinitions(["fetch"])[0].name).toBe("fetch");
+    expect(() => registry.getDefinitions(["missing"])).toThrow("Unknown tool");
+  });
+
+  it("lists every tool with whether it's opt-in", () => {
+    expect(registry.list().map(({ name, optIn }) => ({ name, optIn }))).toEqual(
+      [
+        { name: "search", optIn: false },
+        { name: "fetch", optIn: true },
+      ],
+    );
+  });
+
+  it("reports failures and unknown tools in the invocation", async () => {
+    const failing = new ToolRegistry();
+    failing.register({
+      ...tool("broken"),
+      execute: async () => {
+        throw new Error("nope");
+      },
+    });
+    await expect(
+      failing.execute({ id: "1", name: "broken", arguments: {} }),
+    ).resolves.toMatchObject({ error: "nope" });
+    await expect(
+      failing.execute({ id: "2", name: "other", arguments: {} }),
+    ).resolves.toMatchObject({ error: "Unknown tool: other" });
+  });
+});
@@ -0,0 +1,118 @@
+import type { LLMToolCall, LLMToolDefinition } from "./llmProvider";
+import type { SearchScope } from "./vectorService";
+import { logger } from "../utils/logger";
+
+const log = logger.child("tools");
+
+/**
+ * Maximum length of a tool result passed back to the model
+ */
+const MAX_RESULT_LENGTH = 8000;
+
+/**
+ * What the request a tool runs for allows it to see
+ */
+export interface ToolContext {
+  scope?: SearchScope; // Sources the search tools may read; all if not set
+  userUrls?: string[]; // URLs the user wrote in the conversation, the only ones fetch_web_page fetches
+}
+
+/**
+ * A tool the worker can execute on the model's behalf
+ */
+export interface Tool {
+  definition: LLMToolDefinition;
+  optIn?: boolean; // Only offered to requests that name it, not with `tools: true`
+  execute(args: Record<string, any>, context: ToolContext): Promise<string>;
+}
+
+/**
+ * Record of a tool call executed by the worker
+ */
+export interface LLMToolInvocation {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  result?: string;
+  error?: string;
+}
+
+export class ToolRegistry {
+  private tools: Map<string, Tool> = new Map();
+
+  register(tool: Tool): void {
+    this.tools.set(tool.definition.name, tool);
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Get definitions for the named tools, or for every tool that isn't
+   * opt-in if no names are given
+   */
+  getDefinitions(names?: string[]): LLMToolDefinition[] {
+    if (!names) {
+      return Array.from(this.tools.values())
+        .filter((tool) => !tool.optIn)
+        .map((tool) => tool.definition);
+    }
+
+    return names.map((name) => {
+      const tool = this.tools.get(name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+      return tool.definition;
+    });
+  }
+
+  /**
+   * Every tool, marked with whether requests have to name it
+   */
+  list(): (LLMToolDefinition & { optIn: boolean })[] {
+    return Array.from(this.tools.values()).map((tool) => ({
+      ...tool.definition,
+      optIn: !!tool.optIn,
+    }));
+  }
+
+  /**
+   * Execute a tool call. Failures are captured in the invocation so they can
+   * be reported back to the model rather than aborting the conversation.
+   */
+  async execute(
+    call: LLMToolCall,
+    context: ToolContext = {},
+  ): Promise<LLMToolInvocation> {
+    const invocation: LLMToolInvocation = {
+      id: call.id,
+      name: call.name,
+      arguments: call.arguments,
+    };
+
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      invocation.error = `Unknown tool: ${call.name}`;
+      return invocation;
+    }
+
+    try {
+      log.info("Running tool", { tool: call.name, arguments: call.arguments });
+      const result = await tool.execute(call.arguments, context);
+      invocation.result =
+        result.length > MAX_RESULT_LENGTH
+          ? `${result.slice(0, MAX_RESULT_LENGTH)}\n... (truncated)`
+          : result;
+    } catch (error) {
+      log.error("Tool failed", { tool: call.name, error });
+      invocation.error =
+        error instanceof Error ? error.message : "Tool execution failed";
+    }
+
+    return invocation;
+  }
+}
+
+export const toolRegistry = new ToolRegistry();
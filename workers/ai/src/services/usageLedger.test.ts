@@ -0,0 +1,127 @@
+import { readDoc, writeDoc } from "@tonk/keepsync";
+import { UsageLedger } from "./usageLedger";
+
+// Documents kept in memory instead of synced. The mock is virtual because
+// jest can't resolve the package's ESM-only exports.
+jest.mock(
+  "@tonk/keepsync",
+  () => {
+    const docs = new Map<string, unknown>();
+    return {
+      docs,
+      readDoc: jest.fn(async (path: string) => structuredClone(docs.get(path))),
+      writeDoc: jest.fn(async (path: string, doc: unknown) => {
+        docs.set(path, structuredClone(doc));
+      }),
+    };
+  },
+  { virtual: true },
+);
+
+const { docs } = jest.requireMock("@tonk/keepsync") as {
+  docs: Map<string, unknown>;
+};
+
+const usage = (prompt: number, completion: number) => ({
+  prompt_tokens: prompt,
+  completion_tokens: completion,
+  total_tokens: prompt + completion,
+});
+
+describe("UsageLedger", () => {
+  beforeEach(() => {
+    docs.clear();
+    jest.clearAllMocks();
+  });
+
+  it("keeps the ledger in the absolute /tonkbook/usage document", async () => {
+    await new UsageLedger().record({
+      provider: "openai",
+      model: "gpt-4o",
+      usage: usage(1, 1),
+    });
+    expect(writeDoc).toHaveBeenCalledWith("/tonkbook/usage", expect.anything());
+    expect(readDoc).toHaveBeenCalledWith("/tonkbook/usage");
+  });
+
+  it("adds up usage and cost per note, provider and model", async () => {
+    const ledger = new UsageLedger();
+    await Promise.all([
+      ledger.record({
+        provider: "openai",
+        model: "gpt-4o-2024-08-06",
+        usage: usage(1_000_000, 0),
+        noteId: "n1",
+      }),
+      ledger.record({
+        provider: "openai",
+        model: "gpt-4o-2024-08-06",
+        usage: usage(0, 100_000),
+        noteId: "n1",
+      }),
+    ]);
+
+    const { notes } = await ledger.getLedger();
+    expect(notes.n1.openai["gpt-4o-2024-08-06"]).toMatchObject({
+      requests: 2,
+      prompt_tokens: 1_000_000,
+      completion_tokens: 100_000,
+      total_tokens: 1_100_000,
+      cost_usd: 3.5,
+      unpriced_requests: 0,
+    });
+  });
+
+  it("attributes usage to the digest run, or to nothing", async () => {
+    const ledger = new UsageLedger();
+    await ledger.record({
+      provider: "mock",
+      model: "mock-echo",
+      usage: usage(5, 5),
+      digestId: "d1",
+    });
+    await ledger.record({
+      provider: "openai",
+      model: "unknown-model",
+      usage: usage(5, 5),
+    });
+
+    const doc = await ledger.getLedger();
+    expect(doc.notes).toEqual({});
+    expect(doc.digests.d1.mock["mock-echo"].cost_usd).toBe(0);
+    expect(doc.unattributed.openai["unknown-model"]).toMatchObject({
+      cost_usd: 0,
+      unpriced_requests: 1,
+    });
+    expect(
+      ledger.summarize(...Object.values(doc.digests), doc.unattributed),
+    ).toEqual({
+      requests: 2,
+      prompt_tokens: 10,
+      completion_tokens: 10,
+      total_tokens: 20,
+      cost_usd: 0,
+      unpriced_requests: 1,
+    });
+  });
+
+  it("returns an empty ledger before anything is recorded", async () => {
+    expect(await new UsageLedger().getLedger()).toEqual({
+      notes: {},
+      digests: {},
+      unattributed: {},
+      updatedAt: new Date(0).toISOString(),
+    });
+  });
+
+  it("keeps recording after a write fails", async () => {
+    const ledger = new UsageLedger();
+    jest.mocked(writeDoc).mockRejectedValueOnce(new Error("offline"));
+
+    await expect(
+      ledger.record({ provider: "mock", model: "m", usage: usage(1, 1) }),
+    ).rejects.toThrow("offline");
+    await ledger.record({ provider: "mock", model: "m", usage: usage(1, 1) });
+    expect((await ledger.getLedger()).unattributed.mock.m.requests).toBe(1);
+  });
+});
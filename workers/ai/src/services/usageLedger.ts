@@ -0,0 +1,146 @@
+import { readDoc, writeDoc } from "@tonk/keepsync";
+import type { LLMUsage } from "./llmProvider";
+import { calculateCost } from "./pricing";
+import { logger } from "../utils/logger";
+
+const log = logger.child("usage");
+
+const USAGE_DOC_PATH = "/tonkbook/usage";
+
+/**
+ * Accumulated usage for one provider/model pair
+ */
+export interface UsageTotals {
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  unpriced_requests: number; // Requests for models missing from the pricing table
+  last_used_at: string;
+}
+
+/**
+ * Usage totals keyed by provider, then model
+ */
+export type ProviderUsage = Record<string, Record<string, UsageTotals>>;
+
+/**
+ * The usage ledger keepsync document. Usage is attributed to the note or
+ * digest run that caused it; anything else is unattributed.
+ */
+export interface UsageLedgerDoc {
+  notes: Record<string, ProviderUsage>;
+  digests: Record<string, ProviderUsage>;
+  unattributed: ProviderUsage;
+  updatedAt: string;
+}
+
+/**
+ * A single LLM call to record
+ */
+export interface UsageRecord {
+  provider: string;
+  model: string;
+  usage: LLMUsage;
+  noteId?: string;
+  digestId?: string;
+}
+
+export class UsageLedger {
+  // Writes are chained so concurrent requests don't overwrite each other
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * Add a call's usage to the ledger document
+   */
+  record(entry: UsageRecord): Promise<void> {
+    const write = this.writeQueue.then(() => this.applyRecord(entry));
+    this.writeQueue = write.catch((error) => {
+      log.error("Failed to record usage", { error });
+    });
+    return write;
+  }
+
+  private async applyRecord(entry: UsageRecord): Promise<void> {
+    const doc = await this.getLedger();
+
+    let scope: ProviderUsage;
+    if (entry.noteId) {
+      scope = doc.notes[entry.noteId] = doc.notes[entry.noteId] || {};
+    } else if (entry.digestId) {
+      scope = doc.digests[entry.digestId] = doc.digests[entry.digestId] || {};
+    } else {
+      scope = doc.unattributed;
+    }
+
+    const models = (scope[entry.provider] = scope[entry.provider] || {});
+    const totals = (models[entry.model] = models[entry.model] || {
+      requests: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      unpriced_requests: 0,
+      last_used_at: "",
+    });
+
+    const cost = calculateCost(entry.provider, entry.model, entry.usage);
+    totals.requests += 1;
+    totals.prompt_tokens += entry.usage.prompt_tokens;
+    totals.completion_tokens += entry.usage.completion_tokens;
+    totals.total_tokens += entry.usage.total_tokens;
+    if (cost === undefined) {
+      totals.unpriced_requests += 1;
+    } else {
+      totals.cost_usd += cost;
+    }
+    totals.last_used_at = new Date().toISOString();
+    doc.updatedAt = totals.last_used_at;
+
+    await writeDoc(USAGE_DOC_PATH, doc);
+  }
+
+  /**
+   * Read the whole ledger, or an empty one if nothing has been recorded yet
+   */
+  async getLedger(): Promise<UsageLedgerDoc> {
+    const doc = await readDoc<UsageLedgerDoc>(USAGE_DOC_PATH);
+    return {
+      notes: doc?.notes || {},
+      digests: doc?.digests || {},
+      unattributed: doc?.unattributed || {},
+      updatedAt: doc?.updatedAt || new Date(0).toISOString(),
+    };
+  }
+
+  /**
+   * Sum usage across every provider and model in the given scopes
+   */
+  summarize(...scopes: ProviderUsage[]): Omit<UsageTotals, "last_used_at"> {
+    const summary = {
+      requests: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      total_tokens: 0,
+      cost_usd: 0,
+      unpriced_requests: 0,
+    };
+
+    const allModels = scopes.flatMap((usage) => Object.values(usage));
+    for (const models of allModels) {
+      for (const totals of Object.values(models)) {
+        summary.requests += totals.requests;
+        summary.prompt_tokens += totals.prompt_tokens;
+        summary.completion_tokens += totals.completion_tokens;
+        summary.total_tokens += totals.total_tokens;
+        summary.cost_usd += totals.cost_usd;
+        summary.unpriced_requests += totals.unpriced_requests;
+      }
+    }
+
+    return summary;
+  }
+}
+
+export const usageLedger = new UsageLedger();
@@ -0,0 +1,175 @@
+import { collectionName, VectorService } from "./vectorService";
+
+/**
+ * Chroma collection held in memory. Queries apply the `where` filters the
+ * service builds and rank chunks in the order they were added.
+ */
+jest.mock("chromadb", () => {
+  type Chunk = { id: string; document: string; metadata: Record<string, any> };
+  const chunks: Chunk[] = [];
+  const matches = (metadata: Record<string, any>, where?: any): boolean => {
+    if (!where) return true;
+    return Object.entries(where).every(([key, condition]: [string, any]) => {
+      if (key === "$and") {
+        return condition.every((part: any) => matches(metadata, part));
+      }
+      if (condition?.$in) return condition.$in.includes(metadata[key]);
+      if (condition?.$ne !== undefined) return metadata[key] !== condition.$ne;
+      return metadata[key] === condition;
+    });
+  };
+  const collection = {
+    get: jest.fn(async ({ where }: { where?: any } = {}) => {
+      const found = chunks.filter((chunk) => matches(chunk.metadata, where));
+      return {
+        ids: found.map((chunk) => chunk.id),
+        documents: found.map((chunk) => chunk.document),
+        metadatas: found.map((chunk) => chunk.metadata),
+      };
+    }),
+    query: jest.fn(async ({ nResults, where }: any) => {
+      const found = chunks
+        .filter((chunk) => matches(chunk.metadata, where))
+        .slice(0, nResults);
+      return {
+        documents: [found.map((chunk) => chunk.document)],
+        metadatas: [found.map((chunk) => chunk.metadata)],
+        distances: [found.map((_, index) => index / 10)],
+      };
+    }),
+  };
+  return {
+    chunks,
+    collection,
+    ChromaClient: jest.fn(() => ({
+      getOrCreateCollection: async () => collection,
+    })),
+  };
+});
+
+const chroma = jest.requireMock("chromadb") as {
+  chunks: Array<{
+    id: string;
+    document: string;
+    metadata: Record<string, any>;
+  }>;
+  collection: { query: jest.Mock };
+};
+
+describe("collectionName", () => {
+  it("keeps the original collection for the default model", () => {
+    expect(collectionName("transformers:Xenova/all-MiniLM-L6-v2")).toBe(
+      "tonkbook_sources",
+    );
+  });
+
+  it("gives every other model a collection Chroma accepts", () => {
+    const names = [
+      "openai:text-embedding-3-small",
+      "local:nomic-embed-text",
+      "local:nomic/embed:text",
+      "local:nomic-embed/text",
+      `local:${"very-long-model-name-".repeat(10)}`,
+    ].map(collectionName);
+
+    expect(new Set(names).size).toBe(names.length);
+    for (const name of names) {
+      expect(name).toMatch(/^tonkbook_sources_[a-z0-9-]+_[0-9a-f]{8}$/);
+      expect(name.length).toBeLessThanOrEqual(63);
+    }
+    expect(names[0]).toBe(collectionName("openai:text-embedding-3-small"));
+  });
+});
+
+describe("VectorService.fuse", () => {
+  const result = (chunkIndex: number, scores: Record<string, number>) => ({
+    content: `chunk ${chunkIndex}`,
+    metadata: { sourceId: "s", chunkIndex } as any,
+    score: 0,
+    scores,
+  });
+
+  it("ranks chunks found by both searches first, scaled so the top scores 1", () => {
+    const fused = new VectorService().fuse(
+      [
+        [result(0, { vector: 0.9 }), result(1, { vector: 0.8 })],
+        [result(0, { keyword: 7 }), result(2, { keyword: 5 })],
+      ],
+      3,
+    );
+    expect(fused.map((chunk) => chunk.metadata.chunkIndex)).toEqual([0, 1, 2]);
+    expect(fused[0].score).toBeCloseTo(1);
+    expect(fused[0].scores).toEqual({ vector: 0.9, keyword: 7 });
+    expect(fused[1].score).toBeCloseTo(61 / 62 / 2);
+  });
+
+  it("keeps the best topK", () => {
+    const fused = new VectorService().fuse(
+      [[result(0, {}), result(1, {}), result(2, {})]],
+      2,
+    );
+    expect(fused).toHaveLength(2);
+  });
+});
+
+describe("VectorService.search scoping", () => {
+  const chunk = (noteId: string, sourceId: string, document: string) => ({
+    id: `${sourceId}_chunk_0`,
+    document,
+    metadata: {
+      noteId,
+      sourceId,
+      chunkIndex: 0,
+      embeddingModel: "transformers:Xenova/all-MiniLM-L6-v2",
+    },
+  });
+
+  beforeAll(() => {
+    chroma.chunks.push(
+      chunk("n1", "s1", "Churn rose in Q3"),
+      chunk("n1", "s2", "Churn fell in Q2"),
+      chunk("n2", "s3", "Churn was flat for the other note"),
+    );
+  });
+
+  const search = async (
+    mode: "vector" | "keyword" | "hybrid",
+    scope: { noteId?: string; sourceIds?: string[] },
+  ) => {
+    const results = await new VectorService().search("churn", 5, {
+      ...scope,
+      mode,
+    });
+    return results.map((result) => result.metadata.sourceId).sort();
+  };
+
+  it.each(["vector", "keyword", "hybrid"] as const)(
+    "only finds the note's chunks in %s mode",
+    async (mode) => {
+      expect(await search(mode, { noteId: "n1" })).toEqual(["s1", "s2"]);
+      expect(
+        await search(mode, { noteId: "n1", sourceIds: ["s2", "s3"] }),
+      ).toEqual(["s2"]);
+      expect(await search(mode, {})).toEqual(["s1", "s2", "s3"]);
+    },
+  );
+
+  it("filters the vector query in Chroma", async () => {
+    await search("vector", { noteId: "n1" });
+    expect(chroma.collection.query).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { noteId: "n1" } }),
+    );
+    await search("vector", { noteId: "n1", sourceIds: ["s1"] });
+    expect(chroma.collection.query).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        where: { $and: [{ noteId: "n1" }, { sourceId: { $in: ["s1"] } }] },
+      }),
+    );
+  });
+
+  it("finds nothing for an empty source list", async () => {
+    chroma.collection.query.mockClear();
+    expect(await search("hybrid", { sourceIds: [] })).toEqual([]);
+    expect(chroma.collection.query).not.toHaveBeenCalled();
+  });
+});
@@ -1,11 +1,24 @@
+import { createHash } from "crypto";
 import { ChromaClient } from "chromadb";
+import { indexedChunksTotal, vectorSearchDuration } from "./metrics";
+import { DEFAULT_EMBEDDING_MODELS, embeddingService } from "./embeddingService";
+import { KeywordIndex } from "./keywordIndex";
+import {
+  chunkingService,
+  ChunkableSource,
+  ChunkingStrategy,
+  TextChunk,
+} from "./chunkers";
+import { logger } from "../utils/logger";
+
+const log = logger.child("vector");
 
 interface SourceDocument {
   id: string;
   title: string;
-  metadata: {
+  noteId?: string; // Note the source was added to, if known yet
+  metadata: ChunkableSource & {
     type: "text" | "pdf" | "web" | "csv";
-    [key: string]: any;
   };
 }
 
@@ -17,21 +30,104 @@ interface DocumentChunk {
     sourceType: SourceDocument["metadata"]["type"];
     chunkIndex: number;
     title: string;
+    embeddingModel: string; // EmbeddingService.modelId when the chunk was added
+    noteId: string; // Empty until a note references the source
+    chunker: ChunkingStrategy;
+    startOffset: number; // Where the chunk is in the source's content
+    endOffset: number;
+    page?: number; // From 1, for PDFs with known page boundaries
+    headingPath?: string; // Markdown headings the chunk is under, joined with " > "
   };
 }
 
 interface SearchResult {
   content: string;
   metadata: DocumentChunk["metadata"];
-  score: number;
+  score: number; // 0-1, higher is more relevant
+  scores: {
+    vector?: number; // Cosine similarity
+    keyword?: number; // BM25
+    retrieval?: number; // Score before reranking, if reranked
+    rerank?: number;
+  };
+}
+
+/**
+ * `vector` ranks chunks by embedding similarity, `keyword` by BM25 over
+ * their terms, and `hybrid` runs both and fuses the rankings
+ */
+export const SEARCH_MODES = ["vector", "keyword", "hybrid"] as const;
+
+export type SearchMode = (typeof SEARCH_MODES)[number];
+
+/**
+ * Reciprocal rank fusion constant. Larger values flatten the difference
+ * between the top ranks of each list.
+ */
+const RRF_K = 60;
+
+/**
+ * Candidates each search contributes to a hybrid search, per result wanted
+ */
+const HYBRID_CANDIDATES_PER_RESULT = 4;
+
+/**
+ * Collection of the default embedding model, which every model shared
+ * before collections were named after their model
+ */
+const DEFAULT_COLLECTION = "tonkbook_sources";
+
+/**
+ * Chroma collection for chunks embedded with a model. Chroma fixes a
+ * collection's vector length at the first insert, so each model gets its
+ * own and switching models doesn't break indexing or search. Names stay
+ * within the 63 characters older Chroma versions allow, and end with a hash
+ * of the model ID, since the readable part drops characters and is cut short.
+ */
+export function collectionName(modelId: string): string {
+  if (modelId === `transformers:${DEFAULT_EMBEDDING_MODELS.transformers}`) {
+    return DEFAULT_COLLECTION;
+  }
+  const readable = modelId
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "")
+    .slice(0, 36);
+  const hash = createHash("sha256").update(modelId).digest("hex").slice(0, 8);
+  return `${DEFAULT_COLLECTION}_${readable}_${hash}`;
+}
+
+/**
+ * Limits a search to one note's sources, to specific sources, or to both.
+ * An empty scope searches everything.
+ */
+export interface SearchScope {
+  noteId?: string;
+  sourceIds?: string[];
+}
+
+export interface SearchOptions extends SearchScope {
+  mode?: SearchMode; // SEARCH_MODE, or vector, if not set
+}
+
+/**
+ * Which embedding models the indexed chunks were embedded with. Chunks
+ * indexed before models were recorded count as `unknown`.
+ */
+export interface EmbeddingIndexStatus {
+  model: string;
+  dimensions?: number;
+  chunksByModel: Record<string, number>;
+  mismatchedChunks: number; // Not embedded with the configured model
 }
 
 export class VectorService {
   private client: ChromaClient;
   private collection: any;
   private initialized = false;
+  private keywordIndex = new KeywordIndex();
 
-  constructor() {
+  constructor(private defaultMode: SearchMode = "vector") {
     this.client = new ChromaClient({
       port: 8888,
     });
@@ -41,58 +137,97 @@ export class VectorService {
     if (this.initialized) return;
 
     try {
-      console.log(
-        "Vector Service: Initializing connection to Chroma at http://localhost:8888",
-      );
-      this.collection = await this.client.getOrCreateCollection({
-        name: "tonkbook_sources",
-        metadata: { description: "Tonkbook source documents for RAG" },
+      log.info("Connecting to Chroma", { url: "http://localhost:8888" });
+      const name = collectionName(embeddingService.modelId);
+      this.collection = await this.openCollection(name);
+      log.info("Initialized collection", {
+        collection: name,
+        model: embeddingService.modelId,
       });
-      console.log("Vector Service: Successfully initialized collection");
+      await this.dropMismatchedVectors(name);
+      await this.loadKeywordIndex();
       this.initialized = true;
     } catch (error) {
-      console.error("Failed to initialize vector service:", error);
+      log.error("Failed to initialize vector service", { error });
       throw error;
     }
   }
 
+  private openCollection(name: string): Promise<any> {
+    return this.client.getOrCreateCollection({
+      name,
+      metadata: { description: "Tonkbook source documents for RAG" },
+      embeddingFunction: embeddingService.asEmbeddingFunction(),
+    });
+  }
+
   /**
-   * Calculate the number of chunks a document would be split into without actually processing it
+   * Recreate the collection if it holds vectors of another length than the
+   * configured model's. Only the default collection can, if another model
+   * was used before models had collections of their own. Its sources are
+   * indexed again.
    */
-  calculateChunkCount(content: string): number {
-    const maxChunkSize = 800; // characters
-    const overlap = 150; // character overlap between chunks
-
-    let startIndex = 0;
-    let chunkCount = 0;
-
-    while (startIndex < content.length) {
-      const endIndex = Math.min(startIndex + maxChunkSize, content.length);
-      const chunkContent = content.slice(startIndex, endIndex);
-
-      // Try to break at sentence boundaries (same logic as chunkDocument)
-      let actualEndIndex = endIndex;
-      if (endIndex < content.length) {
-        const lastSentenceEnd = chunkContent.lastIndexOf(". ");
-        if (lastSentenceEnd > maxChunkSize * 0.7) {
-          actualEndIndex = startIndex + lastSentenceEnd + 1;
-        }
-      }
+  private async dropMismatchedVectors(name: string): Promise<void> {
+    try {
+      const sample = await this.collection.get({
+        where: { embeddingModel: { $ne: embeddingService.modelId } },
+        limit: 1,
+        include: ["embeddings"],
+      });
+      const stored = sample.embeddings?.[0]?.length;
+      if (!stored) return;
 
-      const finalContent = content.slice(startIndex, actualEndIndex).trim();
-      if (finalContent.length > 0) {
-        chunkCount++;
-      }
+      const [probe] = await embeddingService.embed(["dimension check"]);
+      if (probe.length === stored) return;
 
-      startIndex = Math.max(actualEndIndex - overlap, startIndex + 1);
-      if (startIndex >= actualEndIndex) break;
+      log.warn("Collection has vectors of another length, recreating it", {
+        collection: name,
+        stored,
+        model: embeddingService.modelId,
+        dimensions: probe.length,
+      });
+      await this.client.deleteCollection({ name });
+      this.collection = await this.openCollection(name);
+    } catch (error) {
+      log.warn("Failed to check the collection's vector length", { error });
+    }
+  }
+
+  /**
+   * Build the keyword index from the chunks already in Chroma. The index
+   * lives in memory, so it's rebuilt on every start.
+   */
+  private async loadKeywordIndex(): Promise<void> {
+    try {
+      const results = await this.collection.get({
+        include: ["documents", "metadatas"],
+      });
+      this.keywordIndex.clear();
+      this.keywordIndex.add(
+        (results.ids || []).map((id: string, index: number) => ({
+          id,
+          content: results.documents?.[index] || "",
+          metadata: results.metadatas?.[index] || {},
+        })),
+      );
+      log.info("Built keyword index", { chunks: this.keywordIndex.size });
+    } catch (error) {
+      log.warn("Failed to build keyword index", { error });
     }
+  }
 
-    return chunkCount;
+  /**
+   * Calculate the number of chunks a document would be split into without actually processing it
+   */
+  calculateChunkCount(content: string, source: ChunkableSource = {}): number {
+    return chunkingService.chunk(content, source).length;
   }
 
   /**
    * Get all source IDs that are currently indexed in the vector database
+   * with the configured embedding model. Sources with chunks from another
+   * model, or from before chunks recorded their offsets, are left out, so
+   * they're indexed again.
    */
   async getExistingSources(): Promise<Set<string>> {
     await this.initialize();
@@ -104,27 +239,48 @@ export class VectorService {
       });
 
       const sourceIds = new Set<string>();
+      const staleSourceIds = new Set<string>();
 
       if (results.metadatas) {
         for (const metadata of results.metadatas) {
           if (metadata && metadata.sourceId) {
             sourceIds.add(metadata.sourceId);
+            if (
+              metadata.embeddingModel !== embeddingService.modelId ||
+              !metadata.chunker
+            ) {
+              staleSourceIds.add(metadata.sourceId);
+            }
           }
         }
       }
 
-      console.log(
-        `Vector Service: Found ${sourceIds.size} existing sources in ChromaDB`,
-      );
+      for (const sourceId of staleSourceIds) {
+        sourceIds.delete(sourceId);
+      }
+      if (staleSourceIds.size > 0) {
+        log.warn(
+          "Sources were indexed with another model or without offsets, re-indexing",
+          {
+            sources: staleSourceIds.size,
+            model: embeddingService.modelId,
+          },
+        );
+      }
+
+      log.info("Found existing sources in Chroma", {
+        sources: sourceIds.size,
+      });
       return sourceIds;
     } catch (error) {
-      console.error("Failed to get existing sources from ChromaDB:", error);
+      log.error("Failed to get existing sources from Chroma", { error });
       return new Set();
     }
   }
 
   /**
-   * Add a source document to the vector database
+   * Add a source document to the vector database, split with the chunking
+   * strategy for its type. Returns the number of chunks added.
    */
   async addDocument(
     source: SourceDocument,
@@ -135,20 +291,22 @@ export class VectorService {
       processedChunks: number,
       totalChunks: number,
     ) => void,
-  ): Promise<void> {
-    console.log(`Vector Service: Adding document for source ${source.id}`);
+  ): Promise<number> {
+    log.info("Adding document", { sourceId: source.id });
     await this.initialize();
 
     // Remove existing chunks for this source first
     await this.removeDocument(source.id);
 
-    // Calculate total chunks
-    const totalChunks = this.calculateChunkCount(content);
-    console.log(
-      `Vector Service: Will create ${totalChunks} chunks for source ${source.id}`,
-    );
+    const chunks = chunkingService.chunk(content, source.metadata);
+    const totalChunks = chunks.length;
+    log.debug("Chunked document", {
+      sourceId: source.id,
+      chunker: chunkingService.strategyFor(source.metadata),
+      totalChunks,
+    });
 
-    if (totalChunks === 0) return;
+    if (totalChunks === 0) return 0;
 
     // Stream chunks and process immediately
     const batchSize = 25;
@@ -157,15 +315,18 @@ export class VectorService {
     let batchIndex = 0;
 
     for await (const chunkBatch of this.streamChunksInBatches(
-      content,
+      chunks,
       source,
       batchSize,
     )) {
       batchIndex++;
 
-      console.log(
-        `Vector Service: Adding batch ${batchIndex}/${totalBatches} (${chunkBatch.length} chunks)`,
-      );
+      log.debug("Adding batch", {
+        sourceId: source.id,
+        batch: batchIndex,
+        totalBatches,
+        chunks: chunkBatch.length,
+      });
 
       // Report progress before processing batch
       if (onBatchProgress) {
@@ -184,8 +345,9 @@ export class VectorService {
           metadatas: chunkBatch.map((chunk) => chunk.metadata),
         });
 
+        this.keywordIndex.add(chunkBatch);
         processedChunks += chunkBatch.length;
-        console.log(`Vector Service: Successfully added batch ${batchIndex}`);
+        indexedChunksTotal.inc({}, chunkBatch.length);
 
         // Report progress after processing batch
         if (onBatchProgress) {
@@ -202,17 +364,20 @@ export class VectorService {
           await new Promise((resolve) => setTimeout(resolve, 100));
         }
       } catch (error) {
-        console.error(
-          `Vector Service: Failed to add batch ${batchIndex}:`,
+        log.error("Failed to add batch", {
+          sourceId: source.id,
+          batch: batchIndex,
           error,
-        );
+        });
         throw error;
       }
     }
 
-    console.log(
-      `Vector Service: Successfully added all ${processedChunks} chunks for source ${source.id}`,
-    );
+    log.info("Added document", {
+      sourceId: source.id,
+      chunks: processedChunks,
+    });
+    return processedChunks;
   }
 
   /**
@@ -220,31 +385,183 @@ export class VectorService {
    */
   async removeDocument(sourceId: string): Promise<void> {
     await this.initialize();
+    this.keywordIndex.removeSource(sourceId);
 
     try {
       await this.collection.delete({
         where: { sourceId },
       });
-      console.log(`Vector Service: Removed source ${sourceId}`);
+      log.debug("Removed source", { sourceId });
     } catch (error) {
       // Don't throw error if document doesn't exist
-      console.log(
-        `Vector Service: Source ${sourceId} not found or already removed`,
-      );
+      log.debug("Source not found or already removed", { sourceId });
+    }
+  }
+
+  /**
+   * Point the chunks of each source at the note that references it. Chunks
+   * are only rewritten when their note changed.
+   */
+  async syncNoteIds(noteIdsBySource: Map<string, string>): Promise<number> {
+    await this.initialize();
+
+    const results = await this.collection.get({ include: ["metadatas"] });
+    const ids: string[] = [];
+    const metadatas: DocumentChunk["metadata"][] = [];
+    (results.ids || []).forEach((id: string, index: number) => {
+      const metadata = results.metadatas?.[index];
+      if (!metadata?.sourceId) return;
+      const noteId = noteIdsBySource.get(metadata.sourceId) || "";
+      if (metadata.noteId === noteId) return;
+      ids.push(id);
+      metadatas.push({ ...metadata, noteId });
+    });
+
+    if (ids.length > 0) {
+      await this.collection.update({ ids, metadatas });
+      this.keywordIndex.updateMetadata(ids, metadatas);
+      log.info("Updated chunk notes", { chunks: ids.length });
+    }
+    return ids.length;
+  }
+
+  /**
+   * Chroma filter for a search scope, or undefined to search everything
+   */
+  private buildWhere(scope: SearchScope): Record<string, any> | undefined {
+    const conditions: Record<string, any>[] = [];
+    if (scope.noteId) {
+      conditions.push({ noteId: scope.noteId });
     }
+    if (scope.sourceIds) {
+      conditions.push({ sourceId: { $in: scope.sourceIds } });
+    }
+    if (conditions.length === 0) return undefined;
+    return conditions.length === 1 ? conditions[0] : { $and: conditions };
+  }
+
+  /**
+   * Search for relevant documents within the scope, by vector similarity,
+   * keywords or both
+   */
+  async search(
+    query: string,
+    topK: number = 5,
+    options: SearchOptions = {},
+  ): Promise<SearchResult[]> {
+    // Chroma rejects an empty $in list, and nothing could match it anyway
+    if (options.sourceIds && options.sourceIds.length === 0) return [];
+
+    await this.initialize();
+
+    const mode = options.mode || this.defaultMode;
+    if (mode === "vector") return this.vectorSearch(query, topK, options);
+    if (mode === "keyword") return this.keywordSearch(query, topK, options);
+
+    const candidates = topK * HYBRID_CANDIDATES_PER_RESULT;
+    const [vectorResults, keywordResults] = await Promise.all([
+      this.vectorSearch(query, candidates, options),
+      this.keywordSearch(query, candidates, options),
+    ]);
+    return this.fuse([vectorResults, keywordResults], topK);
   }
 
   /**
-   * Search for relevant documents using vector similarity
+   * Stored embeddings of chunks, by chunk ID. Chunks that aren't indexed
+   * are left out.
    */
-  async search(query: string, topK: number = 5): Promise<SearchResult[]> {
+  async getEmbeddings(ids: string[]): Promise<Map<string, number[]>> {
+    const embeddings = new Map<string, number[]>();
+    if (ids.length === 0) return embeddings;
     await this.initialize();
 
+    const results = await this.collection.get({
+      ids,
+      include: ["embeddings"],
+    });
+    (results.ids || []).forEach((id: string, index: number) => {
+      const embedding = results.embeddings?.[index];
+      if (embedding) embeddings.set(id, Array.from(embedding as number[]));
+    });
+    return embeddings;
+  }
+
+  /**
+   * Merge rankings with reciprocal rank fusion. Each chunk scores
+   * 1 / (RRF_K + rank) in every ranking it appears in; the sum is scaled so
+   * a chunk ranked first everywhere scores 1.
+   */
+  fuse(rankings: SearchResult[][], topK: number): SearchResult[] {
+    const fused = new Map<string, SearchResult>();
+    for (const ranking of rankings) {
+      ranking.forEach((result, rank) => {
+        const id = `${result.metadata.sourceId}_chunk_${result.metadata.chunkIndex}`;
+        const existing = fused.get(id);
+        const score = (RRF_K + 1) / (RRF_K + rank + 1) / rankings.length;
+        fused.set(
+          id,
+          existing
+            ? {
+                ...existing,
+                score: existing.score + score,
+                scores: { ...existing.scores, ...result.scores },
+              }
+            : { ...result, score },
+        );
+      });
+    }
+    return Array.from(fused.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  /**
+   * BM25 search over the chunks in scope. Scores are relative to the best
+   * match.
+   */
+  private keywordSearch(
+    query: string,
+    topK: number,
+    scope: SearchScope,
+  ): SearchResult[] {
+    const matches = this.keywordIndex.search(
+      query,
+      topK,
+      ({ metadata }) =>
+        (!scope.noteId || metadata.noteId === scope.noteId) &&
+        (!scope.sourceIds || scope.sourceIds.includes(metadata.sourceId)),
+    );
+    const best = matches[0]?.score || 1;
+    return matches.map(({ chunk, score }) => ({
+      content: chunk.content,
+      metadata: chunk.metadata as DocumentChunk["metadata"],
+      score: score / best,
+      scores: { keyword: score },
+    }));
+  }
+
+  /**
+   * Embedding similarity search over the chunks in scope
+   */
+  private async vectorSearch(
+    query: string,
+    topK: number,
+    scope: SearchScope,
+  ): Promise<SearchResult[]> {
+    const observe = vectorSearchDuration.startTimer();
     const results = await this.collection.query({
       queryTexts: [query],
       nResults: topK,
+      where: this.buildWhere(scope),
       include: ["documents", "metadatas", "distances"],
     });
+    log.debug("Searched", {
+      topK,
+      noteId: scope.noteId,
+      sources: scope.sourceIds?.length,
+      results: results.documents?.[0]?.length || 0,
+      durationMs: Math.round(observe() * 1000),
+    });
 
     if (
       !results.documents?.[0] ||
@@ -254,71 +571,78 @@ export class VectorService {
       return [];
     }
 
-    return results.documents[0].map((doc: string, index: number) => ({
-      content: doc,
-      metadata: results.metadatas![0][index] as DocumentChunk["metadata"],
-      score: 1 - (results.distances![0][index] || 0), // Convert distance to similarity score
-    }));
+    return results.documents[0].map((doc: string, index: number) => {
+      const score = 1 - (results.distances![0][index] || 0); // Convert distance to similarity score
+      return {
+        content: doc,
+        metadata: results.metadatas![0][index] as DocumentChunk["metadata"],
+        score,
+        scores: { vector: score },
+      };
+    });
   }
 
   /**
    * Stream document chunks in batches
    */
   private async *streamChunksInBatches(
-    content: string,
+    chunks: TextChunk[],
     source: SourceDocument,
     batchSize: number = 25,
   ): AsyncGenerator<DocumentChunk[], void, unknown> {
-    const maxChunkSize = 800;
-    const overlap = 150;
-
-    let startIndex = 0;
-    let chunkIndex = 0;
-    let currentBatch: DocumentChunk[] = [];
-
-    while (startIndex < content.length) {
-      const endIndex = Math.min(startIndex + maxChunkSize, content.length);
-      const chunkContent = content.slice(startIndex, endIndex);
-
-      // Try to break at sentence boundaries
-      let actualEndIndex = endIndex;
-      if (endIndex < content.length) {
-        const lastSentenceEnd = chunkContent.lastIndexOf(". ");
-        if (lastSentenceEnd > maxChunkSize * 0.7) {
-          actualEndIndex = startIndex + lastSentenceEnd + 1;
-        }
-      }
-
-      const finalContent = content.slice(startIndex, actualEndIndex).trim();
-
-      if (finalContent.length > 0) {
-        currentBatch.push({
-          id: `${source.id}_chunk_${chunkIndex}`,
-          content: finalContent,
-          metadata: {
-            sourceId: source.id,
-            sourceType: source.metadata.type,
-            chunkIndex,
-            title: source.title,
-          },
+    const chunker = chunkingService.strategyFor(source.metadata);
+
+    for (let start = 0; start < chunks.length; start += batchSize) {
+      yield chunks
+        .slice(start, start + batchSize)
+        .map((chunk, offset): DocumentChunk => {
+          const chunkIndex = start + offset;
+          // Chroma metadata can't hold arrays or undefined values
+          return {
+            id: `${source.id}_chunk_${chunkIndex}`,
+            content: chunk.content,
+            metadata: {
+              sourceId: source.id,
+              sourceType: source.metadata.type,
+              chunkIndex,
+              title: source.title,
+              embeddingModel: embeddingService.modelId,
+              noteId: source.noteId || "",
+              chunker,
+              startOffset: chunk.startOffset,
+              endOffset: chunk.endOffset,
+              ...(chunk.page !== undefined && { page: chunk.page }),
+              ...(chunk.headingPath && {
+                headingPath: chunk.headingPath.join(" > "),
+              }),
+            },
+          };
         });
-        chunkIndex++;
+    }
+  }
 
-        // Yield batch when full
-        if (currentBatch.length >= batchSize) {
-          yield currentBatch;
-          currentBatch = []; // Clear for next batch
-        }
-      }
+  /**
+   * Count the indexed chunks by the model they were embedded with, to spot
+   * an index built with a different model than the configured one
+   */
+  async getEmbeddingStatus(): Promise<EmbeddingIndexStatus> {
+    await this.initialize();
 
-      startIndex = Math.max(actualEndIndex - overlap, startIndex + 1);
-      if (startIndex >= actualEndIndex) break;
+    const results = await this.collection.get({ include: ["metadatas"] });
+    const chunksByModel: Record<string, number> = {};
+    for (const metadata of results.metadatas || []) {
+      const model = metadata?.embeddingModel || "unknown";
+      chunksByModel[model] = (chunksByModel[model] || 0) + 1;
     }
 
-    // Yield remaining chunks if any
-    if (currentBatch.length > 0) {
-      yield currentBatch;
-    }
+    const model = embeddingService.modelId;
+    const total = Object.values(chunksByModel).reduce((a, b) => a + b, 0);
+    return {
+      model,
+      dimensions: embeddingService.getDimensions(),
+      chunksByModel,
+      mismatchedChunks: total - (chunksByModel[model] || 0),
+    };
   }
 
   /**
@@ -332,4 +656,8 @@ export class VectorService {
   }
 }
 
-export const vectorService = new VectorService();
+const configuredMode = process.env.SEARCH_MODE as SearchMode;
+
+export const vectorService = new VectorService(
+  SEARCH_MODES.includes(configuredMode) ? configuredMode : "vector",
+);
@@ -0,0 +1,46 @@
+import Ajv from "ajv";
+import { ASK_REQUEST_SCHEMA, SEARCH_REQUEST_SCHEMA } from "./api";
+
+// Compiled the way the router compiles route bodies
+const ajv = new Ajv({ allErrors: true, strict: false });
+const validSearch = ajv.compile(SEARCH_REQUEST_SCHEMA);
+const validAsk = ajv.compile(ASK_REQUEST_SCHEMA);
+
+describe("SEARCH_REQUEST_SCHEMA", () => {
+  it("accepts results and rerank candidates up to their limits", () => {
+    expect(validSearch({ query: "churn" })).toBe(true);
+    expect(
+      validSearch({ query: "churn", maxResults: 20, rerankCandidates: 50 }),
+    ).toBe(true);
+  });
+
+  it.each([
+    [{ maxResults: 21 }],
+    [{ rerankCandidates: 51 }],
+    [{ maxResults: 0 }],
+  ])("rejects %j", (limits) => {
+    expect(validSearch({ query: "churn", ...limits })).toBe(false);
+  });
+});
+
+describe("ASK_REQUEST_SCHEMA", () => {
+  it("accepts results and rerank candidates up to their limits", () => {
+    expect(validAsk({ question: "Why?" })).toBe(true);
+    expect(
+      validAsk({
+        question: "Why?",
+        maxTextResults: 20,
+        maxCsvResults: 20,
+        rerankCandidates: 50,
+      }),
+    ).toBe(true);
+  });
+
+  it.each([
+    [{ maxTextResults: 21 }],
+    [{ maxCsvResults: 21 }],
+    [{ rerankCandidates: 51 }],
+  ])("rejects %j", (limits) => {
+    expect(validAsk({ question: "Why?", ...limits })).toBe(false);
+  });
+});
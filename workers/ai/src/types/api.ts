@@ -0,0 +1,395 @@
+import type { LLMMessage, LLMToolDefinition } from "../services/llmProvider";
+import type { ContextChunk } from "../services/contextBudget";
+import type { LLMTarget } from "../services/resilience";
+import type { Priority } from "../services/requestScheduler";
+import type { RetrievalOptions } from "../services/ragService";
+import type { SearchMode } from "../services/vectorService";
+import type { RerankerName } from "../services/rerankService";
+import type { JsonSchema } from "../utils/router";
+
+/**
+ * Settings shared by /api/chat and /api/complete
+ */
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  max_tokens?: number;
+  stream?: boolean;
+  provider?: string;
+  tools?: boolean | Array<string | LLMToolDefinition>;
+  tool_choice?: "auto" | "none";
+  context?: ContextChunk[];
+  fallbacks?: string | Array<string | LLMTarget>;
+  noteId?: string;
+  digestId?: string;
+  cache?: boolean;
+  schema?: Record<string, any>;
+  schema_name?: string;
+  priority?: Priority;
+}
+
+export interface ChatRequestBody extends CompletionOptions {
+  messages: LLMMessage[];
+}
+
+export interface CompleteRequestBody extends CompletionOptions {
+  prompt: string;
+  system?: string;
+}
+
+/**
+ * A question about a note. The worker retrieves the context and builds the
+ * prompt, so the options don't include `context` or `noteId`.
+ */
+export interface AskRequestBody
+  extends Omit<CompletionOptions, "context" | "noteId">, RetrievalOptions {
+  question: string;
+  systemPrompt?: string;
+  allNotebooks?: boolean;
+}
+
+export interface SearchRequestBody extends Pick<
+  RetrievalOptions,
+  "history" | "rewriteQuery" | "subQueries" | "hyde" | "diversity"
+> {
+  query: string;
+  maxResults?: number;
+  noteId?: string;
+  sourceIds?: string[];
+  mode?: SearchMode;
+  rerank?: boolean | RerankerName;
+  rerankCandidates?: number;
+}
+
+export interface EmbedRequestBody {
+  input: string | string[];
+}
+
+const MESSAGE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    role: { enum: ["system", "user", "assistant", "tool"] },
+    content: { type: "string" },
+    tool_calls: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "string" },
+          name: { type: "string" },
+          arguments: { type: "object" },
+        },
+        required: ["id", "name", "arguments"],
+      },
+    },
+    tool_call_id: { type: "string" },
+  },
+  required: ["role", "content"],
+};
+
+const COMPLETION_OPTIONS_PROPERTIES: Record<string, JsonSchema> = {
+  model: { type: "string", description: "Defaults to the provider's model" },
+  temperature: { type: "number", minimum: 0, maximum: 2 },
+  max_tokens: { type: "integer", minimum: 1 },
+  stream: {
+    type: "boolean",
+    description: "Stream the response as server-sent events",
+  },
+  provider: { type: "string", description: "openai, anthropic, local or mock" },
+  tools: {
+    description:
+      "true for every built-in tool, or built-in tool names and tool definitions",
+    oneOf: [
+      { type: "boolean" },
+      {
+        type: "array",
+        items: {
+          oneOf: [
+            { type: "string" },
+            {
+              type: "object",
+              properties: {
+                name: { type: "string" },
+                description: { type: "string" },
+                parameters: { type: "object" },
+              },
+              required: ["name", "description", "parameters"],
+            },
+          ],
+        },
+      },
+    ],
+  },
+  tool_choice: { enum: ["auto", "none"] },
+  context: {
+    type: "array",
+    description: "Retrieved chunks to fit into the prompt",
+    items: {
+      type: "object",
+      properties: {
+        id: { type: "string" },
+        title: { type: "string" },
+        content: { type: "string" },
+        score: { type: "number" },
+      },
+      required: ["content"],
+    },
+  },
+  fallbacks: {
+    description: 'Providers to try if the request fails, as "provider:model"',
+    oneOf: [
+      { type: "string" },
+      {
+        type: "array",
+        items: {
+          oneOf: [
+            { type: "string" },
+            {
+              type: "object",
+              properties: {
+                provider: { type: "string" },
+                model: { type: "string" },
+              },
+              required: ["provider"],
+            },
+          ],
+        },
+      },
+    ],
+  },
+  noteId: { type: "string", description: "Note to attribute usage to" },
+  digestId: { type: "string", description: "Digest run to attribute usage to" },
+  cache: {
+    type: "boolean",
+    description: "Set to false to bypass the response cache",
+  },
+  schema: {
+    type: "object",
+    description: "JSON Schema the response must match",
+  },
+  schema_name: { type: "string", pattern: "^[a-zA-Z0-9_-]{1,64}$" },
+  priority: {
+    enum: ["interactive", "background"],
+    description:
+      "Queue lane; interactive requests go ahead of background work such as digests",
+  },
+};
+
+/**
+ * Limits on how much one search can fetch. Each planned query fetches up to
+ * three candidates per result, or the rerank candidates, and the LLM
+ * reranker reads every candidate, so these bound a request's work.
+ */
+const MAX_SEARCH_RESULTS = 20;
+const MAX_RERANK_CANDIDATES = 50;
+
+/**
+ * Reranking options shared by /api/search and the ask route
+ */
+const RERANK_PROPERTIES: Record<string, JsonSchema> = {
+  rerank: {
+    description:
+      'Reorder the text results: "cross-encoder", "llm", true for RERANKER, or false. RERANKER by default',
+    oneOf: [{ type: "boolean" }, { enum: ["cross-encoder", "llm"] }],
+  },
+  rerankCandidates: {
+    type: "integer",
+    minimum: 1,
+    maximum: MAX_RERANK_CANDIDATES,
+    description: "Results fetched for the reranker (RERANK_CANDIDATES, 20)",
+  },
+};
+
+const QUERY_PLANNING_PROPERTIES: Record<string, JsonSchema> = {
+  history: {
+    type: "array",
+    description:
+      "Earlier turns of the conversation, oldest first, used to rewrite follow-up questions",
+    items: {
+      type: "object",
+      properties: {
+        role: { enum: ["user", "assistant"] },
+        content: { type: "string" },
+      },
+      required: ["role", "content"],
+    },
+    maxItems: 50,
+  },
+  rewriteQuery: {
+    type: "boolean",
+    default: true,
+    description: "Rewrite the question into a standalone query using history",
+  },
+  subQueries: {
+    type: "integer",
+    minimum: 0,
+    maximum: 5,
+    default: 0,
+    description: "Extra queries to generate and search alongside the question",
+  },
+  hyde: {
+    type: "boolean",
+    default: false,
+    description: "Also search by embedding a generated hypothetical answer",
+  },
+};
+
+const DIVERSITY_SCHEMA: JsonSchema = {
+  type: "number",
+  minimum: 0,
+  maximum: 1,
+  description:
+    "How much chunk selection favours variety over relevance, from 0 to 1; SEARCH_DIVERSITY (0.3) by default",
+};
+
+export const CHAT_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    messages: { type: "array", items: MESSAGE_SCHEMA, minItems: 1 },
+    ...COMPLETION_OPTIONS_PROPERTIES,
+  },
+  required: ["messages"],
+};
+
+export const COMPLETE_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    prompt: { type: "string", minLength: 1 },
+    system: { type: "string" },
+    ...COMPLETION_OPTIONS_PROPERTIES,
+  },
+  required: ["prompt"],
+};
+
+export const ASK_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    question: { type: "string", minLength: 1 },
+    systemPrompt: {
+      type: "string",
+      description: "Replaces the default system prompt",
+    },
+    maxTextResults: {
+      type: "integer",
+      minimum: 0,
+      maximum: MAX_SEARCH_RESULTS,
+      default: 5,
+    },
+    maxCsvResults: {
+      type: "integer",
+      minimum: 0,
+      maximum: MAX_SEARCH_RESULTS,
+      default: 3,
+    },
+    includeText: { type: "boolean", default: true },
+    includeCsv: { type: "boolean", default: true },
+    searchMode: {
+      enum: ["vector", "keyword", "hybrid"],
+      description: "How text sources are searched; SEARCH_MODE by default",
+    },
+    diversity: DIVERSITY_SCHEMA,
+    ...RERANK_PROPERTIES,
+    ...QUERY_PLANNING_PROPERTIES,
+    allNotebooks: {
+      type: "boolean",
+      default: false,
+      description: "Search the sources of every note, not just this one",
+    },
+    ...Object.fromEntries(
+      Object.entries(COMPLETION_OPTIONS_PROPERTIES).filter(
+        ([name]) => name !== "context" && name !== "noteId",
+      ),
+    ),
+  },
+  required: ["question"],
+};
+
+export const EMBED_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    input: {
+      description: "A text, or up to 256 texts",
+      oneOf: [
+        { type: "string" },
+        {
+          type: "array",
+          items: { type: "string" },
+          minItems: 1,
+          maxItems: 256,
+        },
+      ],
+    },
+  },
+  required: ["input"],
+};
+
+export const SEARCH_REQUEST_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    query: { type: "string", minLength: 1 },
+    maxResults: {
+      type: "integer",
+      minimum: 1,
+      maximum: MAX_SEARCH_RESULTS,
+      default: 5,
+    },
+    noteId: {
+      type: "string",
+      description: "Only search the sources added to this note",
+    },
+    sourceIds: {
+      type: "array",
+      items: { type: "string" },
+      description: "Only search these sources, by the sourceId of their chunks",
+    },
+    mode: {
+      enum: ["vector", "keyword", "hybrid"],
+      description:
+        "vector (embeddings), keyword (BM25) or hybrid (both, fused by rank); SEARCH_MODE by default",
+    },
+    diversity: DIVERSITY_SCHEMA,
+    ...RERANK_PROPERTIES,
+    ...QUERY_PLANNING_PROPERTIES,
+  },
+  required: ["query"],
+};
+
+const USAGE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    prompt_tokens: { type: "integer" },
+    completion_tokens: { type: "integer" },
+    total_tokens: { type: "integer" },
+  },
+};
+
+export const COMPLETION_RESPONSE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    content: { type: "string" },
+    data: { description: "Parsed output, for requests with a schema" },
+    model: { type: "string" },
+    provider: { type: "string" },
+    usage: USAGE_SCHEMA,
+    tool_calls: { type: "array", items: { type: "object" } },
+    tool_invocations: { type: "array", items: { type: "object" } },
+    cached: { type: "boolean" },
+    context_budget: { type: "object" },
+    sources: {
+      type: "object",
+      description:
+        "Retrieved passages and CSV rows, for questions about a note",
+    },
+  },
+  required: ["content", "model", "provider"],
+};
+
+/**
+ * Streamed responses; see the Streaming Responses section of the README for
+ * the events
+ */
+export const EVENT_STREAM_SCHEMA: JsonSchema = {
+  type: "string",
+  description:
+    "Server-sent events: queued, token, sources, usage, then a final done or error",
+};
@@ -2,8 +2,9 @@ export interface Source {
   id: string;
   title: string;
   path: string;
+  noteId: string;
   metadata: {
-    type: "text" | "pdf" | "csv" | "web";
+    type: "text" | "pdf" | "csv" | "web" | "ai";
     createdAt: string;
   };
 }
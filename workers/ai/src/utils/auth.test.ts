@@ -0,0 +1,131 @@
+import * as http from "http";
+import type { BaseCredentialsManager } from "./baseCredentialsManager";
+import {
+  clientKey,
+  isAuthorized,
+  loadApiTokens,
+  parseAllowedOrigins,
+  setCorsHeaders,
+} from "./auth";
+
+const request = (
+  headers: http.IncomingHttpHeaders,
+  remoteAddress = "10.0.0.5",
+) => ({ headers, socket: { remoteAddress } }) as http.IncomingMessage;
+
+const tokens = ["first-token", "second-token"];
+
+describe("isAuthorized", () => {
+  it("accepts any configured bearer token", () => {
+    expect(
+      isAuthorized(request({ authorization: "Bearer second-token" }), tokens),
+    ).toBe(true);
+  });
+
+  it("rejects missing and unknown tokens", () => {
+    expect(isAuthorized(request({}), tokens)).toBe(false);
+    expect(
+      isAuthorized(request({ authorization: "Bearer other" }), tokens),
+    ).toBe(false);
+    expect(
+      isAuthorized(request({ authorization: "Basic first-token" }), tokens),
+    ).toBe(false);
+  });
+});
+
+describe("clientKey", () => {
+  it("tells clients apart by token and address", () => {
+    expect(
+      clientKey(request({ authorization: "Bearer second-token" }), tokens),
+    ).toBe("token 2@10.0.0.5");
+    expect(
+      clientKey(
+        request({ authorization: "Bearer first-token" }, "10.0.0.6"),
+        tokens,
+      ),
+    ).toBe("token 1@10.0.0.6");
+    expect(clientKey(request({}), tokens)).toBe("10.0.0.5");
+  });
+
+  it("ignores headers the client can change", () => {
+    const headers = { authorization: "Bearer first-token" };
+    expect(clientKey(request({ ...headers, "x-client-id": "a" }), tokens)).toBe(
+      clientKey(request({ ...headers, "x-client-id": "b" }), tokens),
+    );
+  });
+});
+
+describe("parseAllowedOrigins", () => {
+  it("trims origins and trailing slashes", () => {
+    expect(parseAllowedOrigins("http://a.test/, https://b.test ,")).toEqual([
+      "http://a.test",
+      "https://b.test",
+    ]);
+  });
+
+  it("defaults to the TonkBook dev server", () => {
+    expect(parseAllowedOrigins()).toContain("http://localhost:3000");
+  });
+});
+
+describe("setCorsHeaders", () => {
+  const corsHeaders = (origin: string | undefined, allowed: string[]) => {
+    const headers: Record<string, string> = {};
+    const res = {
+      setHeader: (name: string, value: string) => {
+        headers[name] = value;
+      },
+    } as unknown as http.ServerResponse;
+    setCorsHeaders(request(origin ? { origin } : {}), res, allowed);
+    return headers;
+  };
+
+  it("lets allowlisted origins read responses", () => {
+    const headers = corsHeaders("http://localhost:3000", [
+      "http://localhost:3000",
+    ]);
+    expect(headers["Access-Control-Allow-Origin"]).toBe(
+      "http://localhost:3000",
+    );
+    expect(headers["Access-Control-Allow-Headers"]).toContain("Authorization");
+    expect(headers.Vary).toBe("Origin");
+  });
+
+  it("sends no CORS headers to other origins", () => {
+    expect(corsHeaders("https://evil.test", ["http://localhost:3000"])).toEqual(
+      { Vary: "Origin" },
+    );
+    expect(corsHeaders(undefined, ["*"])).toEqual({ Vary: "Origin" });
+  });
+
+  it("echoes any origin with a wildcard allowlist", () => {
+    expect(
+      corsHeaders("https://notes.test", ["*"])["Access-Control-Allow-Origin"],
+    ).toBe("https://notes.test");
+  });
+});
+
+describe("loadApiTokens", () => {
+  const credentials = (stored?: string) => {
+    const saved: string[] = [];
+    const manager = {
+      getCredentialByName: () => stored,
+      setCredentialByName: (_name: string, value: string) => saved.push(value),
+    } as unknown as BaseCredentialsManager;
+    return { manager, saved };
+  };
+
+  it("reads one token per line", () => {
+    const { manager, saved } = credentials(" first-token \n\nsecond-token\n");
+    expect(loadApiTokens(manager, "Worker API Tokens")).toEqual(tokens);
+    expect(saved).toEqual([]);
+  });
+
+  it("generates and saves a token when none is set up", () => {
+    const { manager, saved } = credentials();
+    const generated = loadApiTokens(manager, "Worker API Tokens");
+    expect(generated).toHaveLength(1);
+    expect(generated[0]).toMatch(/^[0-9a-f]{64}$/);
+    expect(saved).toEqual(generated);
+  });
+});
@@ -14,6 +14,7 @@ export interface CredentialConfig {
   sampleContent?: string;
   header?: string; // For API keys that go in headers
   urlParam?: string; // For API keys that go in URL parameters
+  optional?: boolean; // Can be skipped during setup; doesn't block `complete`
 }
 
 /**
@@ -36,6 +37,7 @@ export class BaseCredentialsManager {
 
   /**
    * Check if all required credential files exist
+   * Optional credentials are reported as missing but don't affect `complete`
    * @returns Object with status and missing credentials
    */
   public checkCredentials(): { 
@@ -55,7 +57,7 @@ export class BaseCredentialsManager {
     }
 
     return {
-      complete: missing.length === 0,
+      complete: missingConfigs.every((config) => config.optional),
       missing,
       missingConfigs
     };
@@ -66,10 +68,10 @@ export class BaseCredentialsManager {
    * @returns Promise that resolves when setup is complete
    */
   public async setupCredentials(): Promise<void> {
-    const { complete, missingConfigs } = this.checkCredentials();
+    const { missingConfigs } = this.checkCredentials();
 
-    if (complete) {
-      console.log("✅ All required credentials are already set up.");
+    if (missingConfigs.length === 0) {
+      console.log("✅ All credentials are already set up.");
       return;
     }
 
@@ -98,9 +100,15 @@ export class BaseCredentialsManager {
       let content = "";
 
       while (!validContent) {
-        content = await question(`\nPaste your ${config.name}: `);
+        content = await question(
+          `\nPaste your ${config.name}${config.optional ? " (leave empty to skip)" : ""}: `,
+        );
         
         if (!content.trim()) {
+          if (config.optional) {
+            console.log(`Skipped ${config.name}`);
+            break;
+          }
           console.log("Please enter a valid credential.");
           continue;
         }
@@ -160,6 +168,22 @@ export class BaseCredentialsManager {
     return fs.readFileSync(filePath, 'utf-8').trim();
   }
 
+  /**
+   * Save credential content by name, replacing any existing value
+   * @param name Name of the credential
+   * @param content The credential content
+   */
+  public setCredentialByName(name: string, content: string): void {
+    const config = this.configs.find(c => c.name === name);
+    if (!config) {
+      throw new Error(`Unknown credential: ${name}`);
+    }
+
+    const filePath = this.getCredentialPath(config.filename);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content.trim(), { mode: 0o600 });
+  }
+
   /**
    * Initialize the credentials manager - ensure creds directory exists
    */
@@ -1,6 +1,9 @@
 import { spawn, ChildProcess } from "child_process";
 import { writeFileSync, mkdirSync } from "fs";
 import { join } from "path";
+import { logger } from "./logger";
+
+const log = logger.child("chroma");
 
 export class ChromaServerManager {
   private chromaProcess: ChildProcess | null = null;
@@ -33,20 +36,20 @@ allow_reset: true
 
   async start(): Promise<void> {
     if (this.chromaProcess || this.isStarting) {
-      console.log("Chroma server is already running or starting");
+      log.debug("Chroma server is already running or starting");
       return;
     }
 
     // Check if server is already running
     if (await this.checkHealth()) {
-      console.log("✅ Chroma server is already running");
+      log.info("Chroma server is already running");
       return;
     }
 
     this.isStarting = true;
 
     return new Promise((resolve, reject) => {
-      console.log(`Starting Chroma server on port ${this.port}...`);
+      log.info("Starting Chroma server", { port: this.port });
 
       // Create config file with CORS enabled
       const configPath = this.createChromaConfig();
@@ -89,7 +92,7 @@ allow_reset: true
           if (startupCheckInterval) {
             clearInterval(startupCheckInterval);
           }
-          console.log("✅ Chroma server started successfully");
+          log.info("Chroma server started");
           resolve();
         }
       };
@@ -100,13 +103,13 @@ allow_reset: true
       // Handle stdout - just for logging
       this.chromaProcess.stdout?.on("data", (data) => {
         const output = data.toString();
-        console.log(`Chroma: ${output.trim()}`);
+        log.info(output.trim());
       });
 
       // Handle stderr
       this.chromaProcess.stderr?.on("data", (data) => {
         const error = data.toString();
-        console.error(`Chroma error: ${error.trim()}`);
+        log.warn(error.trim());
 
         // If Docker is not available, try alternative methods
         if (
@@ -116,9 +119,7 @@ allow_reset: true
           if (startupCheckInterval) {
             clearInterval(startupCheckInterval);
           }
-          console.log(
-            "Docker not available, attempting to start Chroma directly...",
-          );
+          log.info("Docker not available, starting Chroma directly");
           this.startWithPython().then(resolve).catch(reject);
         }
       });
@@ -132,12 +133,10 @@ allow_reset: true
         }
 
         if (code !== 0 && !hasStarted) {
-          console.log("Docker method failed, trying Python installation...");
+          log.info("Docker method failed, trying Python installation");
           this.startWithPython().then(resolve).catch(reject);
         } else {
-          console.log(
-            `Chroma server exited with code ${code}, signal ${signal}`,
-          );
+          log.info("Chroma server exited", { code, signal });
         }
       });
 
@@ -147,7 +146,7 @@ allow_reset: true
         if (startupCheckInterval) {
           clearInterval(startupCheckInterval);
         }
-        console.error("Failed to start Chroma with Docker:", error.message);
+        log.error("Failed to start Chroma with Docker", { error });
         this.startWithPython().then(resolve).catch(reject);
       });
 
@@ -166,7 +165,7 @@ allow_reset: true
 
   private async startWithPython(): Promise<void> {
     return new Promise((resolve, reject) => {
-      console.log("Attempting to start Chroma with Python...");
+      log.info("Starting Chroma with Python");
 
       // Try to start Chroma via pip installed version
       this.chromaProcess = spawn(
@@ -189,7 +188,7 @@ allow_reset: true
           if (startupCheckInterval) {
             clearInterval(startupCheckInterval);
           }
-          console.log("✅ Chroma server started successfully with Python");
+          log.info("Chroma server started with Python");
           resolve();
         }
       };
@@ -200,12 +199,12 @@ allow_reset: true
       // Handle stdout - just for logging
       this.chromaProcess.stdout?.on("data", (data) => {
         const output = data.toString();
-        console.log(`Chroma: ${output.trim()}`);
+        log.info(output.trim());
       });
 
       this.chromaProcess.stderr?.on("data", (data) => {
         const error = data.toString();
-        console.error(`Chroma error: ${error.trim()}`);
+        log.warn(error.trim());
       });
 
       this.chromaProcess.on("exit", (code) => {
@@ -248,11 +247,11 @@ allow_reset: true
         return;
       }
 
-      console.log("Stopping Chroma server...");
+      log.info("Stopping Chroma server");
 
       // Handle process exit
       this.chromaProcess.on("exit", () => {
-        console.log("Chroma server stopped");
+        log.info("Chroma server stopped");
         this.chromaProcess = null;
         resolve();
       });
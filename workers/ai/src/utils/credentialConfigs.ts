@@ -0,0 +1,101 @@
+import { CredentialConfig } from "./baseCredentialsManager";
+
+/**
+ * Credential names, used to look up stored values at startup
+ */
+export const CREDENTIAL_NAMES = {
+  openai: "OpenAI API Key",
+  anthropic: "Anthropic API Key",
+  localBaseUrl: "Local LLM Base URL",
+  localApiKey: "Local LLM API Key",
+  workerApiTokens: "Worker API Tokens",
+  webScraperToken: "Web Scraper API Token",
+} as const;
+
+/**
+ * Credentials for every LLM provider the worker can register, and the tokens
+ * that protect the worker's API. Each provider is optional; any that are
+ * configured get registered.
+ */
+export const credentialConfigs: CredentialConfig[] = [
+  {
+    name: CREDENTIAL_NAMES.openai,
+    filename: "creds/openai_api_key.txt",
+    description: "OpenAI API key for accessing GPT models",
+    instructions: "Get your API key from https://platform.openai.com/api-keys",
+    validationFn: (content) => {
+      const trimmed = content.trim();
+      return {
+        valid: trimmed.startsWith("sk-") && trimmed.length > 20,
+        message: "Must be a valid OpenAI API key starting with 'sk-'",
+      };
+    },
+    header: "Authorization",
+    optional: true,
+  },
+  {
+    name: CREDENTIAL_NAMES.anthropic,
+    filename: "creds/anthropic_api_key.txt",
+    description: "Anthropic API key for accessing Claude models",
+    instructions:
+      "Get your API key from https://console.anthropic.com/settings/keys",
+    validationFn: (content) => {
+      const trimmed = content.trim();
+      return {
+        valid: trimmed.startsWith("sk-ant-") && trimmed.length > 20,
+        message: "Must be a valid Anthropic API key starting with 'sk-ant-'",
+      };
+    },
+    header: "x-api-key",
+    optional: true,
+  },
+  {
+    name: CREDENTIAL_NAMES.localBaseUrl,
+    filename: "creds/local_llm_base_url.txt",
+    description:
+      "Base URL of an OpenAI-compatible server (llama.cpp, Ollama, vLLM) for running models locally",
+    instructions:
+      "Start your local server and paste its OpenAI-compatible base URL, e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp",
+    validationFn: (content) => {
+      try {
+        const url = new URL(content.trim());
+        return {
+          valid: url.protocol === "http:" || url.protocol === "https:",
+          message: "Must be an http(s) URL",
+        };
+      } catch {
+        return { valid: false, message: "Must be a valid URL" };
+      }
+    },
+    optional: true,
+  },
+  {
+    name: CREDENTIAL_NAMES.localApiKey,
+    filename: "creds/local_llm_api_key.txt",
+    description:
+      "API key for the local OpenAI-compatible server, if it needs one",
+    instructions:
+      "Only needed if your server was started with an API key (e.g. vLLM --api-key)",
+    header: "Authorization",
+    optional: true,
+  },
+  {
+    name: CREDENTIAL_NAMES.workerApiTokens,
+    filename: "creds/worker_api_tokens.txt",
+    description:
+      "Bearer tokens clients must send to use the worker's API, one per line",
+    instructions:
+      "Paste a long random string, e.g. from `openssl rand -hex 32`. Leave empty to have one generated when the worker starts.",
+    optional: true,
+  },
+  {
+    name: CREDENTIAL_NAMES.webScraperToken,
+    filename: "creds/web_scraper_api_token.txt",
+    description:
+      "API token of the web-scraper worker, used by the fetch_web_page tool",
+    instructions:
+      "Copy a token from the web-scraper worker's creds/worker_api_tokens.txt",
+    header: "Authorization",
+    optional: true,
+  },
+];
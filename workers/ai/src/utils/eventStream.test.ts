@@ -0,0 +1,104 @@
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { EventStream, StreamEvent } from "./eventStream";
+
+/**
+ * Serve one stream of the given events and return what a client receives
+ */
+const serve = async (events: StreamEvent[]) => {
+  const server = http.createServer((_req, res) => {
+    const stream = new EventStream(res);
+    for (const event of events.slice(0, -1)) stream.send(event);
+    stream.close(
+      events[events.length - 1] as Parameters<EventStream["close"]>[0],
+    );
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  try {
+    const { port } = server.address() as AddressInfo;
+    const response = await fetch(`http://127.0.0.1:${port}/`);
+    return {
+      contentType: response.headers.get("content-type"),
+      body: await response.text(),
+    };
+  } finally {
+    await new Promise((resolve) => server.close(resolve));
+  }
+};
+
+/**
+ * Response double that records what is written to it
+ */
+const recorder = () => {
+  const written: string[] = [];
+  const res = {
+    destroyed: false,
+    writeHead: jest.fn(),
+    write: (chunk: string) => written.push(chunk),
+    end: jest.fn(),
+  };
+  return {
+    res,
+    written,
+    stream: new EventStream(res as unknown as http.ServerResponse),
+  };
+};
+
+describe("EventStream", () => {
+  it("writes each event as a server-sent event with a JSON payload", async () => {
+    const { contentType, body } = await serve([
+      { type: "token", text: "Churn " },
+      { type: "token", text: "rose." },
+      {
+        type: "usage",
+        usage: { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 },
+        model: "gpt-4o",
+        provider: "openai",
+      },
+      { type: "done" },
+    ]);
+
+    expect(contentType).toBe("text/event-stream");
+    expect(body).toBe(
+      [
+        'event: token\ndata: {"text":"Churn "}\n\n',
+        'event: token\ndata: {"text":"rose."}\n\n',
+        'event: usage\ndata: {"usage":{"prompt_tokens":10,"completion_tokens":2,"total_tokens":12},"model":"gpt-4o","provider":"openai"}\n\n',
+        "event: done\ndata: {}\n\n",
+      ].join(""),
+    );
+  });
+
+  it("keeps newlines in text inside the data line", async () => {
+    const { body } = await serve([
+      { type: "token", text: "line one\n\nline two" },
+      { type: "error", error: "Provider failed" },
+    ]);
+    expect(body).toBe(
+      'event: token\ndata: {"text":"line one\\n\\nline two"}\n\n' +
+        'event: error\ndata: {"error":"Provider failed"}\n\n',
+    );
+  });
+
+  it("sends nothing after the final event", () => {
+    const { res, written, stream } = recorder();
+    stream.close({ type: "error", error: "Provider failed" });
+    stream.send({ type: "token", text: "late" });
+
+    expect(written).toEqual([
+      'event: error\ndata: {"error":"Provider failed"}\n\n',
+    ]);
+    expect(res.end).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops writing once the client has disconnected", () => {
+    const { res, written, stream } = recorder();
+    stream.send({ type: "token", text: "Churn" });
+    res.destroyed = true;
+    stream.send({ type: "token", text: " rose." });
+    stream.close({ type: "done" });
+
+    expect(written).toEqual(['event: token\ndata: {"text":"Churn"}\n\n']);
+    expect(res.end).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,66 @@
+import * as http from "http";
+import type { LLMToolCall, LLMUsage } from "../services/llmProvider";
+import type { LLMToolInvocation } from "../services/toolRegistry";
+import type { ContextBudgetReport } from "../services/contextBudget";
+import type { RAGResult } from "../services/ragService";
+
+/**
+ * Events sent on a streaming response. Every stream ends with exactly one
+ * `done` or `error` event.
+ */
+export type StreamEvent =
+  | { type: "queued"; position: number } // Sent while waiting for a slot
+  | { type: "token"; text: string }
+  | {
+      type: "sources";
+      ragResult?: RAGResult; // Retrieved by the worker, for questions about a note
+      tool_invocations?: LLMToolInvocation[];
+      context_budget?: ContextBudgetReport;
+    }
+  | {
+      type: "usage";
+      usage: LLMUsage;
+      model: string;
+      provider: string;
+      cost_usd?: number;
+    }
+  | { type: "error"; error: string }
+  | {
+      type: "done";
+      tool_calls?: LLMToolCall[];
+      cached?: boolean;
+      data?: unknown; // Parsed output, for requests with a response schema
+      content?: string; // Repaired output, if the streamed text didn't match the schema
+    };
+
+/**
+ * Server-sent events writer. Each event is written as
+ * `event: <type>` followed by `data: <json payload>`.
+ */
+export class EventStream {
+  private closed = false;
+
+  constructor(private res: http.ServerResponse) {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+  }
+
+  send(event: StreamEvent): void {
+    // The client may have disconnected mid-stream
+    if (this.closed || this.res.destroyed) return;
+    const { type, ...payload } = event;
+    this.res.write(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`);
+  }
+
+  /**
+   * Send a final event and close the response
+   */
+  close(event: Extract<StreamEvent, { type: "done" | "error" }>): void {
+    this.send(event);
+    this.closed = true;
+    if (!this.res.destroyed) this.res.end();
+  }
+}
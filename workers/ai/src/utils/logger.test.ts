@@ -0,0 +1,128 @@
+import * as http from "http";
+import { getRequestId, Logger, requestIdFor, withRequestId } from "./logger";
+
+/**
+ * Capture the lines written to stdout and stderr
+ */
+const captureOutput = () => {
+  const lines = { stdout: [] as string[], stderr: [] as string[] };
+  for (const name of ["stdout", "stderr"] as const) {
+    jest.spyOn(process[name], "write").mockImplementation((chunk) => {
+      lines[name].push(String(chunk));
+      return true;
+    });
+  }
+  return lines;
+};
+
+const parse = (lines: string[]) => lines.map((line) => JSON.parse(line));
+
+describe("Logger", () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.LOG_LEVEL;
+    delete process.env.LOG_FORMAT;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it("writes one JSON object per line, naming the component", () => {
+    const output = captureOutput();
+    new Logger("ai-worker").child("rag").info("Retrieved sources", {
+      count: 3,
+      skipped: undefined,
+    });
+
+    expect(output.stdout).toHaveLength(1);
+    expect(output.stdout[0].endsWith("\n")).toBe(true);
+    expect(parse(output.stdout)).toEqual([
+      {
+        time: expect.any(String),
+        level: "info",
+        service: "ai-worker",
+        component: "rag",
+        msg: "Retrieved sources",
+        count: 3,
+      },
+    ]);
+  });
+
+  it("writes warnings and errors to stderr, with the error's stack", () => {
+    const output = captureOutput();
+    new Logger("ai-worker").error("Provider failed", {
+      error: new Error("HTTP 500"),
+    });
+
+    expect(output.stdout).toEqual([]);
+    expect(parse(output.stderr)[0].error).toEqual({
+      name: "Error",
+      message: "HTTP 500",
+      stack: expect.stringContaining("HTTP 500"),
+    });
+  });
+
+  it("leaves out entries below LOG_LEVEL", () => {
+    const output = captureOutput();
+    const log = new Logger("ai-worker");
+    log.debug("Hidden by default");
+    process.env.LOG_LEVEL = "warn";
+    log.info("Hidden at warn");
+    log.warn("Shown");
+
+    expect(output.stdout).toEqual([]);
+    expect(parse(output.stderr).map((entry) => entry.msg)).toEqual(["Shown"]);
+  });
+
+  it("tags entries with the request ID across awaits", async () => {
+    const output = captureOutput();
+    const log = new Logger("ai-worker");
+
+    await withRequestId("req-1", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      expect(getRequestId()).toBe("req-1");
+      log.info("Inside");
+    });
+    log.info("Outside");
+
+    expect(parse(output.stdout).map((entry) => entry.requestId)).toEqual([
+      "req-1",
+      undefined,
+    ]);
+  });
+
+  it("writes readable lines with LOG_FORMAT=pretty", () => {
+    const output = captureOutput();
+    process.env.LOG_FORMAT = "pretty";
+    withRequestId("req-1", () =>
+      new Logger("ai-worker").child("llm").info("Stream finished", {
+        provider: "openai",
+      }),
+    );
+
+    expect(output.stdout[0]).toMatch(
+      /^\d\d:\d\d:\d\d\.\d{3} INFO  \[llm\] Stream finished provider=openai \(req-1\)\n$/,
+    );
+  });
+});
+
+describe("requestIdFor", () => {
+  const request = (id?: string) =>
+    ({
+      headers: id === undefined ? {} : { "x-request-id": id },
+    }) as http.IncomingMessage;
+
+  it("keeps the ID the client sent", () => {
+    expect(requestIdFor(request("web-7f3a.1:2"))).toBe("web-7f3a.1:2");
+  });
+
+  it("makes a new ID when the client's is missing or unsafe", () => {
+    const uuid = /^[0-9a-f-]{36}$/;
+    expect(requestIdFor(request())).toMatch(uuid);
+    expect(requestIdFor(request("bad\nline"))).toMatch(uuid);
+    expect(requestIdFor(request("x".repeat(129)))).toMatch(uuid);
+  });
+});
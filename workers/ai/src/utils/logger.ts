@@ -0,0 +1,154 @@
+import * as http from "http";
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Extra fields of a log entry. Errors are logged with their message and
+ * stack.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Header that carries the correlation ID between the frontend and workers
+ */
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Fields every entry has, before the caller's own
+ */
+const ENTRY_FIELDS = [
+  "time",
+  "level",
+  "service",
+  "component",
+  "requestId",
+  "msg",
+];
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+
+/**
+ * Run `fn` with a correlation ID. Everything it logs, including from
+ * callbacks and awaited calls, carries the ID.
+ */
+export function withRequestId<T>(requestId: string, fn: () => T): T {
+  return requestContext.run({ requestId }, fn);
+}
+
+/**
+ * Correlation ID of the request being handled, if any
+ */
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+/**
+ * The correlation ID a client sent, or a new one. IDs from clients are
+ * only accepted if they're short and can't break a log line.
+ */
+export function requestIdFor(req: http.IncomingMessage): string {
+  const sent = req.headers[REQUEST_ID_HEADER.toLowerCase()];
+  if (typeof sent === "string" && /^[\w.:-]{1,128}$/.test(sent)) {
+    return sent;
+  }
+  return randomUUID();
+}
+
+function serialize(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+/**
+ * Structured logger. Entries are written as one JSON object per line, or
+ * as readable text when LOG_FORMAT=pretty. LOG_LEVEL sets the lowest level
+ * written (default info).
+ */
+export class Logger {
+  constructor(
+    private service: string,
+    private component?: string,
+  ) {}
+
+  /**
+   * Logger for one part of the service, named in every entry
+   */
+  child(component: string): Logger {
+    return new Logger(this.service, component);
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    const minimum = LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+    if (LEVELS[level] < minimum) return;
+
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      service: this.service,
+      component: this.component,
+      requestId: getRequestId(),
+      msg: message,
+    };
+    for (const [key, value] of Object.entries(fields)) {
+      if (value !== undefined) entry[key] = serialize(value);
+    }
+
+    const line =
+      process.env.LOG_FORMAT === "pretty"
+        ? this.formatPretty(level, message, entry)
+        : JSON.stringify(entry);
+    if (level === "error" || level === "warn") {
+      process.stderr.write(line + "\n");
+    } else {
+      process.stdout.write(line + "\n");
+    }
+  }
+
+  private formatPretty(
+    level: LogLevel,
+    message: string,
+    entry: LogFields,
+  ): string {
+    const details = Object.entries(entry)
+      .filter(([key]) => !ENTRY_FIELDS.includes(key))
+      .map(([key, value]) => {
+        if (value && typeof value === "object" && "stack" in value) {
+          return `\n${(value as { stack?: string }).stack}`;
+        }
+        return ` ${key}=${typeof value === "string" ? value : JSON.stringify(value)}`;
+      });
+    const time = (entry.time as string).slice(11, 23);
+    const component = entry.component ? `[${entry.component}] ` : "";
+    const requestId = entry.requestId ? ` (${entry.requestId})` : "";
+    return `${time} ${level.toUpperCase().padEnd(5)} ${component}${message}${details.join("")}${requestId}`;
+  }
+}
+
+export const logger = new Logger("ai-worker");
@@ -0,0 +1,52 @@
+import * as http from "http";
+import { matchPath, Router } from "./router";
+
+const segments = "/api/notes/:noteId/ask".split("/");
+
+describe("matchPath", () => {
+  it("returns the decoded values of parameters", () => {
+    expect(matchPath(segments, "/api/notes/my%20note/ask")).toEqual({
+      noteId: "my note",
+    });
+  });
+
+  it("doesn't match other paths or empty parameters", () => {
+    expect(matchPath(segments, "/api/notes/n1/search")).toBeUndefined();
+    expect(matchPath(segments, "/api/notes/n1")).toBeUndefined();
+    expect(matchPath(segments, "/api/notes//ask")).toBeUndefined();
+  });
+
+  it("doesn't match parameters with broken percent-encoding", () => {
+    expect(matchPath(segments, "/api/notes/%E0%A4%A/ask")).toBeUndefined();
+  });
+});
+
+describe("Router", () => {
+  const router = new Router().add({
+    method: "POST",
+    path: "/api/notes/:noteId/ask",
+    summary: "Ask",
+    handler: async ({ params }) => params,
+  });
+
+  it("reports the route a path matches", () => {
+    const req = { url: "/api/notes/n1/ask" } as http.IncomingMessage;
+    expect(router.routePath(req)).toBe("/api/notes/:noteId/ask");
+  });
+
+  it("reports no route for URLs it can't parse", () => {
+    const req = { url: "http://[::1" } as http.IncomingMessage;
+    expect(router.routePath(req)).toBeUndefined();
+  });
+
+  it("leaves paths with broken percent-encoding unhandled", async () => {
+    const req = {
+      url: "/api/notes/%E0%A4%A/ask",
+      method: "POST",
+    } as http.IncomingMessage;
+    expect(router.routePath(req)).toBeUndefined();
+    await expect(router.handle(req, {} as http.ServerResponse)).resolves.toBe(
+      false,
+    );
+  });
+});
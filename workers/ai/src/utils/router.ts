@@ -0,0 +1,375 @@
+import * as http from "http";
+import Ajv, { ValidateFunction } from "ajv";
+import { logger } from "./logger";
+
+export type JsonSchema = Record<string, any>;
+
+/**
+ * An error with the HTTP status and code to report it with
+ */
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public details?: unknown,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Body of every error response
+ */
+export interface ErrorEnvelope {
+  error: {
+    code: string;
+    message: string;
+    details?: unknown;
+  };
+}
+
+export const ERROR_ENVELOPE_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    error: {
+      type: "object",
+      properties: {
+        code: { type: "string" },
+        message: { type: "string" },
+        details: {},
+      },
+      required: ["code", "message"],
+    },
+  },
+  required: ["error"],
+};
+
+/**
+ * What a route handler gets for a request. `body` has been validated
+ * against the route's body schema.
+ */
+export interface RouteContext<TBody = any> {
+  req: http.IncomingMessage;
+  res: http.ServerResponse;
+  body: TBody;
+  params: Record<string, string>; // Values of `:name` path segments
+  query: URLSearchParams;
+}
+
+export interface RouteResponse {
+  description: string;
+  content?: Record<string, JsonSchema>; // Schema by content type
+}
+
+/**
+ * A route in the route table. A handler's return value is sent as JSON with
+ * status 200; handlers that write the response themselves, such as streams,
+ * return nothing.
+ */
+export interface Route<TBody = any> {
+  method: "GET" | "POST";
+  path: string; // e.g. `/api/notes/:noteId/ask`
+  summary: string;
+  tags?: string[];
+  public?: boolean; // Served without authorization
+  body?: JsonSchema;
+  query?: Record<string, { description: string; schema: JsonSchema }>;
+  responses?: Record<number, RouteResponse>;
+  handler: (context: RouteContext<TBody>) => Promise<unknown>;
+}
+
+export interface RouterOptions {
+  authorize?: (req: http.IncomingMessage) => boolean; // Checked for every non-public route
+}
+
+interface CompiledRoute {
+  route: Route;
+  segments: string[];
+  validateBody?: ValidateFunction;
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+
+export function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export function sendError(res: http.ServerResponse, error: HttpError): void {
+  const envelope: ErrorEnvelope = {
+    error: { code: error.code, message: error.message, details: error.details },
+  };
+  sendJson(res, error.status, envelope);
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", (chunk) => {
+      body += chunk.toString();
+    });
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch {
+        reject(new HttpError(400, "invalid_json", "Invalid JSON"));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * Values of a route's `:name` segments if the path matches it. A path whose
+ * parameters aren't valid percent-encoding matches no route.
+ */
+export function matchPath(
+  segments: string[],
+  pathname: string,
+): Record<string, string> | undefined {
+  const parts = pathname.split("/");
+  if (parts.length !== segments.length) return undefined;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < segments.length; i++) {
+    if (segments[i].startsWith(":")) {
+      if (!parts[i]) return undefined;
+      try {
+        params[segments[i].slice(1)] = decodeURIComponent(parts[i]);
+      } catch {
+        return undefined;
+      }
+    } else if (segments[i] !== parts[i]) {
+      return undefined;
+    }
+  }
+  return params;
+}
+
+/**
+ * Declarative router. Routes are matched on method and path, request bodies
+ * are validated against their JSON Schema, and failures are reported as an
+ * ErrorEnvelope. The route table doubles as the source of the OpenAPI
+ * document.
+ */
+export class Router {
+  private routes: CompiledRoute[] = [];
+
+  constructor(private options: RouterOptions = {}) {}
+
+  add<TBody>(route: Route<TBody>): this {
+    this.routes.push({
+      route,
+      segments: route.path.split("/"),
+      validateBody: route.body ? ajv.compile(route.body) : undefined,
+    });
+    return this;
+  }
+
+  /**
+   * Path of the route the request's path matches, such as
+   * `/api/notes/:noteId/ask`, or undefined if there is none or the URL
+   * can't be parsed. Never throws, so it's safe to call before handling.
+   */
+  routePath(req: http.IncomingMessage): string | undefined {
+    try {
+      const url = new URL(req.url || "/", "http://localhost");
+      return this.routes.find((compiled) =>
+        matchPath(compiled.segments, url.pathname),
+      )?.route.path;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Handle a request. Returns false if no route has the request's path.
+   */
+  async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<boolean> {
+    const url = new URL(req.url || "/", "http://localhost");
+    const matches = this.routes
+      .map((compiled) => ({
+        compiled,
+        params: matchPath(compiled.segments, url.pathname),
+      }))
+      .filter((match) => match.params);
+    if (matches.length === 0) return false;
+
+    const match = matches.find(
+      ({ compiled }) => compiled.route.method === req.method,
+    );
+    if (!match) {
+      sendError(
+        res,
+        new HttpError(
+          405,
+          "method_not_allowed",
+          `${req.method} is not allowed on ${url.pathname}`,
+        ),
+      );
+      return true;
+    }
+
+    const { route, validateBody } = match.compiled;
+    try {
+      if (
+        !route.public &&
+        this.options.authorize &&
+        !this.options.authorize(req)
+      ) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        throw new HttpError(
+          401,
+          "unauthorized",
+          "Missing or invalid API token",
+        );
+      }
+      const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+      if (validateBody && !validateBody(body)) {
+        throw new HttpError(
+          400,
+          "invalid_request",
+          "Request body doesn't match the schema",
+          (validateBody.errors || []).map((error) => ({
+            path: error.instancePath || "/",
+            message: error.message,
+          })),
+        );
+      }
+
+      const result = await route.handler({
+        req,
+        res,
+        body,
+        params: match.params!,
+        query: url.searchParams,
+      });
+      if (result !== undefined && !res.headersSent) {
+        sendJson(res, 200, result);
+      }
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        logger.error("Request failed", {
+          method: route.method,
+          route: route.path,
+          error,
+        });
+      }
+      if (res.headersSent) {
+        if (!res.writableEnded) res.end();
+        return true;
+      }
+      sendError(
+        res,
+        error instanceof HttpError
+          ? error
+          : new HttpError(
+              500,
+              "internal_error",
+              error instanceof Error ? error.message : "Internal server error",
+            ),
+      );
+    }
+    return true;
+  }
+
+  /**
+   * OpenAPI 3.1 document describing every route
+   */
+  getOpenAPIDocument(info: { title: string; version: string }): object {
+    const paths: Record<string, Record<string, object>> = {};
+
+    for (const { route } of this.routes) {
+      const openAPIPath = route.path.replace(/:(\w+)/g, "{$1}");
+      const pathParams = [...route.path.matchAll(/:(\w+)/g)].map((match) => ({
+        name: match[1],
+        in: "path",
+        required: true,
+        schema: { type: "string" },
+      }));
+      const queryParams = Object.entries(route.query || {}).map(
+        ([name, param]) => ({
+          name,
+          in: "query",
+          description: param.description,
+          schema: param.schema,
+        }),
+      );
+
+      const responses: Record<string, object> = {};
+      for (const [status, response] of Object.entries(
+        route.responses || { 200: { description: "Success" } },
+      )) {
+        responses[status] = {
+          description: response.description,
+          content: response.content
+            ? Object.fromEntries(
+                Object.entries(response.content).map(([type, schema]) => [
+                  type,
+                  { schema },
+                ]),
+              )
+            : undefined,
+        };
+      }
+      if (route.body) {
+        responses[400] = {
+          description: "Invalid request",
+          content: {
+            "application/json": {
+              schema: { $ref: "#/components/schemas/Error" },
+            },
+          },
+        };
+      }
+      responses.default = {
+        description: "Error",
+        content: {
+          "application/json": {
+            schema: { $ref: "#/components/schemas/Error" },
+          },
+        },
+      };
+
+      paths[openAPIPath] = paths[openAPIPath] || {};
+      paths[openAPIPath][route.method.toLowerCase()] = {
+        summary: route.summary,
+        tags: route.tags,
+        parameters:
+          pathParams.length + queryParams.length > 0
+            ? [...pathParams, ...queryParams]
+            : undefined,
+        security: route.public && this.options.authorize ? [] : undefined,
+        requestBody: route.body
+          ? {
+              required: true,
+              content: { "application/json": { schema: route.body } },
+            }
+          : undefined,
+        responses,
+      };
+    }
+
+    return {
+      openapi: "3.1.0",
+      info,
+      paths,
+      security: this.options.authorize ? [{ bearerAuth: [] }] : undefined,
+      components: {
+        schemas: { Error: ERROR_ENVELOPE_SCHEMA },
+        securitySchemes: this.options.authorize
+          ? { bearerAuth: { type: "http", scheme: "bearer" } }
+          : undefined,
+      },
+    };
+  }
+}
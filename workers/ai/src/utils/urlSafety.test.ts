@@ -0,0 +1,81 @@
+import { assertPublicUrl, extractUrls, isPublicAddress } from "./urlSafety";
+
+describe("extractUrls", () => {
+  it("finds http(s) URLs without trailing punctuation", () => {
+    expect(
+      extractUrls(
+        "Compare https://example.com/a?b=1, and (http://Example.org/x). ftp://no",
+      ),
+    ).toEqual(["https://example.com/a?b=1", "http://example.org/x"]);
+  });
+
+  it("returns each URL once", () => {
+    expect(extractUrls("https://a.dev https://a.dev")).toEqual([
+      "https://a.dev/",
+    ]);
+  });
+});
+
+describe("isPublicAddress", () => {
+  it.each([
+    "127.0.0.1",
+    "10.1.2.3",
+    "172.20.0.1",
+    "192.168.1.1",
+    "169.254.169.254",
+    "100.64.0.1",
+    "0.0.0.0",
+    "224.0.0.1",
+    "::",
+    "::1",
+    "fc00::1",
+    "fd12:3456::1",
+    "fe80::1",
+    "ff02::1",
+    "::ffff:127.0.0.1",
+    "::ffff:7f00:1",
+    "::ffff:a9fe:a9fe",
+    "64:ff9b::a00:1",
+    "not an address",
+  ])("rejects %s", (address) => {
+    expect(isPublicAddress(address)).toBe(false);
+  });
+
+  it.each([
+    "93.184.216.34",
+    "8.8.8.8",
+    "172.32.0.1",
+    "2606:4700::1111",
+    "::ffff:8.8.8.8",
+  ])("accepts %s", (address) => {
+    expect(isPublicAddress(address)).toBe(true);
+  });
+});
+
+describe("assertPublicUrl", () => {
+  it("rejects local and private hosts", async () => {
+    for (const url of [
+      "http://localhost:8888/api",
+      "http://127.0.0.1:5556/health",
+      "http://169.254.169.254/latest/meta-data",
+      "http://[::1]/",
+      "http://[::ffff:127.0.0.1]/",
+    ]) {
+      await expect(assertPublicUrl(new URL(url))).rejects.toThrow(
+        "can't be fetched",
+      );
+    }
+  });
+
+  it("rejects other protocols", async () => {
+    await expect(
+      assertPublicUrl(new URL("file:///etc/passwd")),
+    ).rejects.toThrow("Only http(s)");
+  });
+
+  it("accepts public addresses", async () => {
+    await expect(
+      assertPublicUrl(new URL("https://93.184.216.34/")),
+    ).resolves.toBeUndefined();
+  });
+});
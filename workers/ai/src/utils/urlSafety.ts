@@ -0,0 +1,111 @@
+import { promises as dns } from "dns";
+import * as net from "net";
+
+/**
+ * http(s) URLs in free text, such as a chat message. Trailing punctuation
+ * is left out and each URL is normalized, so they compare with `URL.href`.
+ */
+export function extractUrls(text: string): string[] {
+  const urls = new Set<string>();
+  for (const [match] of text.matchAll(/\bhttps?:\/\/[^\s<>"'`]+/gi)) {
+    try {
+      urls.add(new URL(match.replace(/[.,;:!?)\]}]+$/, "")).href);
+    } catch {
+      // Not a URL after all
+    }
+  }
+  return [...urls];
+}
+
+function isPublicIPv4(address: string): boolean {
+  const [a, b, c] = address.split(".").map(Number);
+  return !(
+    a === 0 || // "This" network
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b < 128) || // Carrier-grade NAT
+    (a === 169 && b === 254) || // Link-local, including cloud metadata
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 0 && c === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // Benchmarking
+    a >= 224 // Multicast and reserved
+  );
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address
+ */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase();
+  // A trailing dotted quad stands for the last two groups
+  const quad = text.match(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (quad) {
+    const [a, b, c, d] = quad.slice(1).map(Number);
+    text = `${text.slice(0, quad.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = text.split("::");
+  const parse = (part?: string) =>
+    part ? part.split(":").map((group) => parseInt(group, 16)) : [];
+  const start = parse(head);
+  const end = parse(tail);
+  if (tail === undefined) return start;
+  return [...start, ...Array(8 - start.length - end.length).fill(0), ...end];
+}
+
+/**
+ * Whether an IP address is on the public internet, rather than loopback,
+ * private, link-local, multicast or otherwise reserved. IPv4 addresses
+ * embedded in IPv6 are judged as IPv4.
+ */
+export function isPublicAddress(address: string): boolean {
+  const version = net.isIP(address);
+  if (version === 4) return isPublicIPv4(address);
+  if (version !== 6) return false;
+
+  const groups = ipv6Groups(address);
+  const embeddedIPv4 = () =>
+    [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join(
+      ".",
+    );
+  if (groups.slice(0, 7).every((group) => group === 0)) {
+    return false; // Unspecified and loopback
+  }
+  if (groups.slice(0, 5).every((group) => group === 0)) {
+    // IPv4-mapped, or the deprecated IPv4-compatible form
+    return (
+      (groups[5] === 0xffff || groups[5] === 0) && isPublicIPv4(embeddedIPv4())
+    );
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) {
+    return isPublicIPv4(embeddedIPv4()); // NAT64
+  }
+  return !(
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local
+    (groups[0] & 0xffc0) === 0xfec0 || // Site-local
+    groups[0] >= 0xff00 // Multicast
+  );
+}
+
+/**
+ * Throw unless the URL is http(s) and every address its host resolves to
+ * is public, so requests made for the model can't reach the worker's own
+ * network, such as Chroma, the other workers or a cloud metadata service
+ */
+export async function assertPublicUrl(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http(s) URLs can be fetched");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true })).map(({ address }) => address);
+  if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+    throw new Error(
+      `${url.hostname} is a local or private address and can't be fetched`,
+    );
+  }
+}
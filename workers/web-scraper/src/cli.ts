@@ -5,6 +5,8 @@
  */
 import { Command } from "commander";
 import { startWorker } from "./index";
+import { BaseCredentialsManager } from "./utils/baseCredentialsManager";
+import { credentialConfigs } from "./utils/credentialConfigs";
 
 const program = new Command();
 
@@ -31,4 +33,22 @@ program
     }
   });
 
+program
+  .command("setup")
+  .description("Set up the API tokens clients use")
+  .action(async () => {
+    try {
+      const credentialsManager = new BaseCredentialsManager(
+        credentialConfigs,
+        process.cwd(),
+      );
+
+      await credentialsManager.init();
+      await credentialsManager.setupCredentials();
+    } catch (error) {
+      console.error("Setup failed:", error);
+      process.exit(1);
+    }
+  });
+
 program.parse(process.argv);
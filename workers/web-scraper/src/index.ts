@@ -3,8 +3,24 @@ import { NetworkAdapterInterface } from "@automerge/automerge-repo";
 import { BrowserWebSocketClientAdapter } from "@automerge/automerge-repo-network-websocket";
 import { NodeFSStorageAdapter } from "@automerge/automerge-repo-storage-nodefs";
 import * as http from "http";
+import * as path from "path";
+import { AsyncResource } from "async_hooks";
 import dotenv from "dotenv";
 import { WebScraper } from "./utils/webScraper";
+import { BaseCredentialsManager } from "./utils/baseCredentialsManager";
+import { credentialConfigs, CREDENTIAL_NAMES } from "./utils/credentialConfigs";
+import {
+  isAuthorized,
+  loadApiTokens,
+  parseAllowedOrigins,
+  setCorsHeaders,
+} from "./utils/auth";
+import {
+  logger,
+  requestIdFor,
+  withRequestId,
+  REQUEST_ID_HEADER,
+} from "./utils/logger";
 import {
   KeepsyncStorage,
   ScrapeRequest,
@@ -16,19 +32,18 @@ dotenv.config();
 
 // Set up global error handlers
 process.on("uncaughtException", (err) => {
-  console.error(`Uncaught exception: ${err.message}`);
-  console.error(err.stack);
+  logger.error("Uncaught exception", { error: err });
 });
 
-process.on("unhandledRejection", (reason, promise) => {
-  console.error("Unhandled Rejection at:", promise);
-  console.error("Reason:", reason);
+process.on("unhandledRejection", (reason) => {
+  logger.error("Unhandled rejection", { error: reason });
 });
 
 // Log startup information
-console.log(`Starting web-scraper worker at ${new Date().toISOString()}`);
-console.log(`Node.js version: ${process.version}`);
-console.log(`Platform: ${process.platform}`);
+logger.info("Starting web-scraper worker", {
+  node: process.version,
+  platform: process.platform,
+});
 
 /**
  * Configuration for the worker
@@ -58,17 +73,43 @@ export async function startWorker(config: WorkerConfig): Promise<http.Server> {
   const webScraper = new WebScraper();
   const keepsyncStorage = new KeepsyncStorage();
 
-  // Helper function to handle CORS
-  const setCorsHeaders = (res: http.ServerResponse) => {
-    res.setHeader("Access-Control-Allow-Origin", "*");
-    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.setHeader("Access-Control-Allow-Headers", "Content-Type");
-  };
-
-  // Create HTTP server
+  // Load the API tokens and the origins allowed to call the worker
+  const credentialsManager = new BaseCredentialsManager(
+    credentialConfigs,
+    path.resolve(__dirname, ".."),
+  );
+  await credentialsManager.init();
+  const apiTokens = loadApiTokens(
+    credentialsManager,
+    CREDENTIAL_NAMES.workerApiTokens,
+  );
+  const allowedOrigins = parseAllowedOrigins(process.env.CORS_ALLOWED_ORIGINS);
+
+  // Create HTTP server. Everything logged while handling a request is
+  // tagged with its ID, which callers such as the AI worker pass on.
   const server = http.createServer((req, res) => {
-    // Set CORS headers for all responses
-    setCorsHeaders(res);
+    const requestId = requestIdFor(req);
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    withRequestId(requestId, () => handleRequest(req, res));
+  });
+
+  const handleRequest = (
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ) => {
+    const startedAt = Date.now();
+    res.on("close", () => {
+      if (req.method === "OPTIONS") return;
+      logger.info("Request completed", {
+        method: req.method,
+        path: req.url,
+        status: res.statusCode,
+        durationMs: Date.now() - startedAt,
+      });
+    });
+
+    // Set CORS headers for allowed origins
+    setCorsHeaders(req, res, allowedOrigins);
 
     // Handle preflight OPTIONS requests
     if (req.method === "OPTIONS") {
@@ -84,6 +125,21 @@ export async function startWorker(config: WorkerConfig): Promise<http.Server> {
       return;
     }
 
+    // Everything but the health check needs an API token
+    if (!isAuthorized(req, apiTokens)) {
+      res.writeHead(401, {
+        "Content-Type": "application/json",
+        "WWW-Authenticate": "Bearer",
+      });
+      res.end(
+        JSON.stringify({
+          success: false,
+          error: "Missing or invalid API token",
+        }),
+      );
+      return;
+    }
+
     // Get scraped content endpoint
     if (req.method === "GET" && req.url?.startsWith("/content/")) {
       const handleGetContent = async () => {
@@ -102,7 +158,7 @@ export async function startWorker(config: WorkerConfig): Promise<http.Server> {
           res.writeHead(200, { "Content-Type": "application/json" });
           res.end(JSON.stringify({ success: true, content }));
         } catch (error) {
-          console.error("Error retrieving content:", error);
+          logger.error("Error retrieving content", { error });
           res.writeHead(500, { "Content-Type": "application/json" });
           res.end(
             JSON.stringify({
@@ -125,96 +181,112 @@ export async function startWorker(config: WorkerConfig): Promise<http.Server> {
         body += chunk.toString();
       });
 
-      req.on("end", async () => {
-        try {
-          const scrapeRequest: ScrapeRequest = JSON.parse(body);
-
-          // Validate request
-          if (!scrapeRequest.url) {
-            res.writeHead(400, { "Content-Type": "application/json" });
-            res.end(
-              JSON.stringify({
-                success: false,
-                error: "URL is required",
-              }),
+      // Request events don't carry the request ID's context, so bind it
+      req.on(
+        "end",
+        AsyncResource.bind(async () => {
+          try {
+            const scrapeRequest: ScrapeRequest = JSON.parse(body);
+
+            // Validate request
+            if (!scrapeRequest.url) {
+              res.writeHead(400, { "Content-Type": "application/json" });
+              res.end(
+                JSON.stringify({
+                  success: false,
+                  error: "URL is required",
+                }),
+              );
+              return;
+            }
+
+            logger.info("Scraping", { url: scrapeRequest.url });
+
+            // Generate output path if not provided
+            const store = scrapeRequest.store !== false;
+            const outputPath = store
+              ? scrapeRequest.outputPath ||
+                keepsyncStorage.generatePathFromUrl(scrapeRequest.url)
+              : undefined;
+
+            if (outputPath) {
+              logger.debug("Will store content", { path: outputPath });
+            }
+
+            // Scrape the content
+            const scrapedContent = await webScraper.scrape(
+              scrapeRequest.url,
+              scrapeRequest.options || {},
             );
-            return;
-          }
-
-          console.log(`Scraping ${scrapeRequest.url}...`);
 
-          // Generate output path if not provided
-          const outputPath =
-            scrapeRequest.outputPath ||
-            keepsyncStorage.generatePathFromUrl(scrapeRequest.url);
-
-          console.log(`Will store content at: ${outputPath}`);
-
-          // Scrape the content
-          const scrapedContent = await webScraper.scrape(
-            scrapeRequest.url,
-            scrapeRequest.options || {},
-          );
-
-          // Store in keepsync
-          await keepsyncStorage.storeScrapedContent(scrapedContent, outputPath);
-
-          const result: ScrapeResult = {
-            success: true,
-            url: scrapeRequest.url,
-            outputPath,
-            timestamp: new Date().toISOString(),
-            content: scrapedContent,
-          };
-
-          console.log(`Successfully scraped and stored ${scrapeRequest.url}`);
-
-          res.writeHead(200, { "Content-Type": "application/json" });
-          res.end(JSON.stringify(result));
-        } catch (error) {
-          console.error("Error processing scrape request:", error);
-
-          const errorMessage =
-            error instanceof Error ? error.message : String(error);
-          const result: ScrapeResult = {
-            success: false,
-            url: body ? JSON.parse(body).url || "unknown" : "unknown",
-            outputPath: body
-              ? JSON.parse(body).outputPath || "unknown"
-              : "unknown",
-            timestamp: new Date().toISOString(),
-            error: errorMessage,
-          };
-
-          res.writeHead(500, { "Content-Type": "application/json" });
-          res.end(JSON.stringify(result));
-        }
-      });
+            // Store in keepsync
+            if (outputPath) {
+              await keepsyncStorage.storeScrapedContent(
+                scrapedContent,
+                outputPath,
+              );
+            }
+
+            const result: ScrapeResult = {
+              success: true,
+              url: scrapeRequest.url,
+              outputPath,
+              timestamp: new Date().toISOString(),
+              content: scrapedContent,
+            };
+
+            logger.info(outputPath ? "Scraped and stored" : "Scraped", {
+              url: scrapeRequest.url,
+              path: outputPath,
+            });
+
+            res.writeHead(200, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(result));
+          } catch (error) {
+            logger.error("Error processing scrape request", { error });
+
+            const errorMessage =
+              error instanceof Error ? error.message : String(error);
+            const result: ScrapeResult = {
+              success: false,
+              url: body ? JSON.parse(body).url || "unknown" : "unknown",
+              outputPath: body
+                ? JSON.parse(body).outputPath || "unknown"
+                : "unknown",
+              timestamp: new Date().toISOString(),
+              error: errorMessage,
+            };
+
+            res.writeHead(500, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(result));
+          }
+        }),
+      );
     } else {
       // Handle other routes
       res.writeHead(404, { "Content-Type": "application/json" });
       res.end(JSON.stringify({ success: false, error: "Not found" }));
     }
-  });
+  };
 
   // Start the server
   return new Promise((resolve) => {
     server.listen(port, async () => {
-      console.log(
-        `web-scraper worker listening on http://localhost:${port}/tonk`,
-      );
+      logger.info("web-scraper worker listening", {
+        url: `http://localhost:${port}/tonk`,
+      });
 
       // Initialize the sync engine
       try {
         await engine.whenReady();
-        console.log("Keepsync engine is ready");
+        logger.info("Keepsync engine is ready");
       } catch (error) {
-        console.error("Error initializing sync engine:", error);
+        logger.error("Error initializing sync engine", { error });
       }
 
       // Handle graceful shutdown
       const cleanup = () => {
-        console.log("Shutting down...");
+        logger.info("Shutting down");
         process.exit(0);
       };
 
@@ -232,6 +304,6 @@ if (require.main === module) {
     ? parseInt(process.env.WORKER_PORT, 10)
     : 5555;
   startWorker({ port })
-    .then(() => console.log(`Worker started on port ${port}`))
-    .catch((err) => console.error("Failed to start worker:", err));
+    .then(() => logger.info("Worker started", { port }))
+    .catch((error) => logger.error("Failed to start worker", { error }));
 }
@@ -0,0 +1,91 @@
+import * as http from "http";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { BaseCredentialsManager } from "./baseCredentialsManager";
+import { logger } from "./logger";
+
+/**
+ * Origins allowed to call the worker from a browser when
+ * CORS_ALLOWED_ORIGINS isn't set: the TonkBook dev server
+ */
+export const DEFAULT_ALLOWED_ORIGINS = [
+  "http://localhost:3000",
+  "http://127.0.0.1:3000",
+];
+
+/**
+ * Parse a comma-separated origin allowlist. `*` allows every origin.
+ */
+export function parseAllowedOrigins(spec?: string): string[] {
+  if (!spec) return DEFAULT_ALLOWED_ORIGINS;
+  return spec
+    .split(",")
+    .map((origin) => origin.trim().replace(/\/$/, ""))
+    .filter((origin) => origin.length > 0);
+}
+
+/**
+ * Load the API tokens clients must send, one per line of the credential.
+ * If none are set up, a token is generated and saved so the worker is never
+ * left open.
+ */
+export function loadApiTokens(
+  credentialsManager: BaseCredentialsManager,
+  credentialName: string,
+): string[] {
+  const stored = credentialsManager.getCredentialByName(credentialName) || "";
+  const tokens = stored
+    .split("\n")
+    .map((token) => token.trim())
+    .filter((token) => token.length > 0);
+  if (tokens.length > 0) return tokens;
+
+  const token = randomBytes(32).toString("hex");
+  credentialsManager.setCredentialByName(credentialName, token);
+  logger.info("Generated an API token for this worker", {
+    credential: credentialName,
+  });
+  return [token];
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+/**
+ * Whether the request carries one of the tokens as a bearer token. Tokens
+ * are compared in constant time.
+ */
+export function isAuthorized(
+  req: http.IncomingMessage,
+  tokens: string[],
+): boolean {
+  const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+  if (!match) return false;
+  const presented = digest(match[1].trim());
+  return tokens.some((token) => timingSafeEqual(presented, digest(token)));
+}
+
+/**
+ * Set CORS headers. Only allowlisted origins are echoed back, so browsers
+ * block pages from other origins from reading responses.
+ */
+export function setCorsHeaders(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  allowedOrigins: string[],
+): void {
+  const origin = req.headers.origin;
+  res.setHeader("Vary", "Origin");
+  if (
+    origin &&
+    (allowedOrigins.includes("*") || allowedOrigins.includes(origin))
+  ) {
+    res.setHeader("Access-Control-Allow-Origin", origin);
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    res.setHeader(
+      "Access-Control-Allow-Headers",
+      "Content-Type, Authorization, X-Request-Id, X-Client-Id",
+    );
+    res.setHeader("Access-Control-Expose-Headers", "X-Request-Id");
+  }
+}
@@ -171,4 +171,46 @@ export class BaseCredentialsManager {
   public getCredentialPath(filename: string): string {
     return path.join(this.projectRoot, filename);
   }
+
+  /**
+   * Get credential content by name
+   * @param name Name of the credential
+   * @returns The credential content as string
+   */
+  public getCredentialByName(name: string): string | null {
+    const config = this.configs.find(c => c.name === name);
+    if (!config) return null;
+    
+    const filePath = this.getCredentialPath(config.filename);
+    if (!fs.existsSync(filePath)) return null;
+    
+    return fs.readFileSync(filePath, 'utf-8').trim();
+  }
+
+  /**
+   * Save credential content by name, replacing any existing value
+   * @param name Name of the credential
+   * @param content The credential content
+   */
+  public setCredentialByName(name: string, content: string): void {
+    const config = this.configs.find(c => c.name === name);
+    if (!config) {
+      throw new Error(`Unknown credential: ${name}`);
+    }
+
+    const filePath = this.getCredentialPath(config.filename);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content.trim(), { mode: 0o600 });
+  }
+
+  /**
+   * Initialize the credentials manager - ensure creds directory exists
+   */
+  public async init(): Promise<void> {
+    // Create creds directory if it doesn't exist
+    const credsDir = path.join(this.projectRoot, 'creds');
+    if (!fs.existsSync(credsDir)) {
+      fs.mkdirSync(credsDir, { recursive: true });
+    }
+  }
 }
@@ -0,0 +1,22 @@
+import { CredentialConfig } from "./baseCredentialsManager";
+
+/**
+ * Credential names, used to look up stored values at startup
+ */
+export const CREDENTIAL_NAMES = {
+  workerApiTokens: "Worker API Tokens",
+} as const;
+
+/**
+ * Tokens that protect the worker's API
+ */
+export const credentialConfigs: CredentialConfig[] = [
+  {
+    name: CREDENTIAL_NAMES.workerApiTokens,
+    filename: "creds/worker_api_tokens.txt",
+    description:
+      "Bearer tokens clients must send to use the worker's API, one per line",
+    instructions:
+      "Paste a long random string, e.g. from `openssl rand -hex 32`. Skip to have one generated when the worker starts.",
+  },
+];
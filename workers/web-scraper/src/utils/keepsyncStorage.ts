@@ -1,9 +1,13 @@
 import { readDoc, writeDoc } from "@tonk/keepsync";
 import { ScrapedContent } from "./webScraper";
+import { logger } from "./logger";
+
+const log = logger.child("storage");
 
 export interface ScrapeRequest {
   url: string;
   outputPath: string;
+  store?: boolean; // false to return the content without storing it
   options?: {
     useJavaScript?: boolean;
     timeout?: number;
@@ -17,7 +21,7 @@ export interface ScrapeRequest {
 export interface ScrapeResult {
   success: boolean;
   url: string;
-  outputPath: string;
+  outputPath?: string; // Not set when the content wasn't stored
   timestamp: string;
   error?: string;
   content?: ScrapedContent;
@@ -38,7 +42,7 @@ export class KeepsyncStorage {
         existingDoc = (await readDoc(normalizedPath)) || {};
       } catch (error) {
         // Document doesn't exist yet, that's fine
-        console.log(`Creating new document at ${normalizedPath}`);
+        log.debug("Creating new document", { path: normalizedPath });
       }
 
       // Create the document structure
@@ -56,7 +60,7 @@ export class KeepsyncStorage {
 
       // Write to keepsync
       await writeDoc(normalizedPath, document);
-      console.log(`Scraped content stored at ${normalizedPath}`);
+      log.info("Stored scraped content", { path: normalizedPath });
     } catch (error) {
       throw new Error(
         `Failed to store content in keepsync: ${error instanceof Error ? error.message : String(error)}`,
@@ -82,7 +86,7 @@ export class KeepsyncStorage {
         metadata: doc.metadata,
       };
     } catch (error) {
-      console.error(`Failed to read content from ${path}:`, error);
+      log.error("Failed to read content", { path, error });
       return null;
     }
   }
@@ -93,7 +97,7 @@ export class KeepsyncStorage {
       // For now, return empty array as keepsync might not have built-in directory listing
       return [];
     } catch (error) {
-      console.error(`Failed to list content at ${basePath}:`, error);
+      log.error("Failed to list content", { path: basePath, error });
       return [];
     }
   }
@@ -105,7 +109,7 @@ export class KeepsyncStorage {
       await writeDoc(normalizedPath, null);
       return true;
     } catch (error) {
-      console.error(`Failed to delete content at ${path}:`, error);
+      log.error("Failed to delete content", { path, error });
       return false;
     }
   }
@@ -151,4 +155,3 @@ export class KeepsyncStorage {
     }
   }
 }
-
@@ -29,6 +29,20 @@ export interface ScrapeOptions {
   followRedirects?: boolean;
 }
 
+/**
+ * Inline styles that keep an element's text from being seen. Text a reader
+ * can't see has no place in a source, and can carry instructions aimed at
+ * the model.
+ */
+const HIDDEN_STYLE =
+  /display\s*:\s*none|visibility\s*:\s*hidden|opacity\s*:\s*0(\.0*)?\s*(;|$|!)|font-size\s*:\s*0(\.0*)?[a-z%]*\s*(;|$|!)|text-indent\s*:\s*-\d{3,}|(left|top)\s*:\s*-\d{4,}/i;
+
+/**
+ * Zero-width and bidirectional control characters
+ */
+const INVISIBLE_CHARACTERS =
+  /[\u200B-\u200F\u202A-\u202E\u2060-\u2064\u2066-\u2069\uFEFF]/g;
+
 export class WebScraper {
   private turndownService: TurndownService;
 
@@ -125,6 +139,7 @@ export class WebScraper {
     $(
       "nav, header, footer, aside, .advertisement, .ads, .social-share",
     ).remove();
+    this.removeHiddenContent($);
 
     // Extract title
     const title = this.extractTitle($);
@@ -136,7 +151,9 @@ export class WebScraper {
     const metadata = this.extractMetadata($);
 
     // Convert to markdown
-    let markdown = this.turndownService.turndown(content);
+    let markdown = this.turndownService
+      .turndown(content)
+      .replace(INVISIBLE_CHARACTERS, "");
 
     // Process images if requested
     if (extractImages) {
@@ -158,6 +175,22 @@ export class WebScraper {
     };
   }
 
+  /**
+   * Remove comments and elements that browsers don't show
+   */
+  private removeHiddenContent($: cheerio.CheerioAPI): void {
+    $(
+      "[hidden], [aria-hidden='true'], template, input[type='hidden']",
+    ).remove();
+    $("[style]")
+      .filter((_, element) => HIDDEN_STYLE.test($(element).attr("style") || ""))
+      .remove();
+    $("*")
+      .contents()
+      .filter((_, node) => node.type === "comment")
+      .remove();
+  }
+
   private extractTitle($: cheerio.CheerioAPI): string {
     // Try multiple selectors for title
     const titleSelectors = [